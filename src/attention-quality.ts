@@ -51,14 +51,80 @@ const DEFAULT_OPTIONS: Required<Omit<AttentionQualityOptions, 'debug'>> = {
   idleThreshold: 30000, // 30 seconds
 };
 
+/**
+ * Policy 1: Page Visibility
+ * Tracks whether the page is visible and when it was first hidden, so
+ * anything measured while the tab is in the background can be left out.
+ * Also used by the web vitals collector.
+ */
+export class PageVisibilityPolicy {
+  private isVisible = true;
+  private firstHiddenTime = Infinity; // performance.now() time the page was first hidden
+  private listeners: Array<(isVisible: boolean) => void> = [];
+  private visibilityChangeHandler: (() => void) | null = null;
+
+  constructor() {
+    if (typeof document === 'undefined') return;
+
+    this.isVisible = document.visibilityState === 'visible';
+    // Pages loaded in a background tab were hidden from the start
+    if (!this.isVisible) {
+      this.firstHiddenTime = 0;
+    }
+
+    this.visibilityChangeHandler = () => {
+      const wasVisible = this.isVisible;
+      this.isVisible = document.visibilityState === 'visible';
+      if (!this.isVisible && typeof performance !== 'undefined') {
+        this.firstHiddenTime = Math.min(this.firstHiddenTime, performance.now());
+      }
+      if (this.isVisible !== wasVisible) {
+        for (const listener of this.listeners) {
+          listener(this.isVisible);
+        }
+      }
+    };
+
+    document.addEventListener('visibilitychange', this.visibilityChangeHandler);
+  }
+
+  /**
+   * Check if the page is currently visible
+   */
+  isPageVisible(): boolean {
+    return this.isVisible;
+  }
+
+  /**
+   * Check if a performance timeline entry happened after the page was first hidden
+   */
+  wasHiddenAt(startTime: number): boolean {
+    return startTime >= this.firstHiddenTime;
+  }
+
+  /**
+   * Get notified when the page is shown or hidden
+   */
+  onChange(listener: (isVisible: boolean) => void): void {
+    this.listeners.push(listener);
+  }
+
+  destroy(): void {
+    this.listeners = [];
+    if (this.visibilityChangeHandler && typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.visibilityChangeHandler);
+      this.visibilityChangeHandler = null;
+    }
+  }
+}
+
 export class AttentionQualityManager {
   private options: Required<Omit<AttentionQualityOptions, 'debug'>> & { debug: boolean };
   private activityDetector: ActivityDetector;
   private isDestroyed = false;
 
   // Page visibility tracking
-  private isPageVisible = true;
-  private visibilityChangeHandler: (() => void) | null = null;
+  private pageVisibility = new PageVisibilityPolicy();
 
   // Section attention state
   private sectionStates = new Map<string, SectionAttentionState>();
@@ -81,24 +147,15 @@ export class AttentionQualityManager {
    * Setup page visibility tracking
    */
   private setupPageVisibilityTracking(): void {
-    if (typeof document === 'undefined') return;
-
-    this.isPageVisible = document.visibilityState === 'visible';
-
-    this.visibilityChangeHandler = () => {
-      const wasVisible = this.isPageVisible;
-      this.isPageVisible = document.visibilityState === 'visible';
-
-      if (!this.isPageVisible && wasVisible) {
+    this.pageVisibility.onChange((isVisible) => {
+      if (!isVisible) {
         this.log('Page hidden - tracking paused');
-      } else if (this.isPageVisible && !wasVisible) {
+      } else {
         this.log('Page visible - tracking resumed');
         // Reset all section states when page becomes visible again
         this.resetAllSections();
       }
-    };
-
-    document.addEventListener('visibilitychange', this.visibilityChangeHandler);
+    });
   }
 
   /**
@@ -107,7 +164,7 @@ export class AttentionQualityManager {
    */
   shouldTrack(): boolean {
     // Policy 1: Page Visibility
-    if (!this.isPageVisible) {
+    if (!this.pageVisibility.isPageVisible()) {
       this.lastFilterReason = 'page_hidden';
       return false;
     }
@@ -291,7 +348,7 @@ export class AttentionQualityManager {
     activeSections: number;
   } {
     return {
-      isPageVisible: this.isPageVisible,
+      isPageVisible: this.pageVisibility.isPageVisible(),
       isUserActive: this.activityDetector.isActive(this.options.idleThreshold),
       timeSinceLastActivity: this.activityDetector.getTimeSinceLastActivity(),
       activeSections: this.sectionStates.size,
@@ -316,10 +373,7 @@ export class AttentionQualityManager {
     this.isDestroyed = true;
 
     // Remove visibility change listener
-    if (this.visibilityChangeHandler && typeof document !== 'undefined') {
-      document.removeEventListener('visibilitychange', this.visibilityChangeHandler);
-      this.visibilityChangeHandler = null;
-    }
+    this.pageVisibility.destroy();
 
     // Clear section states
     this.sectionStates.clear();
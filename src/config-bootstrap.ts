@@ -0,0 +1,95 @@
+/**
+ * Config Bootstrap for Grain Analytics
+ * Carries configurations fetched during server-side rendering to the browser,
+ * so the first client render uses real values instead of defaults
+ *
+ * Flow:
+ * 1. Server: GrainServerAnalytics.getConfigBootstrap() fetches configs with
+ *    the same request as the browser client
+ * 2. The bootstrap is passed to GrainProvider as a prop (React Server
+ *    Components), or embedded with getConfigBootstrapScript()
+ * 3. Browser: the client hydrates its config cache synchronously in the
+ *    constructor, then refreshes in the background as usual
+ */
+
+import type { RemoteConfigCache, RemoteConfigResponse } from './index';
+
+export interface ConfigBootstrap extends RemoteConfigCache {
+  tenantId: string;
+}
+
+// Global read by the browser client when no bootstrap is passed in config
+export const CONFIG_BOOTSTRAP_GLOBAL = '__GRAIN_CONFIG_BOOTSTRAP__';
+
+/**
+ * Build a bootstrap from a config response
+ */
+export function createConfigBootstrap(
+  tenantId: string,
+  userId: string,
+  response: RemoteConfigResponse
+): ConfigBootstrap {
+  return {
+    tenantId,
+    userId,
+    configurations: response.configurations,
+    snapshotId: response.snapshotId,
+    timestamp: response.timestamp,
+    qualifiedSegments: response.qualifiedSegments,
+    qualifiedRuleSets: response.qualifiedRuleSets,
+  };
+}
+
+/**
+ * Check that a value is a bootstrap for the given tenant
+ * Bootstraps come from markup, so they are validated before use
+ */
+export function isConfigBootstrap(value: unknown, tenantId: string): value is ConfigBootstrap {
+  if (!value || typeof value !== 'object') return false;
+
+  const bootstrap = value as Partial<ConfigBootstrap>;
+  return bootstrap.tenantId === tenantId &&
+    typeof bootstrap.userId === 'string' &&
+    typeof bootstrap.snapshotId === 'string' &&
+    !!bootstrap.configurations &&
+    typeof bootstrap.configurations === 'object' &&
+    Object.values(bootstrap.configurations).every(item => typeof item === 'string');
+}
+
+/**
+ * Read a bootstrap embedded with getConfigBootstrapScript()
+ */
+export function readConfigBootstrap(tenantId: string): ConfigBootstrap | null {
+  if (typeof window === 'undefined') return null;
+
+  const bootstraps = (window as unknown as Record<string, unknown>)[CONFIG_BOOTSTRAP_GLOBAL];
+  if (!bootstraps || typeof bootstraps !== 'object') return null;
+
+  const bootstrap = (bootstraps as Record<string, unknown>)[tenantId];
+  return isConfigBootstrap(bootstrap, tenantId) ? bootstrap : null;
+}
+
+/**
+ * Serialize a bootstrap as JSON that is safe to embed in an inline <script>
+ */
+export function serializeConfigBootstrap(bootstrap: ConfigBootstrap): string {
+  return JSON.stringify(bootstrap)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Get inline script contents that make a bootstrap available to the browser client
+ * Render it before the client is created, e.g. in the document head
+ *
+ * @example
+ * <script dangerouslySetInnerHTML={{ __html: getConfigBootstrapScript(bootstrap) }} />
+ */
+export function getConfigBootstrapScript(bootstrap: ConfigBootstrap): string {
+  const target = `window[${JSON.stringify(CONFIG_BOOTSTRAP_GLOBAL)}]`;
+  const tenant = JSON.stringify(bootstrap.tenantId);
+  return `${target}=${target}||{};${target}[${tenant}]=${serializeConfigBootstrap(bootstrap)};`;
+}
@@ -0,0 +1,230 @@
+/**
+ * Config Override Manager for Grain Analytics
+ * Forces config values in one browser for QA and development, without
+ * touching segments or rule sets on the backend
+ *
+ * Layers, highest precedence first:
+ * - override: set in code with setConfigOverride(), kept in memory
+ * - url: ?grain_config.<key>=<value> query params, kept for the tab session
+ * - storage: a JSON map in localStorage, kept until cleared
+ *
+ * Any override wins over remote values and defaultConfigurations.
+ * The url and storage layers are off unless enableConfigOverrides is set,
+ * since any link could otherwise force values for the visitor who opens it;
+ * enable them only in QA and development builds.
+ */
+
+export type ConfigOverrideSource = 'override' | 'url' | 'storage';
+
+export type ConfigSource = ConfigOverrideSource | 'remote' | 'default';
+
+export interface ConfigOverrideOptions {
+  persist?: boolean; // Also save to the localStorage layer so it survives reloads, needs enableConfigOverrides (default: false)
+}
+
+export interface ConfigOverrideManagerOptions {
+  tenantId: string;
+  enableExternalSources: boolean; // Read the url and storage layers
+  debug?: boolean;
+}
+
+// Query param prefix, e.g. ?grain_config.hero_variant=variant_b
+export const CONFIG_OVERRIDE_URL_PREFIX = 'grain_config.';
+
+// Lowest precedence first, so later layers win when merged
+const LAYER_ORDER: ConfigOverrideSource[] = ['storage', 'url', 'override'];
+
+export class ConfigOverrideManager {
+  private options: ConfigOverrideManagerOptions;
+  private layers: Record<ConfigOverrideSource, Record<string, string>> = {
+    override: {},
+    url: {},
+    storage: {},
+  };
+  private isDestroyed = false;
+
+  constructor(options: ConfigOverrideManagerOptions) {
+    this.options = options;
+
+    if (options.enableExternalSources && typeof window !== 'undefined') {
+      this.layers.storage = this.readMap(this.getStorage('local'), this.storageKey('storage'));
+      this.layers.url = {
+        ...this.readMap(this.getStorage('session'), this.storageKey('url')),
+        ...this.readUrlOverrides(),
+      };
+      this.writeMap(this.getStorage('session'), this.storageKey('url'), this.layers.url);
+
+      const count = Object.keys(this.getAll()).length;
+      if (count > 0) {
+        this.log(`Loaded ${count} config override(s)`);
+      }
+    }
+  }
+
+  /**
+   * Get the overridden value of a key and the layer it came from
+   */
+  get(key: string): { value: string; source: ConfigOverrideSource } | undefined {
+    for (let i = LAYER_ORDER.length - 1; i >= 0; i--) {
+      const source = LAYER_ORDER[i];
+      const value = this.layers[source][key];
+      if (value !== undefined) {
+        return { value, source };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all overridden values, merged by precedence
+   */
+  getAll(): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const source of LAYER_ORDER) {
+      Object.assign(values, this.layers[source]);
+    }
+    return values;
+  }
+
+  /**
+   * Get the layer each overridden key comes from
+   */
+  getSources(): Record<string, ConfigOverrideSource> {
+    const sources: Record<string, ConfigOverrideSource> = {};
+    for (const source of LAYER_ORDER) {
+      for (const key of Object.keys(this.layers[source])) {
+        sources[key] = source;
+      }
+    }
+    return sources;
+  }
+
+  /**
+   * Override a key in code, optionally persisting it to localStorage
+   */
+  set(key: string, value: string, options: ConfigOverrideOptions = {}): void {
+    if (this.isDestroyed) return;
+
+    this.layers.override[key] = value;
+    if (options.persist && !this.options.enableExternalSources) {
+      // The storage layer is never read back, so the override would be lost on reload
+      console.warn(`[Grain Analytics] Config override "${key}" was not persisted: persist requires enableConfigOverrides`);
+    } else if (options.persist) {
+      this.layers.storage[key] = value;
+      this.writeMap(this.getStorage('local'), this.storageKey('storage'), this.layers.storage);
+    }
+    this.log(`Overriding config "${key}"`, value);
+  }
+
+  /**
+   * Remove a key's override from every layer
+   */
+  remove(key: string): void {
+    if (this.isDestroyed) return;
+
+    for (const source of LAYER_ORDER) {
+      delete this.layers[source][key];
+    }
+    this.persistExternalLayers();
+  }
+
+  /**
+   * Remove all overrides from every layer
+   */
+  clear(): void {
+    if (this.isDestroyed) return;
+
+    this.layers = { override: {}, url: {}, storage: {} };
+    this.persistExternalLayers();
+  }
+
+  /**
+   * Read ?grain_config.<key>=<value> params from the current URL
+   */
+  private readUrlOverrides(): Record<string, string> {
+    const overrides: Record<string, string> = {};
+    try {
+      const params = new URLSearchParams(window.location.search);
+      params.forEach((value, name) => {
+        if (name.startsWith(CONFIG_OVERRIDE_URL_PREFIX) && name.length > CONFIG_OVERRIDE_URL_PREFIX.length) {
+          overrides[name.slice(CONFIG_OVERRIDE_URL_PREFIX.length)] = value;
+        }
+      });
+    } catch {
+      // Malformed URL - no url overrides
+    }
+    return overrides;
+  }
+
+  private persistExternalLayers(): void {
+    if (!this.options.enableExternalSources) return;
+    this.writeMap(this.getStorage('local'), this.storageKey('storage'), this.layers.storage);
+    this.writeMap(this.getStorage('session'), this.storageKey('url'), this.layers.url);
+  }
+
+  private storageKey(source: 'url' | 'storage'): string {
+    return source === 'url'
+      ? `_grain_url_config_overrides_${this.options.tenantId}`
+      : `_grain_config_overrides_${this.options.tenantId}`;
+  }
+
+  private getStorage(type: 'local' | 'session'): Storage | null {
+    try {
+      if (type === 'local') {
+        return typeof localStorage !== 'undefined' ? localStorage : null;
+      }
+      return typeof sessionStorage !== 'undefined' ? sessionStorage : null;
+    } catch {
+      // Storage access can throw when blocked by browser settings
+      return null;
+    }
+  }
+
+  /**
+   * Read a map of string values, ignoring anything else stored under the key
+   */
+  private readMap(storage: Storage | null, key: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    try {
+      const stored = storage?.getItem(key);
+      if (!stored) return values;
+
+      const parsed = JSON.parse(stored);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        for (const [name, value] of Object.entries(parsed)) {
+          if (typeof value === 'string') {
+            values[name] = value;
+          }
+        }
+      }
+    } catch (error) {
+      this.log('Failed to read config overrides:', error);
+    }
+    return values;
+  }
+
+  private writeMap(storage: Storage | null, key: string, values: Record<string, string>): void {
+    try {
+      if (Object.keys(values).length === 0) {
+        storage?.removeItem(key);
+      } else {
+        storage?.setItem(key, JSON.stringify(values));
+      }
+    } catch (error) {
+      this.log('Failed to save config overrides:', error);
+    }
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[Config Overrides]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the manager
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+  }
+}
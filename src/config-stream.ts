@@ -0,0 +1,339 @@
+/**
+ * Config Stream Manager for Grain Analytics
+ * Pushes remote config changes to the client instead of polling
+ *
+ * Transports, in order of preference:
+ * - Server-Sent Events (GET /config/stream) - only without auth headers,
+ *   since EventSource can't send them
+ * - Long-poll (POST /config/poll) - the server holds the request until a
+ *   change is available (200) or the wait times out (204)
+ *
+ * Both send changes since the snapshot the client already has. The stream
+ * reconnects with exponential backoff, disconnects while the tab is hidden,
+ * and hands back to interval polling when it can't be established.
+ */
+
+export interface ConfigStreamMessage {
+  snapshotId: string;
+  changed: Record<string, string>; // Keys added or updated since the previous snapshot
+  removed?: string[]; // Keys no longer served
+  qualifiedSegments?: string[];
+  qualifiedRuleSets?: string[];
+}
+
+export interface ConfigStreamRequest {
+  userId: string;
+  snapshotId?: string; // Last snapshot the client has
+  currentUrl?: string;
+}
+
+export interface ConfigStreamTracker {
+  getConfigBaseUrl(): string; // .../v1/client/{tenantId}/config
+  getStreamRequest(): ConfigStreamRequest;
+  getAuthHeaders(): Promise<Record<string, string>>;
+  applyConfigUpdate(message: ConfigStreamMessage): void;
+  onStreamUnavailable(): void; // Called once when the client should go back to polling
+}
+
+export interface ConfigStreamOptions {
+  reconnectDelay: number; // First reconnect delay (ms)
+  maxReconnectDelay: number; // Backoff cap (ms)
+  maxFailures: number; // Consecutive failures before falling back to polling
+  longPollTimeout: number; // How long the server may hold a long-poll (ms)
+  debug?: boolean;
+}
+
+type StreamTransport = 'sse' | 'long-poll';
+
+const DEFAULT_OPTIONS: ConfigStreamOptions = {
+  reconnectDelay: 1000, // 1 second
+  maxReconnectDelay: 60000, // 1 minute
+  maxFailures: 6,
+  longPollTimeout: 30000, // 30 seconds
+  debug: false,
+};
+
+// SSE failures before switching to long-poll
+const SSE_FAILURES_BEFORE_LONG_POLL = 2;
+
+// A server that answers long-polls immediately must not cause a request loop
+const MIN_LONG_POLL_INTERVAL = 1000;
+
+export class ConfigStreamManager {
+  private tracker: ConfigStreamTracker;
+  private options: ConfigStreamOptions;
+  private isDestroyed = false;
+  private isRunning = false;
+  private connected = false;
+
+  private transport: StreamTransport = 'sse';
+  private failures = 0;
+  private connection = 0; // Incremented per connection so stale callbacks can be ignored
+
+  private eventSource: EventSource | null = null;
+  private pollController: AbortController | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private visibilityHandler: (() => void) | null = null;
+
+  constructor(tracker: ConfigStreamTracker, options: Partial<ConfigStreamOptions> = {}) {
+    this.tracker = tracker;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start streaming config updates
+   */
+  async start(): Promise<void> {
+    if (this.isDestroyed || this.isRunning) return;
+
+    if (typeof window === 'undefined') {
+      this.tracker.onStreamUnavailable();
+      return;
+    }
+
+    this.isRunning = true;
+
+    // EventSource can't send Authorization headers - use long-poll instead
+    const headers = await this.tracker.getAuthHeaders();
+    const canUseSSE = typeof EventSource !== 'undefined' && !headers['Authorization'];
+    this.transport = canUseSSE ? 'sse' : 'long-poll';
+
+    if (!this.isRunning) return; // Stopped while reading headers
+
+    if (!canUseSSE && typeof fetch === 'undefined') {
+      this.isRunning = false;
+      this.tracker.onStreamUnavailable();
+      return;
+    }
+
+    this.setupVisibilityHandler();
+    this.connect();
+  }
+
+  /**
+   * Stop streaming and close the connection
+   */
+  stop(): void {
+    this.isRunning = false;
+    this.disconnect();
+
+    if (this.visibilityHandler) {
+      document.removeEventListener('visibilitychange', this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+  }
+
+  /**
+   * Check if a stream connection is open
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Get the transport in use
+   */
+  getTransport(): StreamTransport {
+    return this.transport;
+  }
+
+  private connect(): void {
+    if (!this.isRunning || this.isDestroyed) return;
+    if (document.visibilityState === 'hidden') {
+      this.log('Tab hidden, waiting to connect');
+      return;
+    }
+
+    this.disconnect();
+    const connection = ++this.connection;
+
+    if (this.transport === 'sse') {
+      this.connectSSE(connection);
+    } else {
+      this.longPoll(connection);
+    }
+  }
+
+  private disconnect(): void {
+    this.connection++;
+    this.connected = false;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
+    }
+    if (this.pollController) {
+      this.pollController.abort();
+      this.pollController = null;
+    }
+  }
+
+  private connectSSE(connection: number): void {
+    const url = `${this.tracker.getConfigBaseUrl()}/stream?${this.buildQuery()}`;
+
+    try {
+      const eventSource = new EventSource(url);
+      this.eventSource = eventSource;
+
+      eventSource.onopen = () => {
+        if (connection !== this.connection) return;
+        this.connected = true;
+        this.failures = 0;
+        this.log('Config stream connected (SSE)');
+      };
+
+      eventSource.onmessage = (event: MessageEvent) => {
+        if (connection !== this.connection) return;
+        this.handleMessage(event.data);
+      };
+
+      eventSource.onerror = () => {
+        if (connection !== this.connection) return;
+        // Take over reconnecting from EventSource to apply backoff
+        eventSource.close();
+        this.eventSource = null;
+        this.handleFailure('SSE connection error');
+      };
+    } catch (error) {
+      this.handleFailure(error);
+    }
+  }
+
+  private async longPoll(connection: number): Promise<void> {
+    while (this.isRunning && connection === this.connection) {
+      const startedAt = Date.now();
+      const controller = new AbortController();
+      this.pollController = controller;
+
+      // Give up on requests the server held longer than promised
+      const timeout = setTimeout(() => controller.abort(), this.options.longPollTimeout + 5000);
+
+      try {
+        const headers = await this.tracker.getAuthHeaders();
+        const response = await fetch(`${this.tracker.getConfigBaseUrl()}/poll`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            ...this.tracker.getStreamRequest(),
+            timeout: this.options.longPollTimeout,
+          }),
+          signal: controller.signal,
+        });
+
+        if (connection !== this.connection) return;
+
+        if (response.status !== 204) {
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+          }
+          this.handleMessage(await response.text());
+        }
+
+        this.connected = true;
+        this.failures = 0;
+      } catch (error) {
+        if (connection !== this.connection) return; // Aborted by stop() or hide
+        this.handleFailure(error);
+        return;
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      const elapsed = Date.now() - startedAt;
+      if (elapsed < MIN_LONG_POLL_INTERVAL) {
+        await new Promise(resolve => setTimeout(resolve, MIN_LONG_POLL_INTERVAL - elapsed));
+      }
+    }
+  }
+
+  private handleMessage(data: string): void {
+    try {
+      const message = JSON.parse(data) as ConfigStreamMessage;
+      if (!message || typeof message.snapshotId !== 'string' || typeof message.changed !== 'object') {
+        this.log('Ignoring malformed config stream message');
+        return;
+      }
+      this.tracker.applyConfigUpdate(message);
+      this.log('Applied config update', message.snapshotId);
+    } catch (error) {
+      this.log('Failed to parse config stream message:', error);
+    }
+  }
+
+  /**
+   * Reconnect with backoff, switching transport or giving up after repeated failures
+   */
+  private handleFailure(error: unknown): void {
+    this.connected = false;
+    this.failures++;
+    this.log(`Config stream failed (${this.transport}, attempt ${this.failures}):`, error);
+
+    if (this.transport === 'sse' && this.failures >= SSE_FAILURES_BEFORE_LONG_POLL) {
+      this.log('Switching config stream to long-poll');
+      this.transport = 'long-poll';
+      this.failures = 0;
+    } else if (this.failures >= this.options.maxFailures) {
+      this.log('Config stream unavailable, falling back to polling');
+      this.stop();
+      this.tracker.onStreamUnavailable();
+      return;
+    }
+
+    const backoff = Math.min(
+      this.options.maxReconnectDelay,
+      this.options.reconnectDelay * Math.pow(2, Math.max(0, this.failures - 1))
+    );
+    // Jitter keeps clients from reconnecting in lockstep after an outage
+    const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Disconnect while the tab is hidden, reconnect right away when it is visible again
+   */
+  private setupVisibilityHandler(): void {
+    this.visibilityHandler = () => {
+      if (!this.isRunning) return;
+
+      if (document.visibilityState === 'hidden') {
+        this.log('Tab hidden, pausing config stream');
+        this.disconnect();
+      } else {
+        this.log('Tab visible, resuming config stream');
+        this.failures = 0;
+        this.connect();
+      }
+    };
+    document.addEventListener('visibilitychange', this.visibilityHandler);
+  }
+
+  private buildQuery(): string {
+    const request = this.tracker.getStreamRequest();
+    const params = new URLSearchParams({ userId: request.userId });
+    if (request.snapshotId) params.set('snapshotId', request.snapshotId);
+    if (request.currentUrl) params.set('currentUrl', request.currentUrl);
+    return params.toString();
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[Config Stream]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the manager
+   */
+  destroy(): void {
+    this.stop();
+    this.isDestroyed = true;
+  }
+}
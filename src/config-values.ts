@@ -0,0 +1,136 @@
+/**
+ * Typed Remote Config Values for Grain Analytics
+ * Remote config is delivered as strings - these helpers encode typed defaults
+ * and decode values into booleans, numbers and validated JSON
+ *
+ * Decoding never throws: a value that doesn't match the requested type is
+ * reported as an error so callers can fall back to a default.
+ */
+
+import { validateProperties, type EventSchema } from './event-schema';
+
+export type ConfigValue =
+  | string
+  | number
+  | boolean
+  | null
+  | ConfigValue[]
+  | { [key: string]: ConfigValue };
+
+export type ConfigDecodeResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/**
+ * Narrow a decode result to its failure case
+ * Checks for the error field so it also narrows without strictNullChecks
+ */
+export function isConfigDecodeError<T>(result: ConfigDecodeResult<T>): result is { ok: false; error: string } {
+  return 'error' in result;
+}
+
+export interface NumberConfigOptions {
+  min?: number;
+  max?: number;
+  integer?: boolean;
+}
+
+/**
+ * Validates a decoded JSON value
+ * Either a type guard or an object schema (same format as event schemas)
+ */
+export type JSONConfigSchema<T> = ((value: unknown) => value is T) | EventSchema;
+
+/**
+ * Encode a typed value as a config string
+ * Strings are kept as-is, everything else is JSON encoded
+ */
+export function encodeConfigValue(value: ConfigValue): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Encode a map of typed defaults as config strings
+ */
+export function encodeConfigValues(values: Record<string, ConfigValue> = {}): Record<string, string> {
+  const encoded: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) {
+      encoded[key] = encodeConfigValue(value);
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Decode a boolean config value
+ * Accepts true/false and 1/0, case-insensitive
+ */
+export function decodeBooleanConfig(raw: string | undefined): ConfigDecodeResult<boolean> {
+  if (raw === undefined) return { ok: false, error: 'value is missing' };
+
+  const normalized = raw.trim().toLowerCase();
+  if (normalized === 'true' || normalized === '1') return { ok: true, value: true };
+  if (normalized === 'false' || normalized === '0') return { ok: true, value: false };
+
+  return { ok: false, error: `expected a boolean, got "${raw}"` };
+}
+
+/**
+ * Decode a numeric config value, optionally checking its range
+ */
+export function decodeNumberConfig(
+  raw: string | undefined,
+  options: NumberConfigOptions = {}
+): ConfigDecodeResult<number> {
+  if (raw === undefined) return { ok: false, error: 'value is missing' };
+
+  const value = raw.trim() === '' ? NaN : Number(raw);
+  if (!Number.isFinite(value)) {
+    return { ok: false, error: `expected a number, got "${raw}"` };
+  }
+  if (options.integer && !Number.isInteger(value)) {
+    return { ok: false, error: `expected an integer, got ${value}` };
+  }
+  if (options.min !== undefined && value < options.min) {
+    return { ok: false, error: `${value} is below the minimum of ${options.min}` };
+  }
+  if (options.max !== undefined && value > options.max) {
+    return { ok: false, error: `${value} is above the maximum of ${options.max}` };
+  }
+
+  return { ok: true, value };
+}
+
+/**
+ * Decode a JSON config value, optionally validating its shape
+ */
+export function decodeJSONConfig<T = unknown>(
+  raw: string | undefined,
+  schema?: JSONConfigSchema<T>
+): ConfigDecodeResult<T> {
+  if (raw === undefined) return { ok: false, error: 'value is missing' };
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'value is not valid JSON' };
+  }
+
+  if (typeof schema === 'function') {
+    if (!schema(value)) {
+      return { ok: false, error: 'value does not match the schema' };
+    }
+  } else if (schema) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return { ok: false, error: 'expected a JSON object' };
+    }
+    const issues = validateProperties(schema, value as Record<string, unknown>);
+    if (issues.length > 0) {
+      return { ok: false, error: issues.join('; ') };
+    }
+  }
+
+  return { ok: true, value: value as T };
+}
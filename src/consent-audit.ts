@@ -0,0 +1,272 @@
+/**
+ * Consent Audit Log for Grain Analytics
+ * Proof-of-consent records for every consent change
+ *
+ * Each grant or revoke is recorded as an immutable entry with the consent
+ * version, categories, the UI surface it came from and the version of the
+ * text the user saw. Entries are:
+ * - kept in localStorage so they can be queried on the device
+ * - sent to /v1/privacy/{tenantId}/consent-audit through the client's unload
+ *   transport, retried on the next page load until the server accepts them
+ *
+ * Pending entries are sent in batches small enough for a keepalive request
+ * (browsers reject keepalive bodies over 64 KB), so a long backlog drains
+ * over several requests instead of failing as a whole.
+ *
+ * Like consent preferences, the log is a compliance record rather than
+ * tracking, so it is stored regardless of the consent given.
+ */
+
+import type { ConsentMode } from './consent';
+import type { Transport } from './transport';
+import { byteLength } from './text-utils';
+
+export type ConsentAuditAction = 'grant' | 'revoke';
+
+/**
+ * Where a consent change came from, recorded with the audit entry
+ */
+export interface ConsentContext {
+  surface?: string; // UI surface, e.g. 'consent_banner' or 'preference_center' (default: 'api')
+  textVersion?: string; // Version of the consent text the user saw
+  tcString?: string; // IAB TCF consent string, when consent came from a TCF CMP
+}
+
+export interface ConsentAuditEntry {
+  readonly id: string;
+  readonly timestamp: string; // ISO 8601
+  readonly action: ConsentAuditAction;
+  readonly granted: boolean;
+  readonly categories: readonly string[]; // Categories consented to after the change
+  readonly previousCategories: readonly string[];
+  readonly consentVersion: string; // CONSENT_VERSION of the SDK
+  readonly consentMode: ConsentMode;
+  readonly surface: string;
+  readonly textVersion?: string;
+  readonly tcString?: string;
+  readonly userId: string;
+  readonly pageUrl?: string;
+}
+
+export type ConsentAuditRecord = Omit<ConsentAuditEntry, 'id' | 'timestamp' | 'surface' | 'textVersion' | 'tcString'> & ConsentContext;
+
+export interface ConsentAuditTracker {
+  getApiUrl(): string;
+  getAuthHeaders(): Promise<Record<string, string>>;
+  getTransport(): Transport; // Transport for requests that must outlive the page
+}
+
+export interface ConsentAuditOptions {
+  tenantId: string;
+  maxEntries: number; // Entries kept on the device, oldest delivered entries are dropped first
+  debug?: boolean;
+}
+
+const DEFAULT_OPTIONS: Omit<ConsentAuditOptions, 'tenantId'> = {
+  maxEntries: 100,
+  debug: false,
+};
+
+const MAX_BATCH_ENTRIES = 50;
+const MAX_BATCH_BYTES = 60000; // Below the 64 KB keepalive quota, leaving room for headers
+
+function generateEntryId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export class ConsentAuditLog {
+  private tracker: ConsentAuditTracker;
+  private options: ConsentAuditOptions;
+  private entries: ConsentAuditEntry[] = [];
+  private pendingIds: string[] = [];
+  private sendPromise: Promise<void> = Promise.resolve();
+  private isDestroyed = false;
+
+  constructor(tracker: ConsentAuditTracker, options: Partial<ConsentAuditOptions> & { tenantId: string }) {
+    this.tracker = tracker;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.load();
+
+    // Deliver entries a previous page couldn't send
+    if (this.pendingIds.length > 0) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Record a consent change and send it
+   */
+  record(record: ConsentAuditRecord): ConsentAuditEntry {
+    const entry: ConsentAuditEntry = Object.freeze({
+      id: generateEntryId(),
+      timestamp: new Date().toISOString(),
+      action: record.action,
+      granted: record.granted,
+      categories: Object.freeze([...record.categories]),
+      previousCategories: Object.freeze([...record.previousCategories]),
+      consentVersion: record.consentVersion,
+      consentMode: record.consentMode,
+      surface: record.surface || 'api',
+      ...(record.textVersion !== undefined && { textVersion: record.textVersion }),
+      ...(record.tcString !== undefined && { tcString: record.tcString }),
+      userId: record.userId,
+      ...(record.pageUrl !== undefined && { pageUrl: record.pageUrl }),
+    });
+
+    this.entries.push(entry);
+    this.pendingIds.push(entry.id);
+    this.trim();
+    this.save();
+    this.log('Recorded consent change', entry);
+
+    if (!this.isDestroyed) {
+      this.flush();
+    }
+    return entry;
+  }
+
+  /**
+   * Get recorded entries, oldest first
+   */
+  getEntries(): ConsentAuditEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get entries the server hasn't accepted yet
+   */
+  getPendingEntries(): ConsentAuditEntry[] {
+    return this.entries.filter(entry => this.pendingIds.includes(entry.id));
+  }
+
+  /**
+   * Send pending entries to the consent audit endpoint
+   * Entries stay pending when delivery fails and are retried on the next flush
+   */
+  flush(): Promise<void> {
+    // Sends run one after another so an entry is never sent twice at once
+    this.sendPromise = this.sendPromise.then(() => this.send());
+    return this.sendPromise;
+  }
+
+  private async send(): Promise<void> {
+    let pending = this.getPendingEntries();
+
+    while (pending.length > 0) {
+      const batch = this.takeBatch(pending);
+      if (!(await this.sendBatch(batch))) return;
+      pending = pending.slice(batch.length);
+    }
+  }
+
+  /**
+   * Take the oldest entries that fit one request
+   * A single oversized entry is still sent on its own
+   */
+  private takeBatch(pending: ConsentAuditEntry[]): ConsentAuditEntry[] {
+    const batch: ConsentAuditEntry[] = [];
+    let bytes = JSON.stringify({ entries: [] }).length;
+
+    for (const entry of pending) {
+      const entryBytes = byteLength(JSON.stringify(entry)) + 1;
+      if (batch.length > 0 && (batch.length >= MAX_BATCH_ENTRIES || bytes + entryBytes > MAX_BATCH_BYTES)) break;
+      batch.push(entry);
+      bytes += entryBytes;
+    }
+    return batch;
+  }
+
+  private async sendBatch(batch: ConsentAuditEntry[]): Promise<boolean> {
+    try {
+      const headers = await this.tracker.getAuthHeaders();
+      const response = await this.tracker.getTransport().send({
+        url: `${this.tracker.getApiUrl()}/v1/privacy/${encodeURIComponent(this.options.tenantId)}/consent-audit`,
+        headers,
+        body: JSON.stringify({ entries: batch }),
+        events: [],
+        keepalive: true, // Consent is often given right before navigating away
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const sentIds = new Set(batch.map(entry => entry.id));
+      this.pendingIds = this.pendingIds.filter(id => !sentIds.has(id));
+      this.save();
+      this.log(`Sent ${batch.length} consent audit entries`);
+      return true;
+    } catch (error) {
+      this.log('Failed to send consent audit entries, will retry:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Keep at most maxEntries, never dropping entries that are still pending
+   */
+  private trim(): void {
+    let excess = this.entries.length - this.options.maxEntries;
+    if (excess <= 0) return;
+
+    this.entries = this.entries.filter(entry => {
+      if (excess > 0 && !this.pendingIds.includes(entry.id)) {
+        excess--;
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private getStorageKey(): string {
+    return `grain_consent_audit_${this.options.tenantId}`;
+  }
+
+  private load(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      const stored = localStorage.getItem(this.getStorageKey());
+      if (!stored) return;
+
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed?.entries)) {
+        this.entries = parsed.entries.map((entry: ConsentAuditEntry) => Object.freeze(entry));
+      }
+      if (Array.isArray(parsed?.pendingIds)) {
+        this.pendingIds = parsed.pendingIds;
+      }
+    } catch (error) {
+      this.log('Failed to load consent audit log:', error);
+    }
+  }
+
+  private save(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(this.getStorageKey(), JSON.stringify({
+        entries: this.entries,
+        pendingIds: this.pendingIds,
+      }));
+    } catch (error) {
+      this.log('Failed to save consent audit log:', error);
+    }
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[Consent Audit]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the log (recorded entries stay persisted)
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+  }
+}
@@ -0,0 +1,420 @@
+/**
+ * Consent Bridge for Grain Analytics
+ * Keeps Grain consent in sync with other vendors, so there is one source of truth
+ *
+ * Inbound - an existing CMP owns consent and Grain follows it:
+ * - 'tcf': IAB TCF v2.2 through __tcfapi, purposes mapped onto Grain categories
+ * - 'onetrust': OneTrust active groups (OneTrustGroupsUpdated)
+ * - 'cookiebot': Cookiebot consent (CookiebotOnConsentReady/Accept/Decline)
+ *
+ * Outbound - Grain consent is forwarded as Google Consent Mode v2 signals
+ * (ad_storage, analytics_storage, ad_user_data, ad_personalization) through
+ * gtag() or the dataLayer, whether it came from a CMP or from Grain's own UI.
+ * With a OneTrust or Cookiebot source, consent changed through Grain (API or
+ * Grain's consent UI) is also written back to the CMP, so both stay in sync.
+ *
+ * TCF is inbound only: TC strings can only be written by the CMP that is
+ * registered with IAB. Grain records the current TC string with each consent
+ * change it receives.
+ */
+
+import type { ConsentState } from './consent';
+import type { ConsentContext } from './consent-audit';
+
+export type ConsentSource = 'tcf' | 'onetrust' | 'cookiebot';
+
+export type GoogleConsentSignal = 'ad_storage' | 'analytics_storage' | 'ad_user_data' | 'ad_personalization';
+
+export interface ConsentBridgeConfig {
+  source?: ConsentSource; // CMP that owns consent - Grain's own banner stays hidden (default: none)
+  tcfPurposes?: Record<string, number[]>; // Grain category -> TCF purposes that must all be consented
+  cmpCategories?: Record<string, string>; // OneTrust group ID or Cookiebot category -> Grain category
+  googleConsentMode?: boolean | Partial<Record<GoogleConsentSignal, string>>; // Signal -> Grain category that grants it
+  syncToCmp?: boolean; // Write consent changed through Grain back to OneTrust or Cookiebot (default: true)
+}
+
+export interface ConsentBridgeOptions extends ConsentBridgeConfig {
+  debug?: boolean;
+}
+
+export interface ConsentBridgeTracker {
+  getConsentState(): ConsentState | null;
+  grantConsent(categories?: string[], context?: ConsentContext): void;
+  revokeConsent(categories?: string[], context?: ConsentContext): void;
+  onConsentChange(listener: (state: ConsentState) => void): void;
+  offConsentChange(listener: (state: ConsentState) => void): void;
+}
+
+// Subset of the TCF v2.2 TCData object used by the bridge
+interface TCData {
+  tcString?: string;
+  gdprApplies?: boolean;
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  listenerId?: number;
+  purpose?: {
+    consents?: Record<string, boolean>;
+  };
+}
+
+interface OneTrustApi {
+  UpdateConsent?: (groupType: 'Category', groupIdAndStatus: string) => void;
+}
+
+interface CookiebotApi {
+  consent?: Record<string, boolean>;
+  hasResponse?: boolean;
+  submitCustomConsent?: (preferences: boolean, statistics: boolean, marketing: boolean) => void;
+}
+
+type TcfApi = (command: string, version: number, callback: (data: TCData, success: boolean) => void, parameter?: unknown) => void;
+
+export const DEFAULT_TCF_PURPOSES: Record<string, number[]> = {
+  analytics: [1, 8, 9], // Store information, measure content performance, market research
+  functional: [1, 10], // Store information, develop and improve services
+  marketing: [1, 3, 4], // Store information, create and use personalised ad profiles
+};
+
+export const DEFAULT_CMP_CATEGORIES: Record<'onetrust' | 'cookiebot', Record<string, string>> = {
+  onetrust: {
+    C0001: 'necessary',
+    C0002: 'analytics', // Performance cookies
+    C0003: 'functional',
+    C0004: 'marketing', // Targeting cookies
+  },
+  cookiebot: {
+    necessary: 'necessary',
+    statistics: 'analytics',
+    preferences: 'functional',
+    marketing: 'marketing',
+  },
+};
+
+export const DEFAULT_GOOGLE_CONSENT_SIGNALS: Record<GoogleConsentSignal, string> = {
+  analytics_storage: 'analytics',
+  ad_storage: 'marketing',
+  ad_user_data: 'marketing',
+  ad_personalization: 'marketing',
+};
+
+// The CMP script often loads after the SDK
+const CMP_POLL_INTERVAL = 500;
+const CMP_POLL_ATTEMPTS = 20;
+
+export class ConsentBridge {
+  private tracker: ConsentBridgeTracker;
+  private options: ConsentBridgeOptions;
+  private isDestroyed = false;
+  private tcString: string | null = null;
+  private tcfListenerId: number | null = null;
+  private pollTimer: ReturnType<typeof setTimeout> | null = null;
+  private consentListener: ((state: ConsentState) => void) | null = null;
+  private isApplyingExternalConsent = false;
+  private isWritingCmpConsent = false;
+  private windowListeners: Array<[string, EventListener]> = [];
+
+  constructor(tracker: ConsentBridgeTracker, options: ConsentBridgeOptions) {
+    this.tracker = tracker;
+    this.options = options;
+  }
+
+  /**
+   * Start syncing with the configured CMP and Google Consent Mode
+   */
+  start(): void {
+    if (this.isDestroyed || typeof window === 'undefined') return;
+
+    if (this.options.googleConsentMode) {
+      // Defaults must be set before tags fire; denied until consent is known
+      this.sendGoogleConsent('default', this.tracker.getConsentState());
+    }
+    if (this.options.googleConsentMode || this.writesToCmp()) {
+      this.consentListener = (state) => this.handleConsentChange(state);
+      this.tracker.onConsentChange(this.consentListener);
+    }
+
+    switch (this.options.source) {
+      case 'tcf':
+        this.connectTcf(0);
+        break;
+      case 'onetrust':
+        this.connectOneTrust();
+        break;
+      case 'cookiebot':
+        this.connectCookiebot();
+        break;
+    }
+  }
+
+  /**
+   * Get the latest TC string received from the CMP
+   */
+  getTCString(): string | null {
+    return this.tcString;
+  }
+
+  /**
+   * Map TCF purpose consents onto Grain categories
+   */
+  mapTcfConsent(data: TCData): string[] {
+    const purposes = this.options.tcfPurposes || DEFAULT_TCF_PURPOSES;
+    const consents = data.purpose?.consents || {};
+    const categories = ['necessary'];
+
+    for (const [category, required] of Object.entries(purposes)) {
+      // GDPR doesn't apply - the CMP doesn't ask, so nothing is withheld
+      const granted = data.gdprApplies === false || required.every(purpose => consents[purpose] === true);
+      if (granted && !categories.includes(category)) {
+        categories.push(category);
+      }
+    }
+    return categories;
+  }
+
+  /**
+   * Map CMP group IDs or category names onto Grain categories
+   */
+  mapCmpConsent(source: 'onetrust' | 'cookiebot', grantedIds: string[]): string[] {
+    const mapping = this.getCmpCategories(source);
+    const categories = ['necessary'];
+
+    for (const id of grantedIds) {
+      const category = mapping[id];
+      if (category && !categories.includes(category)) {
+        categories.push(category);
+      }
+    }
+    return categories;
+  }
+
+  private connectTcf(attempt: number): void {
+    const tcfapi = (window as unknown as { __tcfapi?: TcfApi }).__tcfapi;
+
+    if (typeof tcfapi !== 'function') {
+      this.retryConnect(attempt, () => this.connectTcf(attempt + 1));
+      return;
+    }
+
+    try {
+      tcfapi('addEventListener', 2, (data, success) => {
+        if (!success || this.isDestroyed) return;
+        if (data.listenerId !== undefined) {
+          this.tcfListenerId = data.listenerId;
+        }
+        // Consent is final once loaded from storage or after the user acted in the CMP UI
+        if (data.eventStatus !== 'tcloaded' && data.eventStatus !== 'useractioncomplete') return;
+
+        this.tcString = data.tcString || null;
+        this.applyExternalConsent(this.mapTcfConsent(data), {
+          surface: 'cmp:tcf',
+          tcString: data.tcString,
+        });
+      });
+      this.log('Connected to TCF API');
+    } catch (error) {
+      this.log('Failed to connect to TCF API:', error);
+    }
+  }
+
+  private connectOneTrust(): void {
+    const readGroups = (groups?: string[]) => {
+      const active = groups ?? ((window as unknown as { OnetrustActiveGroups?: string }).OnetrustActiveGroups || '')
+        .split(',')
+        .filter(Boolean);
+      if (active.length === 0) return; // OneTrust not loaded yet
+
+      this.applyExternalConsent(this.mapCmpConsent('onetrust', active), { surface: 'cmp:onetrust' });
+    };
+
+    this.addWindowListener('OneTrustGroupsUpdated', (event) => {
+      const detail = (event as CustomEvent<string[]>).detail;
+      readGroups(Array.isArray(detail) ? detail : undefined);
+    });
+    readGroups();
+  }
+
+  private connectCookiebot(): void {
+    const readConsent = () => {
+      const cookiebot = (window as unknown as { Cookiebot?: CookiebotApi }).Cookiebot;
+      if (!cookiebot?.consent || cookiebot.hasResponse === false) return; // No decision yet
+
+      const granted = Object.keys(cookiebot.consent).filter(key => cookiebot.consent![key] === true);
+      this.applyExternalConsent(this.mapCmpConsent('cookiebot', granted), { surface: 'cmp:cookiebot' });
+    };
+
+    for (const eventName of ['CookiebotOnConsentReady', 'CookiebotOnAccept', 'CookiebotOnDecline']) {
+      this.addWindowListener(eventName, readConsent);
+    }
+    readConsent();
+  }
+
+  /**
+   * Apply consent from the CMP, skipping changes Grain already has
+   */
+  private applyExternalConsent(categories: string[], context: ConsentContext): void {
+    // Our own write-back echoed by the CMP
+    if (this.isDestroyed || this.isWritingCmpConsent) return;
+
+    const optional = categories.filter(category => category !== 'necessary');
+    const current = this.tracker.getConsentState();
+
+    this.isApplyingExternalConsent = true;
+    try {
+      if (optional.length === 0) {
+        if (current && !current.granted) return;
+        this.log('CMP consent: revoked');
+        this.tracker.revokeConsent(undefined, context);
+        return;
+      }
+
+      if (current?.granted && sameCategories(current.categories, categories)) return;
+      this.log('CMP consent: granted', categories);
+      this.tracker.grantConsent(categories, context);
+    } finally {
+      this.isApplyingExternalConsent = false;
+    }
+  }
+
+  private handleConsentChange(state: ConsentState): void {
+    if (this.options.googleConsentMode) {
+      this.sendGoogleConsent('update', state);
+    }
+    // Changes that came from the CMP are already there
+    if (this.writesToCmp() && !this.isApplyingExternalConsent) {
+      this.writeCmpConsent(state);
+    }
+  }
+
+  private writesToCmp(): boolean {
+    return this.options.syncToCmp !== false &&
+      (this.options.source === 'onetrust' || this.options.source === 'cookiebot');
+  }
+
+  private getCmpCategories(source: 'onetrust' | 'cookiebot'): Record<string, string> {
+    return { ...DEFAULT_CMP_CATEGORIES[source], ...(this.options.cmpCategories || {}) };
+  }
+
+  /**
+   * Write consent changed through Grain back to the CMP
+   */
+  private writeCmpConsent(state: ConsentState): void {
+    const categories = state.granted ? state.categories : ['necessary'];
+    const source = this.options.source as 'onetrust' | 'cookiebot';
+    const mapping = this.getCmpCategories(source);
+    const isGranted = (cmpId: string) => categories.includes(mapping[cmpId]);
+
+    this.isWritingCmpConsent = true;
+    try {
+      if (source === 'onetrust') {
+        const oneTrust = (window as unknown as { OneTrust?: OneTrustApi }).OneTrust;
+        if (typeof oneTrust?.UpdateConsent !== 'function') return;
+
+        for (const [groupId, category] of Object.entries(mapping)) {
+          if (category === 'necessary') continue;
+          oneTrust.UpdateConsent('Category', `${groupId}:${isGranted(groupId) ? 1 : 0}`);
+        }
+      } else {
+        const cookiebot = (window as unknown as { Cookiebot?: CookiebotApi }).Cookiebot;
+        if (typeof cookiebot?.submitCustomConsent !== 'function') return;
+
+        cookiebot.submitCustomConsent(isGranted('preferences'), isGranted('statistics'), isGranted('marketing'));
+      }
+      this.log(`Wrote consent back to ${source}`, categories);
+    } catch (error) {
+      this.log(`Failed to write consent back to ${source}:`, error);
+    } finally {
+      this.isWritingCmpConsent = false;
+    }
+  }
+
+  /**
+   * Send Google Consent Mode v2 signals for the current Grain consent
+   */
+  private sendGoogleConsent(command: 'default' | 'update', state: ConsentState | null): void {
+    const mapping = {
+      ...DEFAULT_GOOGLE_CONSENT_SIGNALS,
+      ...(typeof this.options.googleConsentMode === 'object' ? this.options.googleConsentMode : {}),
+    };
+    const categories = state?.granted ? state.categories : [];
+
+    const signals: Record<string, 'granted' | 'denied'> = {};
+    for (const [signal, category] of Object.entries(mapping)) {
+      signals[signal] = categories.includes(category) ? 'granted' : 'denied';
+    }
+
+    try {
+      const target = window as unknown as { gtag?: (...args: unknown[]) => void; dataLayer?: unknown[] };
+      if (typeof target.gtag === 'function') {
+        target.gtag('consent', command, signals);
+      } else {
+        // Same command gtag() would queue
+        target.dataLayer = target.dataLayer || [];
+        const dataLayer = target.dataLayer;
+        const gtag = (...args: unknown[]) => {
+          dataLayer.push(args);
+        };
+        gtag('consent', command, signals);
+      }
+      this.log(`Google consent ${command}`, signals);
+    } catch (error) {
+      this.log('Failed to send Google consent signals:', error);
+    }
+  }
+
+  private retryConnect(attempt: number, connect: () => void): void {
+    if (attempt >= CMP_POLL_ATTEMPTS) {
+      this.log('CMP not found, consent stays with Grain');
+      return;
+    }
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      if (!this.isDestroyed) connect();
+    }, CMP_POLL_INTERVAL);
+  }
+
+  private addWindowListener(eventName: string, listener: EventListener): void {
+    window.addEventListener(eventName, listener);
+    this.windowListeners.push([eventName, listener]);
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[Consent Bridge]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the bridge and stop listening to the CMP
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    if (this.consentListener) {
+      this.tracker.offConsentChange(this.consentListener);
+      this.consentListener = null;
+    }
+
+    for (const [eventName, listener] of this.windowListeners) {
+      window.removeEventListener(eventName, listener);
+    }
+    this.windowListeners = [];
+
+    const tcfapi = typeof window !== 'undefined' ? (window as unknown as { __tcfapi?: TcfApi }).__tcfapi : undefined;
+    if (this.tcfListenerId !== null && typeof tcfapi === 'function') {
+      try {
+        tcfapi('removeEventListener', 2, () => {}, this.tcfListenerId);
+      } catch {
+        // CMP already gone
+      }
+      this.tcfListenerId = null;
+    }
+  }
+}
+
+function sameCategories(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every(category => b.includes(category));
+}
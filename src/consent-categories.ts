@@ -0,0 +1,267 @@
+/**
+ * Consent Category Registry for Grain Analytics
+ * One list of consent categories and UI copy drives ConsentBanner and
+ * PrivacyPreferenceCenter, so they can be extended and translated without forking
+ *
+ * - Categories have an ID, optional vendor list and per-locale name/description
+ * - Built-in categories: necessary, analytics, functional (on by default),
+ *   marketing and replay (opt in with consentCategories: [..., 'marketing'])
+ * - Locale bundles hold the UI copy, writing direction and category strings
+ *   for one locale; missing strings fall back to the language, then English
+ */
+
+import { DEFAULT_CONSENT_CATEGORIES } from './consent';
+
+export interface ConsentCategoryStrings {
+  name: string;
+  description: string;
+}
+
+export interface ConsentVendor {
+  name: string;
+  purpose?: string;
+  privacyPolicyUrl?: string;
+}
+
+export interface ConsentCategoryDefinition {
+  id: string; // Category ID passed to grantConsent/hasConsent
+  required?: boolean; // Always granted, can't be turned off (default: false)
+  vendors?: ConsentVendor[];
+  strings: Record<string, ConsentCategoryStrings>; // Locale -> strings, 'en' is the fallback
+}
+
+export interface ConsentMessages {
+  bannerTitle: string;
+  bannerText: string;
+  acceptAll: string;
+  acceptAllLabel: string;
+  decline: string;
+  declineLabel: string;
+  managePreferences: string;
+  managePreferencesLabel: string;
+  privacyPolicy: string;
+  preferencesTitle: string;
+  required: string;
+  vendors: string;
+  cancel: string;
+  save: string;
+}
+
+export type TextDirection = 'ltr' | 'rtl';
+
+/**
+ * Translations for one locale
+ */
+export interface ConsentLocaleBundle {
+  direction?: TextDirection; // Writing direction (default: from the language)
+  textVersion?: string; // Version of this copy, recorded as proof of consent
+  messages?: Partial<ConsentMessages>;
+  categories?: Record<string, Partial<ConsentCategoryStrings>>; // Category ID -> strings
+}
+
+export interface LocalizedConsentCategory {
+  id: string;
+  name: string;
+  description: string;
+  required: boolean;
+  vendors: ConsentVendor[];
+}
+
+/**
+ * Copy for one locale, ready to render
+ */
+export interface LocalizedConsentUI {
+  locale: string;
+  direction: TextDirection;
+  textVersion?: string;
+  messages: ConsentMessages;
+  categories: LocalizedConsentCategory[];
+}
+
+// Bump when the built-in English copy changes
+export const DEFAULT_CONSENT_TEXT_VERSION = 'default-1';
+
+export const DEFAULT_CONSENT_MESSAGES: ConsentMessages = {
+  bannerTitle: 'Cookie Consent',
+  bannerText: 'We use cookies and similar technologies to improve your experience. By accepting, you consent to our use of analytics and functional cookies.',
+  acceptAll: 'Accept All',
+  acceptAllLabel: 'Accept cookies',
+  decline: 'Decline',
+  declineLabel: 'Decline cookies',
+  managePreferences: 'Manage Preferences',
+  managePreferencesLabel: 'Manage preferences',
+  privacyPolicy: 'Read our Privacy Policy',
+  preferencesTitle: 'Privacy Preferences',
+  required: '(Required)',
+  vendors: 'Vendors',
+  cancel: 'Cancel',
+  save: 'Save Preferences',
+};
+
+export const BUILT_IN_CONSENT_CATEGORIES: Record<string, ConsentCategoryDefinition> = {
+  necessary: {
+    id: 'necessary',
+    required: true,
+    strings: {
+      en: { name: 'Necessary', description: 'Essential for the website to function properly. Cannot be disabled.' },
+    },
+  },
+  analytics: {
+    id: 'analytics',
+    strings: {
+      en: { name: 'Analytics', description: 'Help us understand how visitors interact with our website.' },
+    },
+  },
+  functional: {
+    id: 'functional',
+    strings: {
+      en: { name: 'Functional', description: 'Enable enhanced functionality and personalization.' },
+    },
+  },
+  marketing: {
+    id: 'marketing',
+    strings: {
+      en: { name: 'Marketing', description: 'Show relevant ads and measure how they perform.' },
+    },
+  },
+  replay: {
+    id: 'replay',
+    strings: {
+      en: { name: 'Session Recording', description: 'Record visits so we can see how the website is used and fix problems.' },
+    },
+  },
+};
+
+// Languages written right to left
+const RTL_LANGUAGES = ['ar', 'dv', 'fa', 'he', 'ku', 'ps', 'sd', 'ug', 'ur', 'yi'];
+
+/**
+ * Detect the page locale from <html lang> or the browser
+ */
+export function detectConsentLocale(): string {
+  if (typeof document !== 'undefined' && document.documentElement?.lang) {
+    return document.documentElement.lang;
+  }
+  if (typeof navigator !== 'undefined' && navigator.language) {
+    return navigator.language;
+  }
+  return 'en';
+}
+
+/**
+ * Get the writing direction of a locale
+ */
+export function getTextDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.includes(locale.toLowerCase().split('-')[0]) ? 'rtl' : 'ltr';
+}
+
+export class ConsentCategoryRegistry {
+  private categories: ConsentCategoryDefinition[] = [];
+  private bundles: Record<string, ConsentLocaleBundle> = {};
+
+  constructor(
+    categories: Array<string | ConsentCategoryDefinition> = DEFAULT_CONSENT_CATEGORIES,
+    bundles: Record<string, ConsentLocaleBundle> = {}
+  ) {
+    for (const category of categories) {
+      const definition = typeof category === 'string' ? BUILT_IN_CONSENT_CATEGORIES[category] : category;
+      if (definition) {
+        this.register(definition);
+      }
+    }
+    for (const [locale, bundle] of Object.entries(bundles)) {
+      this.addLocale(locale, bundle);
+    }
+  }
+
+  /**
+   * Add a category, or replace the one with the same ID
+   */
+  register(category: ConsentCategoryDefinition): void {
+    const index = this.categories.findIndex(existing => existing.id === category.id);
+    if (index > -1) {
+      this.categories[index] = category;
+    } else {
+      this.categories.push(category);
+    }
+  }
+
+  /**
+   * Add translations for a locale, merged into any existing bundle
+   */
+  addLocale(locale: string, bundle: ConsentLocaleBundle): void {
+    const key = locale.toLowerCase();
+    const existing = this.bundles[key] || {};
+    this.bundles[key] = {
+      ...existing,
+      ...bundle,
+      messages: { ...existing.messages, ...bundle.messages },
+      categories: { ...existing.categories, ...bundle.categories },
+    };
+  }
+
+  /**
+   * Get registered categories in display order
+   */
+  getCategories(): ConsentCategoryDefinition[] {
+    return [...this.categories];
+  }
+
+  /**
+   * Get the IDs of all registered categories, i.e. what "accept all" grants
+   */
+  getCategoryIds(): string[] {
+    return this.categories.map(category => category.id);
+  }
+
+  /**
+   * Get the IDs of categories that can't be turned off
+   */
+  getRequiredCategoryIds(): string[] {
+    return this.categories.filter(category => category.required).map(category => category.id);
+  }
+
+  /**
+   * Resolve copy for a locale: exact locale, then language, then English
+   */
+  localize(locale: string = detectConsentLocale()): LocalizedConsentUI {
+    const exact = this.bundles[locale.toLowerCase()];
+    const language = this.bundles[locale.toLowerCase().split('-')[0]];
+    // Most specific first
+    const bundles = [exact, language].filter((bundle): bundle is ConsentLocaleBundle => !!bundle);
+    const languageCode = locale.split('-')[0];
+
+    const messages = { ...DEFAULT_CONSENT_MESSAGES };
+    for (const bundle of [...bundles].reverse()) {
+      Object.assign(messages, bundle.messages);
+    }
+
+    const categories = this.categories.map(category => {
+      const strings = {
+        ...category.strings.en,
+        ...category.strings[languageCode],
+        ...category.strings[locale],
+      };
+      for (const bundle of [...bundles].reverse()) {
+        Object.assign(strings, bundle.categories?.[category.id]);
+      }
+
+      return {
+        id: category.id,
+        name: strings.name ?? category.id,
+        description: strings.description ?? '',
+        required: !!category.required,
+        vendors: category.vendors || [],
+      };
+    });
+
+    return {
+      locale,
+      direction: bundles.find(bundle => bundle.direction)?.direction ?? getTextDirection(locale),
+      // Built-in copy has its own version; translated copy has the version its bundle declares
+      textVersion: bundles.length > 0 ? bundles.find(bundle => bundle.textVersion)?.textVersion : DEFAULT_CONSENT_TEXT_VERSION,
+      messages,
+      categories,
+    };
+  }
+}
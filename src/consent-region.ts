@@ -0,0 +1,80 @@
+/**
+ * Region-aware consent mode selection for Grain Analytics
+ * Picks GDPR_STRICT, GDPR_OPT_OUT or COOKIELESS per visitor, so one bundle
+ * can serve EU, US and APAC visitors
+ *
+ * The visitor's country comes from, in order:
+ * - country: a value the server already knows, e.g. a CDN geo header
+ * - resolver: a custom function
+ * - the browser timezone (getCountryCodeFromTimezone)
+ *
+ * The country is looked up in the country -> mode table; countries not in the
+ * table use consentMode. A remote config key can replace the result, so the
+ * mode can also be targeted with config rules.
+ */
+
+import type { ConsentMode } from './consent';
+import { getCountryCodeFromTimezone } from './countries';
+
+export type RegionResolver = () => string | null | undefined;
+
+export interface ConsentRegionConfig {
+  country?: string | null; // ISO 3166-1 alpha-2 code provided by the server (default: resolved in the browser)
+  resolver?: RegionResolver; // Resolves the visitor's country code (default: getCountryCodeFromTimezone)
+  modes?: Record<string, ConsentMode>; // Country code -> consent mode, merged over DEFAULT_REGION_CONSENT_MODES
+  configKey?: string; // Remote config key holding a consent mode that wins over the table (default: none)
+}
+
+// EU member states, the rest of the EEA, the UK and Switzerland
+export const GDPR_COUNTRY_CODES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+  'IS', 'LI', 'NO',
+  'GB', 'CH',
+];
+
+export const DEFAULT_REGION_CONSENT_MODES: Record<string, ConsentMode> = Object.fromEntries(
+  GDPR_COUNTRY_CODES.map(country => [country, 'GDPR_STRICT' as ConsentMode])
+);
+
+const CONSENT_MODES: ConsentMode[] = ['COOKIELESS', 'GDPR_STRICT', 'GDPR_OPT_OUT'];
+
+/**
+ * Check if a value (e.g. a remote config value) is a consent mode
+ */
+export function isConsentMode(value: unknown): value is ConsentMode {
+  return CONSENT_MODES.includes(value as ConsentMode);
+}
+
+/**
+ * Resolve the visitor's country code, or null when it can't be determined
+ */
+export function resolveConsentRegion(config: ConsentRegionConfig): string | null {
+  let country: string | null | undefined = config.country;
+
+  if (!country) {
+    try {
+      country = config.resolver ? config.resolver() : getCountryCodeFromTimezone();
+    } catch {
+      // Resolver failed - no region, consentMode applies
+      country = null;
+    }
+  }
+
+  if (!country || country === 'Unknown') return null;
+  return country.toUpperCase();
+}
+
+/**
+ * Pick the consent mode for a country
+ */
+export function resolveConsentMode(
+  country: string | null,
+  config: ConsentRegionConfig,
+  fallback: ConsentMode
+): ConsentMode {
+  if (!country) return fallback;
+
+  const modes = { ...DEFAULT_REGION_CONSENT_MODES, ...(config.modes || {}) };
+  return modes[country] ?? fallback;
+}
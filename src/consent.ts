@@ -6,20 +6,56 @@
  * - cookieless: Default mode, daily rotating IDs, no consent needed
  * - gdpr-strict: Requires explicit consent, falls back to cookieless
  * - gdpr-opt-out: Permanent IDs by default, cookieless on opt-out
+ *
+ * Browser privacy signals (Global Privacy Control, Do Not Track) are treated
+ * as an opt-out in the GDPR modes. A user who explicitly grants consent while
+ * a signal is present overrides it; the override is kept in the state.
  */
 
 export type ConsentMode = 'COOKIELESS' | 'GDPR_STRICT' | 'GDPR_OPT_OUT';
 
+export type PrivacySignal = 'gpc' | 'dnt';
+
+export interface PrivacySignalPolicy {
+  honorGpc?: boolean; // navigator.globalPrivacyControl (default: true)
+  honorDnt?: boolean; // navigator.doNotTrack (default: false)
+}
+
 export interface ConsentState {
   granted: boolean;
   categories: string[];
   timestamp: Date;
   version: string;
+  privacySignal?: PrivacySignal; // Browser signal this opt-out was decided by
+  overridesPrivacySignal?: boolean; // User granted consent while a signal was present
+  isDefault?: boolean; // Granted by GDPR_OPT_OUT mode rather than by the user
 }
 
 export const DEFAULT_CONSENT_CATEGORIES = ['necessary', 'analytics', 'functional'];
 export const CONSENT_VERSION = '1.0.0';
 
+/**
+ * Detect the browser privacy signal the policy honors, GPC taking precedence
+ */
+export function detectPrivacySignal(policy: PrivacySignalPolicy = {}): PrivacySignal | null {
+  if (typeof navigator === 'undefined') return null;
+
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean; msDoNotTrack?: string };
+  if ((policy.honorGpc ?? true) && nav.globalPrivacyControl === true) {
+    return 'gpc';
+  }
+
+  if (policy.honorDnt ?? false) {
+    const dnt = nav.doNotTrack ?? nav.msDoNotTrack ??
+      (typeof window !== 'undefined' ? (window as Window & { doNotTrack?: string }).doNotTrack : undefined);
+    if (dnt === '1' || dnt === 'yes') {
+      return 'dnt';
+    }
+  }
+
+  return null;
+}
+
 /**
  * Consent manager for handling user consent state
  * v2.0: Cookieless by default, privacy-first approach
@@ -29,11 +65,14 @@ export class ConsentManager {
   private consentMode: ConsentMode;
   private storageKey: string;
   private listeners: Array<(state: ConsentState) => void> = [];
+  private privacySignal: PrivacySignal | null;
 
-  constructor(tenantId: string, consentMode: ConsentMode = 'COOKIELESS') {
+  constructor(tenantId: string, consentMode: ConsentMode = 'COOKIELESS', privacySignals: PrivacySignalPolicy = {}) {
     this.consentMode = consentMode;
     this.storageKey = `grain_consent_${tenantId}`;
+    this.privacySignal = detectPrivacySignal(privacySignals);
     this.loadConsentState();
+    this.applyPrivacySignal();
   }
 
   /**
@@ -47,21 +86,18 @@ export class ConsentManager {
 
     try {
       const stored = localStorage.getItem(this.storageKey);
-      if (stored) {
-        const parsed = JSON.parse(stored);
+      const parsed = stored ? JSON.parse(stored) : null;
+      // An opt-out default only counts in opt-out mode, e.g. not after the visitor's region changed
+      if (parsed && !(parsed.isDefault && this.consentMode !== 'GDPR_OPT_OUT')) {
         this.consentState = {
           ...parsed,
           timestamp: new Date(parsed.timestamp),
         };
       } else if (this.consentMode === 'GDPR_OPT_OUT') {
         // Auto-grant consent for opt-out mode (user hasn't opted out yet)
-        this.consentState = {
-          granted: true,
-          categories: DEFAULT_CONSENT_CATEGORIES,
-          timestamp: new Date(),
-          version: CONSENT_VERSION,
-        };
-        this.saveConsentState();
+        this.grantDefaultConsent();
+      } else if (parsed) {
+        this.clearConsent();
       }
       // Note: cookieless and gdpr-strict modes without stored consent → no permanent tracking
     } catch (error) {
@@ -69,6 +105,54 @@ export class ConsentManager {
     }
   }
 
+  /**
+   * Grant the GDPR_OPT_OUT default, marked so it isn't mistaken for a user decision
+   */
+  private grantDefaultConsent(): void {
+    this.consentState = {
+      granted: true,
+      categories: DEFAULT_CONSENT_CATEGORIES,
+      timestamp: new Date(),
+      version: CONSENT_VERSION,
+      isDefault: true,
+    };
+    this.saveConsentState();
+  }
+
+  /**
+   * Opt out when a privacy signal is present, and undo signal opt-outs once it's gone
+   * Cookieless mode never persists IDs, so signals don't change its state.
+   */
+  private applyPrivacySignal(): void {
+    if (this.consentMode === 'COOKIELESS') return;
+
+    const state = this.consentState;
+
+    if (!this.privacySignal) {
+      if (!state?.privacySignal) return;
+      // The signal was turned off - back to the mode's default
+      if (this.consentMode === 'GDPR_OPT_OUT') {
+        this.grantDefaultConsent();
+      } else {
+        this.clearConsent();
+      }
+      return;
+    }
+
+    // Strict mode without a decision is already opted out - leave the choice to the user
+    if (!state && this.consentMode === 'GDPR_STRICT') return;
+    if (state && (!state.granted || state.overridesPrivacySignal)) return;
+
+    this.consentState = {
+      granted: false,
+      categories: [],
+      timestamp: new Date(),
+      version: CONSENT_VERSION,
+      privacySignal: this.privacySignal,
+    };
+    this.saveConsentState();
+  }
+
   /**
    * Save consent state to localStorage
    */
@@ -93,6 +177,7 @@ export class ConsentManager {
       categories: grantedCategories,
       timestamp: new Date(),
       version: CONSENT_VERSION,
+      ...(this.privacySignal && { overridesPrivacySignal: true }),
     };
 
     this.saveConsentState();
@@ -266,6 +351,36 @@ export class ConsentManager {
     }
   }
 
+  /**
+   * Get the browser privacy signal detected on this page load
+   */
+  getPrivacySignal(): PrivacySignal | null {
+    return this.privacySignal;
+  }
+
+  /**
+   * Check if the user is opted out by a privacy signal
+   */
+  isOptedOutBySignal(): boolean {
+    return !!this.consentState?.privacySignal && !this.consentState.granted;
+  }
+
+  /**
+   * Switch the consent mode, e.g. once the visitor's region is known
+   * User decisions are kept; only the mode's default consent changes.
+   */
+  setConsentMode(consentMode: ConsentMode): void {
+    if (consentMode === this.consentMode) return;
+
+    this.consentMode = consentMode;
+    if (!this.consentState || this.consentState.isDefault) {
+      this.consentState = null;
+      this.loadConsentState();
+    }
+    this.applyPrivacySignal();
+    this.notifyListeners();
+  }
+
   /**
    * Get current consent mode
    */
@@ -0,0 +1,302 @@
+/**
+ * Error Tracking Manager for Grain Analytics
+ * Captures uncaught JavaScript errors and unhandled promise rejections
+ *
+ * - Stack traces are normalized (cache-busting query strings removed, frames capped)
+ * - Repeated errors are reported once per session, identified by a fingerprint
+ * - Reporting is rate-limited so an error loop can't flood the event queue
+ *
+ * Errors are sent as `_grain_error` system events with the current page and session ID.
+ */
+
+import { hashString } from './text-utils';
+
+export interface ErrorTracker {
+  trackSystemEvent(eventName: string, properties: Record<string, unknown>): void;
+  getCurrentPage(): string | null;
+  getSessionId(): string;
+  log(...args: unknown[]): void;
+}
+
+export interface ErrorTrackingOptions {
+  /**
+   * Maximum errors reported per minute
+   * Default: 10
+   */
+  maxErrorsPerMinute?: number;
+
+  /**
+   * Maximum distinct errors reported per session
+   * Default: 100
+   */
+  maxErrorsPerSession?: number;
+
+  /**
+   * Maximum stack frames kept per error
+   * Default: 10
+   */
+  maxStackFrames?: number;
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+export interface NormalizedError {
+  type: 'error' | 'unhandledrejection';
+  name: string;
+  message: string;
+  stack?: string;
+  source?: string;
+  line?: number;
+  column?: number;
+  fingerprint: string;
+}
+
+interface RawError {
+  type: NormalizedError['type'];
+  name: string;
+  message: string;
+  rawStack?: string;
+  source?: string;
+  line?: number;
+  column?: number;
+}
+
+const FINGERPRINT_STORAGE_KEY = '_grain_error_fingerprints';
+const MAX_MESSAGE_LENGTH = 500;
+const RATE_LIMIT_WINDOW = 60000; // 1 minute
+
+/**
+ * Remove query strings and hashes from URLs inside a stack trace line
+ * Cache-busting parameters would otherwise split one error into many
+ */
+function stripUrlNoise(line: string): string {
+  return line.replace(/(https?:\/\/[^\s)?#]+)[?#][^\s):]*/g, '$1');
+}
+
+/**
+ * Normalize a stack trace into a stable, compact form
+ */
+export function normalizeStack(stack: string | undefined, maxFrames: number = 10): string | undefined {
+  if (!stack) return undefined;
+
+  const frames = stack
+    .split('\n')
+    .map(line => line.trim())
+    // Chrome: "at fn (url:1:2)", Firefox/Safari: "fn@url:1:2"
+    .filter(line => line.startsWith('at ') || /@.+:\d+/.test(line))
+    .map(line => stripUrlNoise(line.replace(/^at\s+/, '')))
+    .slice(0, maxFrames);
+
+  return frames.length > 0 ? frames.join('\n') : undefined;
+}
+
+/**
+ * Fingerprint an error so repeats can be recognized
+ * Numbers in the message are ignored (IDs, indexes, timings)
+ */
+export function fingerprintError(name: string, message: string, stack: string | undefined): string {
+  const normalizedMessage = message.replace(/\d+/g, '0');
+  const topFrame = stack ? stack.split('\n')[0] : '';
+  return hashString(`${name}|${normalizedMessage}|${topFrame}`).toString(16);
+}
+
+export class ErrorTrackingManager {
+  private tracker: ErrorTracker;
+  private options: Required<ErrorTrackingOptions>;
+  private isDestroyed = false;
+
+  private reportedFingerprints = new Set<string>();
+  private recentReports: number[] = [];
+
+  private errorHandler: ((event: ErrorEvent) => void) | null = null;
+  private rejectionHandler: ((event: PromiseRejectionEvent) => void) | null = null;
+
+  constructor(tracker: ErrorTracker, options: ErrorTrackingOptions = {}) {
+    this.tracker = tracker;
+    this.options = {
+      maxErrorsPerMinute: options.maxErrorsPerMinute ?? 10,
+      maxErrorsPerSession: options.maxErrorsPerSession ?? 100,
+      maxStackFrames: options.maxStackFrames ?? 10,
+      debug: options.debug ?? false,
+    };
+
+    if (typeof window !== 'undefined') {
+      this.loadFingerprints();
+      this.setupListeners();
+    }
+  }
+
+  /**
+   * Restore fingerprints reported earlier in this browser session
+   * Keeps one error that fires on every page load from being reported on each navigation
+   */
+  private loadFingerprints(): void {
+    try {
+      const stored = sessionStorage.getItem(FINGERPRINT_STORAGE_KEY);
+      if (stored) {
+        this.reportedFingerprints = new Set(JSON.parse(stored));
+      }
+    } catch {
+      // sessionStorage unavailable - dedupe within this page only
+    }
+  }
+
+  private saveFingerprints(): void {
+    try {
+      sessionStorage.setItem(FINGERPRINT_STORAGE_KEY, JSON.stringify([...this.reportedFingerprints]));
+    } catch {
+      // Silent failure - dedupe within this page only
+    }
+  }
+
+  /**
+   * Listen for uncaught errors and unhandled rejections
+   */
+  private setupListeners(): void {
+    this.errorHandler = (event: ErrorEvent) => {
+      if (this.isDestroyed) return;
+      const error = event.error instanceof Error ? event.error : null;
+
+      this.report({
+        type: 'error',
+        name: error?.name || 'Error',
+        message: event.message || error?.message || 'Unknown error',
+        rawStack: error?.stack,
+        source: event.filename || undefined,
+        line: event.lineno || undefined,
+        column: event.colno || undefined,
+      });
+    };
+
+    this.rejectionHandler = (event: PromiseRejectionEvent) => {
+      if (this.isDestroyed) return;
+      const reason = event.reason;
+
+      this.report({
+        type: 'unhandledrejection',
+        name: reason instanceof Error ? reason.name : 'UnhandledRejection',
+        message: reason instanceof Error ? reason.message : this.describeReason(reason),
+        rawStack: reason instanceof Error ? reason.stack : undefined,
+      });
+    };
+
+    window.addEventListener('error', this.errorHandler);
+    window.addEventListener('unhandledrejection', this.rejectionHandler);
+  }
+
+  /**
+   * Normalize, deduplicate, rate-limit and send an error
+   */
+  private report(raw: RawError): void {
+    try {
+      const error = this.normalize(raw);
+
+      if (this.reportedFingerprints.has(error.fingerprint)) {
+        this.log('Duplicate error skipped:', error.message);
+        return;
+      }
+
+      if (!this.consumeRateLimit()) {
+        this.log('Error rate limit reached, skipping:', error.message);
+        return;
+      }
+
+      this.reportedFingerprints.add(error.fingerprint);
+      this.saveFingerprints();
+
+      this.tracker.trackSystemEvent('_grain_error', {
+        error_type: error.type,
+        error_name: error.name,
+        error_message: error.message,
+        error_stack: error.stack,
+        error_source: error.source,
+        error_line: error.line,
+        error_column: error.column,
+        error_fingerprint: error.fingerprint,
+        page: this.tracker.getCurrentPage() || window.location.pathname,
+        session_id: this.tracker.getSessionId(),
+        timestamp: Date.now(),
+      });
+
+      this.log('Reported error:', error.message);
+    } catch {
+      // Silent failure - error tracking must never throw from an error handler
+    }
+  }
+
+  private normalize(raw: RawError): NormalizedError {
+    const message = raw.message.substring(0, MAX_MESSAGE_LENGTH);
+    const stack = normalizeStack(raw.rawStack, this.options.maxStackFrames);
+
+    return {
+      type: raw.type,
+      name: raw.name,
+      message,
+      stack,
+      source: raw.source ? stripUrlNoise(raw.source) : undefined,
+      line: raw.line,
+      column: raw.column,
+      fingerprint: fingerprintError(raw.name, message, stack),
+    };
+  }
+
+  /**
+   * Check per-minute and per-session limits and record the report
+   */
+  private consumeRateLimit(): boolean {
+    if (this.reportedFingerprints.size >= this.options.maxErrorsPerSession) {
+      return false;
+    }
+
+    const now = Date.now();
+    this.recentReports = this.recentReports.filter(time => now - time < RATE_LIMIT_WINDOW);
+    if (this.recentReports.length >= this.options.maxErrorsPerMinute) {
+      return false;
+    }
+
+    this.recentReports.push(now);
+    return true;
+  }
+
+  private describeReason(reason: unknown): string {
+    if (typeof reason === 'string') return reason;
+    try {
+      return JSON.stringify(reason) ?? String(reason);
+    } catch {
+      return String(reason);
+    }
+  }
+
+  /**
+   * Log debug message
+   */
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      this.tracker.log('[Error Tracking]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the error tracking manager
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+
+    if (typeof window !== 'undefined') {
+      if (this.errorHandler) {
+        window.removeEventListener('error', this.errorHandler);
+        this.errorHandler = null;
+      }
+      if (this.rejectionHandler) {
+        window.removeEventListener('unhandledrejection', this.rejectionHandler);
+        this.rejectionHandler = null;
+      }
+    }
+
+    this.reportedFingerprints.clear();
+    this.recentReports = [];
+  }
+}
@@ -0,0 +1,581 @@
+/**
+ * Event Outbox for Grain Analytics
+ * Persists queued events until the server acknowledges them
+ *
+ * Storage backends:
+ * - IndexedDB: preferred, survives tab crashes and has a large quota
+ * - localStorage: fallback when IndexedDB is unavailable
+ *
+ * Events that fail delivery stay on disk and are replayed on the next page
+ * load, or as soon as the browser reports it is back online.
+ *
+ * The outbox is shared by every tab of the site, so each record carries the
+ * tab that owns it and a lease the owner keeps renewing. A tab only replays
+ * its own records and records whose lease has run out, which keeps two open
+ * tabs from delivering the same events twice.
+ *
+ * Delivery is at-least-once: an unload flush can reach the server while the
+ * removal from disk never completes, and the event is then sent again on the
+ * next page load. Every persisted event carries its record ID as `insertId`,
+ * which stays the same across replays - the server keeps the first event
+ * per insertId and drops the rest.
+ *
+ * Records remember the consent category that allowed persisting them, so
+ * revoking that category purges them from disk.
+ */
+
+import type { EventPayload } from './index';
+
+export interface OutboxRecord {
+  id: string;
+  event: EventPayload;
+  queuedAt: number;
+  owner?: string; // Tab that delivers the event
+  leaseUntil?: number; // Other tabs leave the record alone until then
+  category?: string; // Consent category the event was persisted under (default: analytics)
+}
+
+export interface OutboxStorage {
+  load(): Promise<OutboxRecord[]>;
+  put(records: OutboxRecord[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface EventOutboxConfig {
+  tenantId: string;
+  maxEvents: number; // Oldest events are dropped beyond this limit
+  maxAge?: number; // Records older than this are discarded on restore (ms)
+  leaseDuration?: number; // How long records stay claimed without a renewal (ms)
+  ownerId?: string; // Owner of new records (default: ID of the current tab)
+  category?: string; // Consent category that allows persisting events (default: analytics)
+  debug?: boolean;
+}
+
+const DEFAULT_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+const DEFAULT_LEASE_DURATION = 30000; // 30 seconds
+const DEFAULT_CATEGORY = 'analytics';
+
+/**
+ * Generate a record ID
+ */
+function generateRecordId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Get the ID of the current tab
+ * Kept in sessionStorage, so reloads and navigations in the same tab keep it
+ */
+function getTabId(tenantId: string): string {
+  const key = `grain_outbox_tab_${tenantId}`;
+  try {
+    let tabId = sessionStorage.getItem(key);
+    if (!tabId) {
+      tabId = generateRecordId();
+      sessionStorage.setItem(key, tabId);
+    }
+    return tabId;
+  } catch {
+    return generateRecordId();
+  }
+}
+
+/**
+ * Run a read-modify-write of the outbox while no other tab does
+ * Uses the Web Locks API where available, otherwise runs unguarded
+ */
+async function withOutboxLock<T>(tenantId: string, fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    return fn();
+  }
+
+  let result!: T;
+  await navigator.locks.request(`grain_outbox_${tenantId}`, async () => {
+    result = await fn();
+  });
+  return result;
+}
+
+/**
+ * IndexedDB-backed outbox storage
+ */
+export class IndexedDBOutboxStorage implements OutboxStorage {
+  private static readonly STORE_NAME = 'events';
+  private databaseName: string;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(tenantId: string) {
+    this.databaseName = `grain_outbox_${tenantId}`;
+  }
+
+  /**
+   * Check if IndexedDB is available in this environment
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Open (and lazily create) the outbox database
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(IndexedDBOutboxStorage.STORE_NAME)) {
+            db.createObjectStore(IndexedDBOutboxStorage.STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry if opening failed
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Run a write transaction and resolve when it completes
+   */
+  private async write(fn: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBOutboxStorage.STORE_NAME, 'readwrite');
+      fn(transaction.objectStore(IndexedDBOutboxStorage.STORE_NAME));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async load(): Promise<OutboxRecord[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IndexedDBOutboxStorage.STORE_NAME, 'readonly');
+      const request = transaction.objectStore(IndexedDBOutboxStorage.STORE_NAME).getAll();
+      request.onsuccess = () => {
+        const records = (request.result || []) as OutboxRecord[];
+        resolve(records.sort((a, b) => a.queuedAt - b.queuedAt));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  put(records: OutboxRecord[]): Promise<void> {
+    return this.write((store) => {
+      for (const record of records) {
+        store.put(record);
+      }
+    });
+  }
+
+  remove(ids: string[]): Promise<void> {
+    return this.write((store) => {
+      for (const id of ids) {
+        store.delete(id);
+      }
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.write((store) => {
+      store.clear();
+    });
+  }
+}
+
+/**
+ * localStorage-backed outbox storage (fallback)
+ */
+export class LocalStorageOutboxStorage implements OutboxStorage {
+  private storageKey: string;
+
+  constructor(tenantId: string) {
+    this.storageKey = `grain_outbox_${tenantId}`;
+  }
+
+  /**
+   * Check if localStorage is available in this environment
+   */
+  static isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch {
+      return false;
+    }
+  }
+
+  private read(): OutboxRecord[] {
+    const stored = localStorage.getItem(this.storageKey);
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private save(records: OutboxRecord[]): void {
+    if (records.length === 0) {
+      localStorage.removeItem(this.storageKey);
+    } else {
+      localStorage.setItem(this.storageKey, JSON.stringify(records));
+    }
+  }
+
+  async load(): Promise<OutboxRecord[]> {
+    return this.read().sort((a, b) => a.queuedAt - b.queuedAt);
+  }
+
+  async put(records: OutboxRecord[]): Promise<void> {
+    const incoming = new Set(records.map(r => r.id));
+    const existing = this.read().filter(r => !incoming.has(r.id));
+    this.save([...existing, ...records]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    this.save(this.read().filter(r => !removed.has(r.id)));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.storageKey);
+  }
+}
+
+/**
+ * Pick the best available storage backend
+ */
+export function createOutboxStorage(tenantId: string): OutboxStorage | null {
+  if (IndexedDBOutboxStorage.isSupported()) {
+    return new IndexedDBOutboxStorage(tenantId);
+  }
+  if (LocalStorageOutboxStorage.isSupported()) {
+    return new LocalStorageOutboxStorage(tenantId);
+  }
+  return null;
+}
+
+/**
+ * Persistent outbox that mirrors the in-memory event queue on disk
+ *
+ * Lifecycle of an event:
+ * 1. add()         - written to disk when it enters the queue
+ * 2. acknowledge() - removed once the server accepted it
+ * 3. park()        - delivery failed, kept on disk for a later replay
+ */
+export class EventOutbox {
+  private config: EventOutboxConfig;
+  private storage: OutboxStorage;
+  private ownerId: string;
+  private leaseDuration: number;
+  private category: string;
+  private recordIds = new Map<EventPayload, string>();
+  private order: string[] = [];
+  private parked: EventPayload[] = [];
+  private writeChain: Promise<void> = Promise.resolve();
+  private leaseTimer: ReturnType<typeof setInterval> | null = null;
+  private isDestroyed = false;
+
+  constructor(config: EventOutboxConfig, storage: OutboxStorage) {
+    this.config = config;
+    this.storage = storage;
+    this.ownerId = config.ownerId ?? getTabId(config.tenantId);
+    this.leaseDuration = config.leaseDuration ?? DEFAULT_LEASE_DURATION;
+    this.category = config.category ?? DEFAULT_CATEGORY;
+  }
+
+  /**
+   * Load events left over from a previous page load
+   * Returns only events that are not already tracked by this outbox and that
+   * no other live tab owns - restored records are claimed for this tab
+   */
+  async restore(): Promise<EventPayload[]> {
+    await this.writeChain;
+
+    let claimed: OutboxRecord[];
+    try {
+      claimed = await withOutboxLock(this.config.tenantId, () => this.claimRecords());
+    } catch (error) {
+      this.log('Failed to load outbox:', error);
+      return [];
+    }
+
+    const restored: EventPayload[] = [];
+    for (const record of claimed) {
+      // Records written before events carried an insertId
+      if (!record.event.insertId) {
+        record.event.insertId = record.id;
+      }
+      this.recordIds.set(record.event, record.id);
+      this.order.push(record.id);
+      restored.push(record.event);
+    }
+
+    this.trim();
+    this.scheduleLeaseRenewal();
+    this.log(`Restored ${restored.length} events from outbox`);
+    return restored.filter(event => this.recordIds.has(event));
+  }
+
+  /**
+   * Take over unowned records on disk and discard expired ones
+   */
+  private async claimRecords(): Promise<OutboxRecord[]> {
+    const records = await this.storage.load();
+    const known = new Set(this.order);
+    const now = Date.now();
+    const cutoff = now - (this.config.maxAge ?? DEFAULT_MAX_AGE);
+    const expired: string[] = [];
+    const claimed: OutboxRecord[] = [];
+    let leased = 0;
+
+    for (const record of records) {
+      if (known.has(record.id)) continue;
+      if (record.queuedAt < cutoff) {
+        expired.push(record.id);
+        continue;
+      }
+      if (record.owner && record.owner !== this.ownerId && (record.leaseUntil ?? 0) > now) {
+        leased++;
+        continue;
+      }
+      claimed.push({ ...record, owner: this.ownerId, leaseUntil: now + this.leaseDuration });
+    }
+
+    if (expired.length > 0) {
+      await this.storage.remove(expired);
+      this.log(`Discarded ${expired.length} expired events from outbox`);
+    }
+    if (claimed.length > 0) {
+      await this.storage.put(claimed);
+    }
+    if (leased > 0) {
+      this.log(`Left ${leased} events to the tab that owns them`);
+    }
+    return claimed;
+  }
+
+  /**
+   * Persist events that just entered the queue
+   */
+  add(events: EventPayload[]): void {
+    const records: OutboxRecord[] = [];
+    const now = Date.now();
+
+    for (const event of events) {
+      if (this.recordIds.has(event)) continue;
+      const id = event.insertId ?? generateRecordId();
+      event.insertId = id;
+      this.recordIds.set(event, id);
+      this.order.push(id);
+      records.push({
+        id,
+        event,
+        queuedAt: now,
+        owner: this.ownerId,
+        leaseUntil: now + this.leaseDuration,
+        category: this.category,
+      });
+    }
+
+    if (records.length === 0) return;
+
+    this.enqueueWrite(() => this.storage.put(records));
+    this.trim();
+    this.scheduleLeaseRenewal();
+  }
+
+  /**
+   * Remove events the server has acknowledged
+   */
+  acknowledge(events: EventPayload[]): void {
+    const ids = this.forget(events);
+    if (ids.length === 0) return;
+    this.enqueueWrite(() => this.storage.remove(ids));
+  }
+
+  /**
+   * Keep events that failed delivery on disk for a later replay
+   */
+  park(events: EventPayload[]): void {
+    let count = 0;
+    for (const event of events) {
+      if (this.recordIds.has(event) && !this.parked.includes(event)) {
+        this.parked.push(event);
+        count++;
+      }
+    }
+    if (count > 0) {
+      this.log(`Parked ${count} undelivered events in outbox`);
+    }
+  }
+
+  /**
+   * Take parked events so they can be re-queued for delivery
+   */
+  takeParked(): EventPayload[] {
+    const parked = this.parked.filter(event => this.recordIds.has(event));
+    this.parked = [];
+    return parked;
+  }
+
+  /**
+   * Check if there are parked events awaiting replay
+   */
+  hasParked(): boolean {
+    return this.parked.length > 0;
+  }
+
+  /**
+   * Check if an event is already persisted
+   */
+  has(event: EventPayload): boolean {
+    return this.recordIds.has(event);
+  }
+
+  /**
+   * Remove all persisted events (e.g. when consent is revoked)
+   */
+  clear(): Promise<void> {
+    this.recordIds.clear();
+    this.order = [];
+    this.parked = [];
+    return this.enqueueWrite(() => this.storage.clear());
+  }
+
+  /**
+   * Remove persisted events whose consent category was revoked
+   * Covers records of every tab, since none of them may be sent anymore.
+   * Returns the events this outbox tracked, so they can leave the queue too.
+   */
+  purge(categories: string[]): EventPayload[] {
+    const revoked = new Set(categories);
+    const purged = revoked.has(this.category) ? [...this.recordIds.keys()] : [];
+    if (purged.length > 0) {
+      this.recordIds.clear();
+      this.order = [];
+      this.parked = [];
+    }
+
+    this.enqueueWrite(() => withOutboxLock(this.config.tenantId, async () => {
+      const ids = (await this.storage.load())
+        .filter(record => revoked.has(record.category ?? DEFAULT_CATEGORY))
+        .map(record => record.id);
+      if (ids.length > 0) {
+        await this.storage.remove(ids);
+        this.log(`Purged ${ids.length} events after consent for ${categories.join(', ')} was revoked`);
+      }
+    }));
+    return purged;
+  }
+
+  /**
+   * Wait for all pending disk writes to settle
+   */
+  whenIdle(): Promise<void> {
+    return this.writeChain;
+  }
+
+  /**
+   * Stop renewing leases - persisted events stay on disk and are picked up
+   * by another tab once the lease runs out
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+  }
+
+  /**
+   * Renew the lease on this tab's records while it has any
+   */
+  private scheduleLeaseRenewal(): void {
+    if (this.leaseTimer || this.isDestroyed || this.order.length === 0) return;
+
+    this.leaseTimer = setInterval(() => {
+      if (this.order.length === 0) {
+        clearInterval(this.leaseTimer!);
+        this.leaseTimer = null;
+        return;
+      }
+      this.enqueueWrite(() => this.renewLeases());
+    }, this.leaseDuration / 3);
+  }
+
+  private async renewLeases(): Promise<void> {
+    const tracked = new Set(this.order);
+    const leaseUntil = Date.now() + this.leaseDuration;
+    const records = (await this.storage.load())
+      .filter(record => tracked.has(record.id) && record.owner === this.ownerId)
+      .map(record => ({ ...record, leaseUntil }));
+
+    if (records.length > 0) {
+      await this.storage.put(records);
+    }
+  }
+
+  /**
+   * Drop the oldest events when the outbox grows past its limit
+   */
+  private trim(): void {
+    const overflow = this.order.length - this.config.maxEvents;
+    if (overflow <= 0) return;
+
+    const dropped = new Set(this.order.slice(0, overflow));
+    this.order = this.order.slice(overflow);
+    for (const [event, id] of this.recordIds) {
+      if (dropped.has(id)) {
+        this.recordIds.delete(event);
+      }
+    }
+    this.parked = this.parked.filter(event => this.recordIds.has(event));
+
+    this.enqueueWrite(() => this.storage.remove([...dropped]));
+    this.log(`Outbox limit reached, dropped ${overflow} oldest events`);
+  }
+
+  /**
+   * Stop tracking events and return their record IDs
+   */
+  private forget(events: EventPayload[]): string[] {
+    const ids: string[] = [];
+    for (const event of events) {
+      const id = this.recordIds.get(event);
+      if (id) {
+        ids.push(id);
+        this.recordIds.delete(event);
+      }
+    }
+    if (ids.length > 0) {
+      const removed = new Set(ids);
+      this.order = this.order.filter(id => !removed.has(id));
+      this.parked = this.parked.filter(event => this.recordIds.has(event));
+    }
+    return ids;
+  }
+
+  /**
+   * Serialize disk writes so removals never race ahead of inserts
+   */
+  private enqueueWrite(operation: () => Promise<void>): Promise<void> {
+    this.writeChain = this.writeChain
+      .then(operation)
+      .catch((error) => {
+        this.log('Outbox write failed:', error);
+      });
+    return this.writeChain;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.config.debug) {
+      console.log('[Event Outbox]', ...args);
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Event Schema Registry for Grain Analytics
+ * Declares the event catalog at compile time and validates it at runtime
+ *
+ * Compile time: pass your catalog as a type parameter
+ *   type AppEvents = { signup_completed: { plan: 'free' | 'pro' } };
+ *   const grain = createGrainAnalytics<AppEvents>({ ... });
+ *   grain.track('signup_completed', { plan: 'pro' }); // checked by TypeScript
+ *
+ * Runtime: pass `eventSchemas` in config to warn on or reject events that
+ * don't match, e.g. events sent from untyped JavaScript or user input.
+ */
+
+import type { GrainEvent, SendEventOptions } from './index';
+
+/**
+ * Map of event names to their property types
+ */
+export type EventCatalog = Record<string, Record<string, unknown>>;
+
+/**
+ * Catalog used when no type parameter is given - any event name and properties
+ */
+export type UntypedEventCatalog = Record<string, Record<string, unknown>>;
+
+/**
+ * Event names declared in a catalog
+ * A catalog without keys (e.g. `object`) accepts any event name
+ */
+export type EventName<TEvents> = [keyof TEvents] extends [never] ? string : keyof TEvents & string;
+
+/**
+ * Properties declared for an event in a catalog
+ */
+export type EventProperties<TEvents, K extends string> = K extends keyof TEvents
+  ? TEvents[K]
+  : Record<string, unknown>;
+
+/**
+ * Arguments after the event name - properties are optional only if every
+ * declared property is optional
+ */
+export type TrackArguments<TProperties> = {} extends TProperties
+  ? [properties?: TProperties, options?: SendEventOptions]
+  : [properties: TProperties, options?: SendEventOptions];
+
+/**
+ * Object form of track() for a catalog event
+ */
+export type CatalogEvent<TEvents, K extends EventName<TEvents>> = Omit<GrainEvent, 'eventName' | 'properties'> & {
+  eventName: K;
+  properties?: EventProperties<TEvents, K>;
+};
+
+export type SchemaPropertyType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'any';
+
+export interface PropertySchema {
+  type: SchemaPropertyType | SchemaPropertyType[];
+  required?: boolean; // Default: false
+  enum?: readonly unknown[]; // Allowed values
+}
+
+export interface EventSchema {
+  properties?: Record<string, SchemaPropertyType | PropertySchema>;
+  additionalProperties?: boolean; // Allow undeclared properties (default: true)
+}
+
+/**
+ * Runtime schemas for a catalog - one entry per declared event
+ */
+export type EventSchemas<TEvents = UntypedEventCatalog> = {
+  [K in EventName<TEvents>]: EventSchema;
+};
+
+export type SchemaValidationMode = 'off' | 'warn' | 'reject';
+
+function getValueType(value: unknown): SchemaPropertyType {
+  if (Array.isArray(value)) return 'array';
+  if (value === null) return 'object';
+  return typeof value as SchemaPropertyType;
+}
+
+/**
+ * Validate an event against the registry
+ * Returns a list of problems (empty when the event matches)
+ */
+export function validateEvent(
+  schemas: Record<string, EventSchema>,
+  eventName: string,
+  properties: Record<string, unknown> = {}
+): string[] {
+  const schema = schemas[eventName];
+  if (!schema) {
+    return [`Unknown event "${eventName}"`];
+  }
+
+  return validateProperties(schema, properties);
+}
+
+/**
+ * Validate a property object against a schema
+ * Returns a list of problems (empty when the properties match)
+ */
+export function validateProperties(
+  schema: EventSchema,
+  properties: Record<string, unknown> = {}
+): string[] {
+  const issues: string[] = [];
+  const declared = schema.properties || {};
+
+  for (const [key, definition] of Object.entries(declared)) {
+    const propertySchema: PropertySchema = typeof definition === 'string' ? { type: definition } : definition;
+    const value = properties[key];
+
+    if (value === undefined) {
+      if (propertySchema.required) {
+        issues.push(`Missing required property "${key}"`);
+      }
+      continue;
+    }
+
+    const allowedTypes = Array.isArray(propertySchema.type) ? propertySchema.type : [propertySchema.type];
+    const valueType = getValueType(value);
+    if (!allowedTypes.includes('any') && !allowedTypes.includes(valueType)) {
+      issues.push(`Property "${key}" should be ${allowedTypes.join(' | ')}, got ${valueType}`);
+      continue;
+    }
+
+    if (propertySchema.enum && !propertySchema.enum.includes(value)) {
+      issues.push(`Property "${key}" has unexpected value ${JSON.stringify(value)}`);
+    }
+  }
+
+  if (schema.additionalProperties === false) {
+    for (const key of Object.keys(properties)) {
+      if (!(key in declared)) {
+        issues.push(`Undeclared property "${key}"`);
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,366 @@
+/**
+ * Frustration Detector for Grain Analytics
+ * Interprets heatmap clicks and emits frustration signals as system events
+ *
+ * Signals:
+ * 1. Rage click: rapid repeated clicks on the same element (_grain_rage_click)
+ * 2. Dead click: click on a non-interactive element that causes no navigation,
+ *    DOM change or network activity (_grain_dead_click)
+ * 3. Error click: click followed closely by a JavaScript error (_grain_error_click)
+ */
+
+import type { HeatmapClickData } from './types/heatmap-tracking';
+
+export interface FrustrationTracker {
+  trackSystemEvent(eventName: string, properties: Record<string, unknown>): void | Promise<void>;
+  log(...args: unknown[]): void;
+}
+
+export interface FrustrationDetectionOptions {
+  /**
+   * Clicks on the same element needed to count as a rage click
+   * Default: 3
+   */
+  rageClickThreshold?: number;
+
+  /**
+   * Maximum time between consecutive clicks in a rage burst (ms)
+   * Default: 700
+   */
+  rageClickInterval?: number;
+
+  /**
+   * Maximum distance between clicks in a rage burst (px)
+   * Default: 40
+   */
+  rageClickRadius?: number;
+
+  /**
+   * How long to wait for a reaction before calling a click dead (ms)
+   * Default: 1000
+   */
+  deadClickTimeout?: number;
+
+  /**
+   * How long after a click a JavaScript error is attributed to it (ms)
+   * Default: 1000
+   */
+  errorClickWindow?: number;
+
+  /**
+   * Requests to these URL prefixes don't count as a reaction to a click
+   * (e.g. the SDK's own event uploads)
+   */
+  ignoredUrlPrefixes?: string[];
+
+  /**
+   * Enable debug logging
+   */
+  debug?: boolean;
+}
+
+interface RageBurst {
+  click: HeatmapClickData;
+  count: number;
+  lastX: number;
+  lastY: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface PendingDeadClick {
+  click: HeatmapClickData;
+  href: string;
+  reacted: boolean;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Elements that are expected to do something when clicked
+const INTERACTIVE_SELECTOR = [
+  'a[href]',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'label',
+  'summary',
+  'details',
+  'video',
+  'audio',
+  '[onclick]',
+  '[contenteditable=""]',
+  '[contenteditable="true"]',
+  '[tabindex]:not([tabindex="-1"])',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="checkbox"]',
+  '[role="radio"]',
+  '[role="switch"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="option"]',
+].join(',');
+
+export class FrustrationDetector {
+  private tracker: FrustrationTracker;
+  private options: Required<FrustrationDetectionOptions>;
+  private isDestroyed = false;
+
+  private rageBurst: RageBurst | null = null;
+  private pendingDeadClicks: PendingDeadClick[] = [];
+  private lastClick: HeatmapClickData | null = null;
+
+  private mutationObserver: MutationObserver | null = null;
+  private resourceObserver: PerformanceObserver | null = null;
+  private errorHandler: ((event: ErrorEvent) => void) | null = null;
+  private rejectionHandler: ((event: PromiseRejectionEvent) => void) | null = null;
+
+  constructor(tracker: FrustrationTracker, options: FrustrationDetectionOptions = {}) {
+    this.tracker = tracker;
+    this.options = {
+      rageClickThreshold: options.rageClickThreshold ?? 3,
+      rageClickInterval: options.rageClickInterval ?? 700,
+      rageClickRadius: options.rageClickRadius ?? 40,
+      deadClickTimeout: options.deadClickTimeout ?? 1000,
+      errorClickWindow: options.errorClickWindow ?? 1000,
+      ignoredUrlPrefixes: options.ignoredUrlPrefixes ?? [],
+      debug: options.debug ?? false,
+    };
+
+    if (typeof window !== 'undefined') {
+      this.setupErrorListeners();
+    }
+  }
+
+  /**
+   * Record a click captured by the heatmap manager
+   */
+  recordClick(element: HTMLElement, click: HeatmapClickData): void {
+    if (this.isDestroyed) return;
+
+    this.lastClick = click;
+    this.detectRageClick(click);
+
+    if (!this.isInteractive(element)) {
+      this.watchForDeadClick(click);
+    }
+  }
+
+  /**
+   * Group rapid clicks on the same element into a burst
+   * The burst is reported once it ends, with the final click count
+   */
+  private detectRageClick(click: HeatmapClickData): void {
+    const burst = this.rageBurst;
+
+    if (burst && this.continuesBurst(burst, click)) {
+      clearTimeout(burst.timer);
+      burst.count++;
+      burst.lastX = click.viewportX;
+      burst.lastY = click.viewportY;
+      burst.timer = setTimeout(() => this.endRageBurst(), this.options.rageClickInterval);
+      return;
+    }
+
+    if (burst) {
+      clearTimeout(burst.timer);
+      this.endRageBurst();
+    }
+
+    this.rageBurst = {
+      click,
+      count: 1,
+      lastX: click.viewportX,
+      lastY: click.viewportY,
+      timer: setTimeout(() => this.endRageBurst(), this.options.rageClickInterval),
+    };
+  }
+
+  private continuesBurst(burst: RageBurst, click: HeatmapClickData): boolean {
+    const sameElement = burst.click.xpath === click.xpath;
+    const distance = Math.hypot(click.viewportX - burst.lastX, click.viewportY - burst.lastY);
+    return sameElement && distance <= this.options.rageClickRadius;
+  }
+
+  private endRageBurst(): void {
+    const burst = this.rageBurst;
+    this.rageBurst = null;
+    if (!burst || burst.count < this.options.rageClickThreshold) return;
+
+    this.log(`Rage click detected: ${burst.count} clicks on ${burst.click.selector}`);
+    this.emit('_grain_rage_click', burst.click, { click_count: burst.count });
+  }
+
+  /**
+   * Wait for any reaction to a click on a non-interactive element
+   */
+  private watchForDeadClick(click: HeatmapClickData): void {
+    this.startReactionObservers();
+
+    const pending: PendingDeadClick = {
+      click,
+      href: window.location.href,
+      reacted: false,
+      timer: setTimeout(() => this.resolveDeadClick(pending), this.options.deadClickTimeout),
+    };
+    this.pendingDeadClicks.push(pending);
+  }
+
+  private resolveDeadClick(pending: PendingDeadClick): void {
+    this.pendingDeadClicks = this.pendingDeadClicks.filter(p => p !== pending);
+    if (this.pendingDeadClicks.length === 0) {
+      this.stopReactionObservers();
+    }
+
+    if (this.isDestroyed) return;
+
+    const navigated = window.location.href !== pending.href;
+    if (pending.reacted || navigated) return;
+
+    this.log(`Dead click detected on ${pending.click.selector}`);
+    this.emit('_grain_dead_click', pending.click, {});
+  }
+
+  /**
+   * Observe DOM changes and network requests while dead-click checks are pending
+   */
+  private startReactionObservers(): void {
+    const markReacted = () => {
+      for (const pending of this.pendingDeadClicks) {
+        pending.reacted = true;
+      }
+    };
+
+    if (!this.mutationObserver && typeof MutationObserver !== 'undefined') {
+      this.mutationObserver = new MutationObserver(markReacted);
+      this.mutationObserver.observe(document.documentElement, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        characterData: true,
+      });
+    }
+
+    if (!this.resourceObserver && typeof PerformanceObserver !== 'undefined') {
+      try {
+        this.resourceObserver = new PerformanceObserver((list) => {
+          const hasRequest = list.getEntries().some(entry => !this.isIgnoredUrl(entry.name));
+          if (hasRequest) {
+            markReacted();
+          }
+        });
+        this.resourceObserver.observe({ type: 'resource' });
+      } catch {
+        // Resource timing not supported - rely on DOM changes and navigation
+        this.resourceObserver = null;
+      }
+    }
+  }
+
+  private stopReactionObservers(): void {
+    if (this.mutationObserver) {
+      this.mutationObserver.disconnect();
+      this.mutationObserver = null;
+    }
+    if (this.resourceObserver) {
+      this.resourceObserver.disconnect();
+      this.resourceObserver = null;
+    }
+  }
+
+  private isIgnoredUrl(url: string): boolean {
+    return this.options.ignoredUrlPrefixes.some(prefix => url.startsWith(prefix));
+  }
+
+  /**
+   * Attribute JavaScript errors to the click right before them
+   */
+  private setupErrorListeners(): void {
+    this.errorHandler = (event: ErrorEvent) => {
+      this.handleError(event.message || 'Unknown error');
+    };
+    this.rejectionHandler = (event: PromiseRejectionEvent) => {
+      const reason = event.reason;
+      this.handleError(reason instanceof Error ? reason.message : String(reason));
+    };
+
+    window.addEventListener('error', this.errorHandler);
+    window.addEventListener('unhandledrejection', this.rejectionHandler);
+  }
+
+  private handleError(message: string): void {
+    if (this.isDestroyed || !this.lastClick) return;
+
+    const click = this.lastClick;
+    if (Date.now() - click.timestamp > this.options.errorClickWindow) return;
+
+    // Report each click at most once
+    this.lastClick = null;
+
+    this.log(`Error click detected on ${click.selector}: ${message}`);
+    this.emit('_grain_error_click', click, { error_message: message.substring(0, 200) });
+  }
+
+  private isInteractive(element: HTMLElement): boolean {
+    try {
+      return element.closest(INTERACTIVE_SELECTOR) !== null;
+    } catch {
+      return true; // Unknown - don't report a dead click
+    }
+  }
+
+  private emit(eventName: string, click: HeatmapClickData, extra: Record<string, unknown>): void {
+    this.tracker.trackSystemEvent(eventName, {
+      page_url: click.pageUrl,
+      xpath: click.xpath,
+      selector: click.selector,
+      viewport_x: click.viewportX,
+      viewport_y: click.viewportY,
+      page_x: click.pageX,
+      page_y: click.pageY,
+      element_tag: click.elementTag,
+      element_text: click.elementText,
+      timestamp: click.timestamp,
+      device_type: click.deviceType,
+      ...extra,
+    });
+  }
+
+  /**
+   * Log debug message
+   */
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      this.tracker.log('[Frustration Detection]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the detector
+   */
+  destroy(): void {
+    // Report a rage burst that is still in progress
+    if (this.rageBurst) {
+      clearTimeout(this.rageBurst.timer);
+      this.endRageBurst();
+    }
+
+    this.isDestroyed = true;
+
+    for (const pending of this.pendingDeadClicks) {
+      clearTimeout(pending.timer);
+    }
+    this.pendingDeadClicks = [];
+    this.stopReactionObservers();
+
+    if (typeof window !== 'undefined') {
+      if (this.errorHandler) {
+        window.removeEventListener('error', this.errorHandler);
+        this.errorHandler = null;
+      }
+      if (this.rejectionHandler) {
+        window.removeEventListener('unhandledrejection', this.rejectionHandler);
+        this.rejectionHandler = null;
+      }
+    }
+  }
+}
@@ -10,8 +10,10 @@ import type {
   HeatmapScrollState,
 } from './types/heatmap-tracking';
 import { AttentionQualityManager } from './attention-quality';
+import { FrustrationDetector } from './frustration-detection';
 import type { ActivityDetector } from './activity';
-import { cleanElementText } from './text-utils';
+import { cleanElementText, maskSensitiveText } from './text-utils';
+import { decodeBooleanConfig } from './config-values';
 
 export interface SendEventOptions {
   flush?: boolean;
@@ -20,6 +22,7 @@ export interface SendEventOptions {
 export interface HeatmapTracker {
   trackSystemEvent(eventName: string, properties?: Record<string, unknown>, options?: SendEventOptions): void | Promise<void>;
   hasConsent(category: 'analytics' | 'marketing' | 'functional'): boolean;
+  isOptedOutByPrivacySignal(): boolean;
   getActivityDetector(): ActivityDetector;
   getConfigAsync(key: string): Promise<string | undefined>;
   getEffectiveUserId(): string;
@@ -30,6 +33,7 @@ const DEFAULT_OPTIONS: HeatmapTrackingOptions = {
   scrollDebounceDelay: 100,
   batchDelay: 2000,
   maxBatchSize: 20,
+  detectFrustration: false,
   debug: false,
 };
 
@@ -57,6 +61,9 @@ export class HeatmapTrackingManager {
   // Attention quality management
   private attentionQuality: AttentionQualityManager;
 
+  // Frustration signal detection
+  private frustrationDetector: FrustrationDetector | null = null;
+
   // Snapshot capture state
   private snapshotCaptured = false;
   private snapshotEnabled = false;
@@ -106,6 +113,15 @@ export class HeatmapTrackingManager {
     // Check remote config for snapshot capture
     await this.checkSnapshotConfig();
 
+    // Setup frustration signal detection (rage, dead and error clicks)
+    if (this.options.detectFrustration) {
+      const apiUrl = await this.getApiUrl();
+      this.frustrationDetector = new FrustrationDetector(this.tracker, {
+        ignoredUrlPrefixes: apiUrl ? [apiUrl] : [], // SDK uploads are not a reaction to a click
+        debug: this.options.debug,
+      });
+    }
+
     // Setup click tracking
     this.setupClickTracking();
 
@@ -187,7 +203,8 @@ export class HeatmapTrackingManager {
   private async checkSnapshotConfig(): Promise<void> {
     try {
       const enableSnapshot = await this.tracker.getConfigAsync('enableHeatmapSnapshot');
-      this.snapshotEnabled = enableSnapshot === 'true';
+      const decoded = decodeBooleanConfig(enableSnapshot);
+      this.snapshotEnabled = decoded.ok && decoded.value;
       this.log('Heatmap snapshot capture enabled:', this.snapshotEnabled);
     } catch (error) {
       this.log('Failed to check snapshot config, defaulting to disabled:', error);
@@ -201,6 +218,12 @@ export class HeatmapTrackingManager {
   private async captureSnapshot(): Promise<void> {
     if (this.snapshotCaptured || !this.snapshotEnabled) return;
 
+    // GPC/DNT opt-out - no DOM captures
+    if (this.tracker.isOptedOutByPrivacySignal()) {
+      this.log('Snapshot skipped: user opted out with a privacy signal');
+      return;
+    }
+
     // Check daily snapshot limits before capturing
     if (!this.canUploadSnapshot()) {
       this.log('Snapshot upload limit reached or URL already captured today');
@@ -218,10 +241,7 @@ export class HeatmapTrackingManager {
       // Capture full DOM snapshot with PII masking
       const snapshot = rrwebSnapshot.snapshot(document, {
         maskAllInputs: true,
-        maskTextFn: (text: string) => {
-          // Basic PII masking - mask anything that looks like email or sensitive data
-          return text.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '*****');
-        },
+        maskTextFn: maskSensitiveText,
       });
 
       this.snapshotCaptured = true;
@@ -661,6 +681,9 @@ export class HeatmapTrackingManager {
       deviceType: this.deviceType,
     };
 
+    // Interpret the click for frustration signals
+    this.frustrationDetector?.recordClick(element, clickData);
+
     // Check if this is a navigation link
     const isNavigationLink = element instanceof HTMLAnchorElement && element.href;
 
@@ -1012,6 +1035,12 @@ export class HeatmapTrackingManager {
     // Destroy attention quality manager
     this.attentionQuality.destroy();
 
+    // Destroy frustration detector
+    if (this.frustrationDetector) {
+      this.frustrationDetector.destroy();
+      this.frustrationDetector = null;
+    }
+
     // Flush any remaining events
     this.flushPendingEvents();
   }
@@ -3,12 +3,64 @@
  * A lightweight, dependency-free TypeScript SDK for sending analytics events to Grain's REST API
  */
 
-import { ConsentManager, ConsentState, ConsentMode } from './consent';
+import { ConsentManager, ConsentState, ConsentMode, CONSENT_VERSION, type PrivacySignal } from './consent';
+import { ConsentAuditLog, type ConsentAuditAction, type ConsentAuditEntry, type ConsentContext } from './consent-audit';
+import { ConsentBridge, type ConsentBridgeConfig } from './consent-bridge';
+import {
+  ConsentCategoryRegistry,
+  type ConsentCategoryDefinition,
+  type ConsentLocaleBundle,
+} from './consent-categories';
+import {
+  isConsentMode,
+  resolveConsentMode,
+  resolveConsentRegion,
+  type ConsentRegionConfig,
+} from './consent-region';
 import { setCookie, getCookie, deleteCookie, areCookiesEnabled, CookieConfig } from './cookies';
 import { ActivityDetector } from './activity';
 import { HeartbeatManager, type HeartbeatTracker } from './heartbeat';
 import { PageTrackingManager, type PageTracker } from './page-tracking';
 import { IdManager, type IdMode } from './id-manager';
+import { REPLAY_CONSENT_CATEGORY, type SessionReplayChunk } from './session-replay';
+import { EventOutbox, createOutboxStorage } from './event-outbox';
+import { FetchTransport, BeaconTransport, type Transport } from './transport';
+import { MiddlewarePipeline, type EventMiddleware, type MiddlewareFailureMode } from './middleware';
+import { SamplingManager, type RateLimit, type SamplingRules } from './sampling';
+import type { ConfigStreamMessage } from './config-stream';
+import {
+  ConfigOverrideManager,
+  type ConfigOverrideOptions,
+  type ConfigOverrideSource,
+  type ConfigSource,
+} from './config-overrides';
+import {
+  isConfigBootstrap,
+  readConfigBootstrap,
+  type ConfigBootstrap,
+} from './config-bootstrap';
+import {
+  encodeConfigValue,
+  encodeConfigValues,
+  decodeBooleanConfig,
+  decodeNumberConfig,
+  decodeJSONConfig,
+  isConfigDecodeError,
+  type ConfigValue,
+  type ConfigDecodeResult,
+  type NumberConfigOptions,
+  type JSONConfigSchema,
+} from './config-values';
+import {
+  validateEvent,
+  type CatalogEvent,
+  type EventName,
+  type EventProperties,
+  type EventSchema,
+  type SchemaValidationMode,
+  type TrackArguments,
+  type UntypedEventCatalog,
+} from './event-schema';
 import {
   categorizeReferrer,
   parseUTMParameters,
@@ -27,6 +79,55 @@ export { categorizeReferrer, parseUTMParameters };
 // Re-export timezone-country utilities
 export { getCountry, getCountryCodeFromTimezone, getState } from './countries';
 
+// Re-export transport types and default implementations
+export type { Transport, TransportRequest, TransportResponse } from './transport';
+export { FetchTransport, BeaconTransport } from './transport';
+
+// Re-export middleware types
+export type { EventMiddleware, MiddlewareContext, MiddlewareFailureMode } from './middleware';
+
+// Re-export sampling types
+export type { RateLimit, SamplingRules } from './sampling';
+
+// Re-export config stream types
+export type { ConfigStreamMessage } from './config-stream';
+
+// Re-export config override types
+export type { ConfigOverrideOptions, ConfigOverrideSource, ConfigSource } from './config-overrides';
+
+// Re-export local rule evaluation types
+export type {
+  LocalRuleset,
+  SignedRuleset,
+  SegmentDefinition,
+  RuleSetDefinition,
+  RuleCondition,
+  RuleOperator,
+} from './rule-evaluation';
+
+// Re-export config bootstrap types and SSR helpers
+export type { ConfigBootstrap } from './config-bootstrap';
+export { createConfigBootstrap, serializeConfigBootstrap, getConfigBootstrapScript } from './config-bootstrap';
+
+// Re-export typed config value types
+export type { ConfigValue, ConfigDecodeResult, NumberConfigOptions, JSONConfigSchema } from './config-values';
+
+// Re-export event schema types
+export type {
+  EventCatalog,
+  UntypedEventCatalog,
+  EventName,
+  EventProperties,
+  TrackArguments,
+  CatalogEvent,
+  SchemaPropertyType,
+  PropertySchema,
+  EventSchema,
+  EventSchemas,
+  SchemaValidationMode,
+} from './event-schema';
+export { validateEvent } from './event-schema';
+
 // Re-export auto-tracking types
 export type {
   InteractionConfig,
@@ -40,23 +141,49 @@ export interface GrainEvent {
   eventName: string;
   userId?: string;
   properties?: Record<string, unknown>;
-  timestamp?: Date;
+  timestamp?: Date; // When the event happened (default: when track() was called)
 }
 
 export interface EventPayload {
   eventName: string;
   userId: string;
   properties: Record<string, unknown>;
+  groups?: Record<string, string>; // Active group memberships by group type, see group()
+  capturedAt?: string; // ISO 8601 client time the event happened
+  sequence?: number; // Per-session counter, increases with every tracked event
+  sentAt?: string; // ISO 8601 client time of the delivery attempt, for clock-skew correction
+  insertId?: string; // Idempotency key of persisted events, the same on every replay
 }
 
 export type AuthStrategy = 'NONE' | 'SERVER_SIDE' | 'JWT';
 
+export type ConfigUpdateMode = 'poll' | 'stream';
+
 export interface AuthProvider {
   getToken(): Promise<string> | string;
 }
 
 // Re-export privacy types
-export type { ConsentState, ConsentMode, CookieConfig };
+export type { ConsentState, ConsentMode, CookieConfig, PrivacySignal };
+export type { ConsentAuditAction, ConsentAuditEntry, ConsentContext } from './consent-audit';
+export type { ConsentBridgeConfig, ConsentSource, GoogleConsentSignal } from './consent-bridge';
+export type { ConsentRegionConfig, RegionResolver } from './consent-region';
+export type {
+  ConsentCategoryDefinition,
+  ConsentCategoryStrings,
+  ConsentLocaleBundle,
+  ConsentMessages,
+  ConsentVendor,
+  LocalizedConsentCategory,
+  LocalizedConsentUI,
+  TextDirection,
+} from './consent-categories';
+export {
+  BUILT_IN_CONSENT_CATEGORIES,
+  ConsentCategoryRegistry,
+  DEFAULT_CONSENT_MESSAGES,
+} from './consent-categories';
+export { DEFAULT_REGION_CONSENT_MODES, GDPR_COUNTRY_CODES } from './consent-region';
 
 export interface GrainConfig {
   tenantId: string;
@@ -72,13 +199,27 @@ export interface GrainConfig {
   maxEventsPerRequest?: number; // Maximum events to send in a single API request
   debug?: boolean;
   // Remote Config options
-  defaultConfigurations?: Record<string, string>; // Default values for configurations
+  defaultConfigurations?: Record<string, ConfigValue>; // Default values for configurations, non-strings are JSON encoded
   configCacheKey?: string; // Custom cache key for configurations
+  bootstrapConfig?: ConfigBootstrap; // Server-rendered configurations to hydrate the cache with (default: read from getConfigBootstrapScript())
   configRefreshInterval?: number; // Auto-refresh interval in milliseconds (default: 5 minutes)
   enableConfigCache?: boolean; // Enable/disable configuration caching (default: true)
+  configUpdateMode?: ConfigUpdateMode; // 'stream' pushes changes over SSE/long-poll, falls back to polling (default: 'poll')
+  enableExposureTracking?: boolean; // Record which remote config values were read (default: true)
+  exposureExcludedKeys?: string[]; // Config keys that never record exposures (default: [])
+  enableConfigOverrides?: boolean; // QA/dev only: read overrides from grain_config.<key> URL params and localStorage (default: false)
+  enableLocalEvaluation?: boolean; // Evaluate config targeting in the browser from a signed ruleset (default: false)
+  ruleSigningKey?: string; // Base64 SPKI ECDSA P-256 public key rulesets are signed with, required for local evaluation
   // Privacy & Consent options (v2.0)
   consentMode?: ConsentMode; // 'cookieless' | 'gdpr-strict' | 'gdpr-opt-out' (default: 'cookieless')
+  consentRegion?: ConsentRegionConfig; // Pick consentMode per visitor country, consentMode is the fallback (default: none)
   waitForConsent?: boolean; // Queue events until consent is granted (default: false, only for gdpr-strict)
+  enableConsentAudit?: boolean; // Record every consent change as a proof-of-consent entry (default: true)
+  honorGlobalPrivacyControl?: boolean; // Treat navigator.globalPrivacyControl as an opt-out (default: true)
+  honorDoNotTrack?: boolean; // Treat navigator.doNotTrack as an opt-out (default: false)
+  consentCategories?: Array<string | ConsentCategoryDefinition>; // Consent UI categories, built-in IDs or definitions (default: necessary, analytics, functional)
+  consentLocales?: Record<string, ConsentLocaleBundle>; // Consent UI translations by locale (default: built-in English)
+  consentBridge?: ConsentBridgeConfig; // Sync consent with a TCF/OneTrust/Cookiebot CMP and emit Google Consent Mode signals (default: none)
   // Deprecated: enableCookies - cookies no longer used for user identification
   // Deprecated: anonymizeIP - IP addresses never stored (GeoIP used instead)
   disableAutoProperties?: boolean; // Disable automatic property collection (default: false)
@@ -92,6 +233,31 @@ export interface GrainConfig {
   stripHash?: boolean; // Strip hash from URLs (default: false)
   // Heatmap Tracking options
   enableHeatmapTracking?: boolean; // Enable heatmap tracking (default: true)
+  // Frustration Signal options
+  enableFrustrationSignals?: boolean; // Detect rage, dead and error clicks from heatmap clicks (default: false)
+  // Web Vitals options
+  enableWebVitals?: boolean; // Collect Core Web Vitals and navigation timing (default: false)
+  // Error Tracking options
+  enableErrorTracking?: boolean; // Report uncaught errors and unhandled rejections (default: false)
+  maxErrorsPerMinute?: number; // Error reporting rate limit (default: 10)
+  // Offline Queue options
+  enableOfflineQueue?: boolean; // Persist queued events until acknowledged (default: false)
+  offlineQueueMaxEvents?: number; // Maximum events kept on disk (default: 1000)
+  // Transport options
+  transport?: Transport; // Delivers event batches (default: FetchTransport)
+  unloadTransport?: Transport; // Delivers event batches during page unload (default: transport if given, else BeaconTransport)
+  // Middleware options
+  middleware?: EventMiddleware[]; // Runs on every event before it is queued (default: [])
+  middlewareFailureMode?: MiddlewareFailureMode; // 'drop' the event or 'skip' the middleware when one throws (default: 'drop')
+  // Sampling options
+  sampleRates?: Record<string, number>; // Per-event share of sessions to send, 0-1, keys may end in '*' (default: {})
+  rateLimits?: Record<string, RateLimit>; // Per-event token bucket limits, keys may end in '*' (default: {})
+  // Event schema options
+  eventSchemas?: Record<string, EventSchema>; // Runtime schemas for custom events (default: none)
+  schemaValidation?: SchemaValidationMode; // What to do with events that don't match eventSchemas (default: 'warn')
+  // Session Replay options
+  enableSessionReplay?: boolean; // Record sessions with rrweb, requires 'replay' consent (default: false)
+  sessionReplaySampleRate?: number; // Share of sessions to record, 0-1 (default: 1)
 }
 
 export interface SendEventOptions {
@@ -113,6 +279,13 @@ export interface PropertyPayload {
   [key: string]: string; // All property values must be strings
 }
 
+export interface GroupPayload {
+  groupType: string; // e.g. 'company', 'workspace', 'team'
+  groupId: string;
+  userId: string; // User who joined the group
+  traits: Record<string, string>; // All trait values must be strings
+}
+
 // Remote Config interfaces
 export interface RemoteConfigRequest {
   userId: string;
@@ -130,6 +303,7 @@ export interface RemoteConfigResponse {
   qualifiedRuleSets: string[];
   timestamp: string;
   isFromCache: boolean;
+  samplingConfig?: SamplingRules; // Overrides sampleRates and rateLimits at runtime
   autoTrackingConfig?: {
     interactions: Array<{
       eventName: string;
@@ -161,6 +335,12 @@ export interface RemoteConfigCache {
   snapshotId: string;
   timestamp: string;
   userId: string;
+  qualifiedSegments?: string[];
+  qualifiedRuleSets?: string[];
+}
+
+export interface ConfigReadOptions {
+  trackExposure?: boolean; // Record an exposure event for this read (default: true)
 }
 
 export type ConfigChangeListener = (configurations: Record<string, string>) => void;
@@ -293,29 +473,53 @@ export interface FormattedError {
  * - Exceptions: User explicitly identified via identify()/login() or JWT auth
  * - Remote config cache and consent preferences use localStorage (functional/necessary)
  */
-type RequiredConfig = Required<Omit<GrainConfig, 'secretKey' | 'authProvider' | 'userId' | 'cookieOptions' | 'allowedProperties'>> & {
+type RequiredConfig = Required<Omit<GrainConfig, 'secretKey' | 'authProvider' | 'userId' | 'cookieOptions' | 'allowedProperties' | 'eventSchemas' | 'defaultConfigurations' | 'bootstrapConfig' | 'ruleSigningKey' | 'consentBridge' | 'consentRegion' | 'consentCategories' | 'consentLocales'>> & {
+  defaultConfigurations: Record<string, string>; // Encoded once at construction
   secretKey?: string;
   authProvider?: AuthProvider;
   userId?: string;
   cookieOptions?: CookieConfig;
   allowedProperties?: string[];
+  eventSchemas?: Record<string, EventSchema>;
+  bootstrapConfig?: ConfigBootstrap;
+  ruleSigningKey?: string;
+  consentBridge?: ConsentBridgeConfig;
+  consentRegion?: ConsentRegionConfig;
+  consentCategories?: Array<string | ConsentCategoryDefinition>;
+  consentLocales?: Record<string, ConsentLocaleBundle>;
 };
 
-export class GrainAnalytics implements HeartbeatTracker, PageTracker {
+export class GrainAnalytics<TEvents extends object = UntypedEventCatalog> implements HeartbeatTracker, PageTracker {
   private config: RequiredConfig;
   private eventQueue: EventPayload[] = [];
   private waitingForConsentQueue: EventPayload[] = [];
+  private eventOutbox: EventOutbox | null = null;
+  private onlineHandler: (() => void) | null = null;
+  private middlewarePipeline: MiddlewarePipeline;
+  private samplingManager: SamplingManager;
   private flushTimer: number | null = null;
+  private pendingFlushes = new Set<Promise<void>>();
+  private eventSequence: { sessionId: string; value: number } | null = null;
   private isDestroyed = false;
   private globalUserId: string | null = null;
+  private groups: Record<string, string> = {};
   private persistentAnonymousUserId: string | null = null; // Deprecated: use idManager instead
   // Remote Config properties
   private configCache: RemoteConfigCache | null = null;
   private configRefreshTimer: number | null = null;
+  private configStreamManager: any | null = null;
   private configChangeListeners: ConfigChangeListener[] = [];
   private configFetchPromise: Promise<RemoteConfigResponse> | null = null;
+  private trackedExposures: Set<string> | null = null;
+  private configOverrides: ConfigOverrideManager;
+  private ruleEvaluationManager: any | null = null;
+  private lastConfigProperties: Record<string, string> = {};
   // Privacy & Consent properties (v2.0)
   private consentManager: ConsentManager;
+  private consentAudit: ConsentAuditLog | null = null;
+  private consentBridge: ConsentBridge | null = null;
+  private consentRegion: string | null = null;
+  private consentCategoryRegistry: ConsentCategoryRegistry;
   private idManager: IdManager;
   private cookiesEnabled: boolean = false; // Deprecated: cookies no longer used for IDs
   // Automatic Tracking properties
@@ -323,11 +527,15 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
   private heartbeatManager: HeartbeatManager | null = null;
   private pageTrackingManager: PageTrackingManager | null = null;
   private ephemeralSessionId: string | null = null;
+  private samplingKey: string | null = null;
   private eventCountSinceLastHeartbeat: number = 0;
   // Auto-tracking properties
   private interactionTrackingManager: any | null = null;
   private sectionTrackingManager: any | null = null;
   private heatmapTrackingManager: any | null = null;
+  private sessionReplayManager: any | null = null;
+  private errorTrackingManager: any | null = null;
+  private webVitalsManager: any | null = null;
   // Session tracking
   private sessionStartTime: number = Date.now();
   private sessionEventCount: number = 0;
@@ -346,13 +554,20 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       maxEventsPerRequest: 160, // Maximum events per API request
       debug: false,
       // Remote Config defaults
-      defaultConfigurations: {},
       configCacheKey: 'grain_config',
       configRefreshInterval: 300000, // 5 minutes
       enableConfigCache: true,
+      configUpdateMode: 'poll',
+      enableExposureTracking: true,
+      exposureExcludedKeys: [],
+      enableConfigOverrides: false, // Any link could force config values for its visitors
+      enableLocalEvaluation: false,
       // Privacy defaults (v2.0)
       consentMode: 'COOKIELESS', // Default: privacy-first, no permanent tracking
       waitForConsent: false,
+      enableConsentAudit: true,
+      honorGlobalPrivacyControl: true,
+      honorDoNotTrack: false,
       disableAutoProperties: false,
       // Automatic Tracking defaults
       enableHeartbeat: true,
@@ -363,12 +578,68 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       stripHash: false,
       // Heatmap Tracking defaults
       enableHeatmapTracking: true,
+      // Frustration Signal defaults
+      enableFrustrationSignals: false,
+      // Web Vitals defaults
+      enableWebVitals: false,
+      // Error Tracking defaults
+      enableErrorTracking: false,
+      maxErrorsPerMinute: 10,
+      // Offline Queue defaults
+      enableOfflineQueue: false,
+      offlineQueueMaxEvents: 1000,
+      // Transport defaults
+      transport: new FetchTransport(),
+      // Middleware defaults
+      middleware: [],
+      middlewareFailureMode: 'drop',
+      // Sampling defaults
+      sampleRates: {},
+      rateLimits: {},
+      // Event schema defaults
+      schemaValidation: 'warn',
+      // Session Replay defaults
+      enableSessionReplay: false,
+      sessionReplaySampleRate: 1,
       ...config,
+      defaultConfigurations: encodeConfigValues(config.defaultConfigurations),
       tenantId: config.tenantId,
+      // A custom transport must not be bypassed by the beacon at unload
+      unloadTransport: config.unloadTransport ?? config.transport ?? new BeaconTransport(),
     };
 
+    // Pick the consent mode for the visitor's region, falling back to consentMode
+    let consentMode = this.config.consentMode;
+    if (this.config.consentRegion) {
+      this.consentRegion = resolveConsentRegion(this.config.consentRegion);
+      consentMode = resolveConsentMode(this.consentRegion, this.config.consentRegion, consentMode);
+      this.log('Consent region:', this.consentRegion, consentMode);
+    }
+
     // Initialize consent manager (v2.0)
-    this.consentManager = new ConsentManager(this.config.tenantId, this.config.consentMode);
+    this.consentManager = new ConsentManager(this.config.tenantId, consentMode, {
+      honorGpc: this.config.honorGlobalPrivacyControl,
+      honorDnt: this.config.honorDoNotTrack,
+    });
+    this.consentCategoryRegistry = new ConsentCategoryRegistry(this.config.consentCategories, this.config.consentLocales);
+    if (this.config.enableConsentAudit) {
+      this.consentAudit = new ConsentAuditLog({
+        getApiUrl: () => this.config.apiUrl,
+        getAuthHeaders: () => this.getAuthHeaders(),
+        getTransport: () => this.config.unloadTransport,
+      }, { tenantId: this.config.tenantId, debug: this.config.debug });
+    }
+
+    // Initialize middleware pipeline - sampling runs first so dropped events skip user middleware
+    this.samplingManager = new SamplingManager({ getSamplingKey: () => this.getSamplingKey() }, {
+      sampleRates: this.config.sampleRates,
+      rateLimits: this.config.rateLimits,
+    }, this.config.debug);
+    this.middlewarePipeline = new MiddlewarePipeline(
+      [this.samplingManager.middleware, ...this.config.middleware],
+      this.config.debug,
+      this.config.middlewareFailureMode
+    );
 
     // Initialize ID manager (v2.0)
     const idMode: IdMode = this.consentManager.getIdMode();
@@ -385,9 +656,18 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
 
     this.validateConfig();
     // Deprecated: initializePersistentAnonymousUserId() - now handled by IdManager
+    this.initializeOfflineQueue();
     this.setupBeforeUnload();
     this.startFlushTimer();
+
+    // Initialize config overrides - before any getConfig() call so overrides apply from the start
+    this.configOverrides = new ConfigOverrideManager({
+      tenantId: this.config.tenantId,
+      enableExternalSources: this.config.enableConfigOverrides,
+      debug: this.config.debug,
+    });
     this.initializeConfigCache();
+    this.syncRemoteConsentMode();
 
     // Initialize ephemeral session ID (memory-only, not persisted)
     this.ephemeralSessionId = this.generateUUID();
@@ -404,6 +684,18 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       if (this.config.enableHeatmapTracking) {
         this.initializeHeatmapTracking();
       }
+      // Initialize web vitals collection if enabled
+      if (this.config.enableWebVitals) {
+        this.initializeWebVitals();
+      }
+      // Initialize error tracking if enabled
+      if (this.config.enableErrorTracking) {
+        this.initializeErrorTracking();
+      }
+      // Initialize session replay if enabled (records only with 'replay' consent)
+      if (this.config.enableSessionReplay) {
+        this.initializeSessionReplay();
+      }
     }
 
     // Set up consent change listener to sync IdManager and flush waiting events (v2.0)
@@ -411,11 +703,116 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       // Sync IdManager with consent state
       const idMode = this.consentManager.getIdMode();
       this.idManager.setMode(idMode);
+
+      // Start or stop session replay as the 'replay' category changes
+      this.syncSessionReplay();
       
       if (state.granted) {
         this.handleConsentGranted();
       }
     });
+
+    // Connect to the CMP and Google Consent Mode - eagerly, so consent defaults are set before tags fire
+    if (this.config.consentBridge && typeof window !== 'undefined') {
+      this.consentBridge = new ConsentBridge(this, { ...this.config.consentBridge, debug: this.config.debug });
+      this.consentBridge.start();
+    }
+  }
+
+  /**
+   * Initialize the persistent offline queue (browser only)
+   */
+  private initializeOfflineQueue(): void {
+    if (!this.config.enableOfflineQueue || typeof window === 'undefined') return;
+
+    const storage = createOutboxStorage(this.config.tenantId);
+    if (!storage) {
+      this.log('Offline queue unavailable: no persistent storage in this environment');
+      return;
+    }
+
+    this.eventOutbox = new EventOutbox(
+      {
+        tenantId: this.config.tenantId,
+        maxEvents: this.config.offlineQueueMaxEvents,
+        debug: this.config.debug,
+      },
+      storage
+    );
+
+    // Replay parked events as soon as the browser is back online
+    this.onlineHandler = () => {
+      this.replayParkedEvents();
+    };
+    window.addEventListener('online', this.onlineHandler);
+
+    this.restoreOfflineQueue();
+  }
+
+  /**
+   * Check if queued events may be written to disk
+   * GDPR Strict: nothing is persisted before analytics consent
+   */
+  private canPersistEvents(): boolean {
+    if (!this.eventOutbox) return false;
+    if (this.consentManager.getConsentMode() === 'GDPR_STRICT') {
+      return this.consentManager.hasConsent('analytics');
+    }
+    return true;
+  }
+
+  /**
+   * Load events left undelivered by a previous page load and send them
+   */
+  private async restoreOfflineQueue(): Promise<void> {
+    if (!this.eventOutbox || !this.canPersistEvents()) return;
+
+    const restored = await this.eventOutbox.restore();
+    if (restored.length === 0 || this.isDestroyed) return;
+
+    this.log(`Replaying ${restored.length} events from offline queue`);
+    this.eventQueue.unshift(...restored);
+    this.flush().catch((error) => {
+      const formattedError = this.formatError(error, 'flush offline queue');
+      this.logError(formattedError);
+    });
+  }
+
+  /**
+   * Move events that previously failed delivery back into the queue
+   */
+  private replayParkedEvents(): void {
+    if (!this.eventOutbox || !this.eventOutbox.hasParked() || this.isDestroyed) return;
+
+    const parked = this.eventOutbox.takeParked();
+    this.log(`Replaying ${parked.length} undelivered events`);
+    this.eventQueue.unshift(...parked);
+    this.flush().catch((error) => {
+      const formattedError = this.formatError(error, 'flush parked events');
+      this.logError(formattedError);
+    });
+  }
+
+  /**
+   * Add events to the send queue, persisting them when allowed
+   */
+  private enqueueEvents(events: EventPayload[]): void {
+    this.eventQueue.push(...events);
+    if (this.canPersistEvents()) {
+      this.eventOutbox!.add(events);
+    }
+  }
+
+  /**
+   * Record the outcome of a delivery attempt in the offline queue
+   */
+  private settleDelivery(events: EventPayload[], delivered: boolean): void {
+    if (!this.eventOutbox) return;
+    if (delivered) {
+      this.eventOutbox.acknowledge(events);
+    } else {
+      this.eventOutbox.park(events);
+    }
   }
 
   private validateConfig(): void {
@@ -430,6 +827,10 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     if (this.config.authStrategy === 'JWT' && !this.config.authProvider) {
       throw new Error('Grain Analytics: authProvider is required for JWT auth strategy');
     }
+
+    if (this.config.enableLocalEvaluation && !this.config.ruleSigningKey) {
+      throw new Error('Grain Analytics: ruleSigningKey is required for local evaluation');
+    }
   }
 
   /**
@@ -459,7 +860,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   private shouldAllowPersistentStorage(): boolean {
     const hasConsent = this.consentManager.hasConsent('analytics');
-    const isCookieless = this.config.consentMode === 'COOKIELESS';
+    const isCookieless = this.consentManager.getConsentMode() === 'COOKIELESS';
     const userExplicitlyIdentified = !!this.globalUserId;
     const isJWTAuth = this.config.authStrategy === 'JWT';
     
@@ -756,13 +1157,65 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       }
     }
     
+    const timestamp = event.timestamp instanceof Date && !isNaN(event.timestamp.getTime())
+      ? event.timestamp
+      : new Date();
+
     return {
       eventName: event.eventName,
       userId: event.userId || this.getEffectiveUserIdInternal(),
       properties,
+      ...(Object.keys(this.groups).length > 0 ? { groups: { ...this.groups } } : {}),
+      capturedAt: timestamp.toISOString(),
     };
   }
 
+  /**
+   * Get the next event sequence number for the current session
+   * Persisted in sessionStorage so the order survives page loads; restarts
+   * when the session ID changes (e.g. consent switches to a persistent ID)
+   */
+  private nextEventSequence(): number {
+    const sessionId = this.getSessionId();
+    const storageKey = `_grain_event_sequence_${this.config.tenantId}`;
+
+    if (!this.eventSequence) {
+      try {
+        const stored = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem(storageKey) : null;
+        if (stored) {
+          this.eventSequence = JSON.parse(stored);
+        }
+      } catch {
+        // sessionStorage unavailable - count within this page only
+      }
+    }
+
+    if (!this.eventSequence || this.eventSequence.sessionId !== sessionId) {
+      this.eventSequence = { sessionId, value: 0 };
+    }
+
+    this.eventSequence.value++;
+
+    try {
+      if (typeof sessionStorage !== 'undefined') {
+        sessionStorage.setItem(storageKey, JSON.stringify(this.eventSequence));
+      }
+    } catch {
+      // Silent failure - count within this page only
+    }
+
+    return this.eventSequence.value;
+  }
+
+  /**
+   * Copy events with the time of this delivery attempt
+   * The queued events are left untouched so the offline queue can still match them
+   */
+  private stampSentAt(events: EventPayload[]): EventPayload[] {
+    const sentAt = new Date().toISOString();
+    return events.map(event => ({ ...event, sentAt }));
+  }
+
   private async getAuthHeaders(): Promise<Record<string, string>> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -808,8 +1261,8 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     return false;
   }
 
-  private async sendEvents(events: EventPayload[]): Promise<void> {
-    if (events.length === 0) return;
+  private async sendEvents(events: EventPayload[]): Promise<boolean> {
+    if (events.length === 0) return true;
 
     let lastError: unknown;
 
@@ -817,24 +1270,25 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       try {
         const headers = await this.getAuthHeaders();
         const url = `${this.config.apiUrl}/v1/events/${encodeURIComponent(this.config.tenantId)}/multi`;
+        const stampedEvents = this.stampSentAt(events);
 
-        const response = await fetch(url, {
-          method: 'POST',
+        const response = await this.config.transport.send({
+          url,
           headers,
-          body: JSON.stringify(events),
+          body: JSON.stringify(stampedEvents),
+          events: stampedEvents,
         });
 
         if (!response.ok) {
           let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorBody = await response.json();
-            if (errorBody?.message) {
-              errorMessage = errorBody.message;
-            }
-          } catch {
-            const errorText = await response.text();
-            if (errorText) {
-              errorMessage = errorText;
+          if (response.body) {
+            try {
+              const errorBody = JSON.parse(response.body);
+              if (errorBody?.message) {
+                errorMessage = errorBody.message;
+              }
+            } catch {
+              errorMessage = response.body;
             }
           }
           
@@ -844,7 +1298,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         }
 
         this.log(`Successfully sent ${events.length} events`);
-        return; // Success, exit retry loop
+        return true; // Success, exit retry loop
         
       } catch (error) {
         lastError = error;
@@ -853,14 +1307,14 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
           // Last attempt, don't retry - log error gracefully
           const formattedError = this.formatError(error, `sendEvents (attempt ${attempt + 1}/${this.config.retryAttempts + 1})`, events);
           this.logError(formattedError);
-          return; // Don't throw, just return gracefully
+          return false; // Don't throw, just return gracefully
         }
         
         if (!this.isRetriableError(error)) {
           // Non-retriable error, don't retry - log error gracefully
           const formattedError = this.formatError(error, `sendEvents (non-retriable error)`, events);
           this.logError(formattedError);
-          return; // Don't throw, just return gracefully
+          return false; // Don't throw, just return gracefully
         }
         
         const delayMs = this.config.retryDelay * Math.pow(2, attempt); // Exponential backoff
@@ -868,47 +1322,43 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         await this.delay(delayMs);
       }
     }
+
+    return false;
   }
 
-  private async sendEventsWithBeacon(events: EventPayload[]): Promise<void> {
-    if (events.length === 0) return;
+  private async sendEventsWithBeacon(events: EventPayload[]): Promise<boolean> {
+    if (events.length === 0) return true;
 
     try {
       const headers = await this.getAuthHeaders();
       const url = `${this.config.apiUrl}/v1/events/${encodeURIComponent(this.config.tenantId)}/multi`;
 
       // Send events array directly (not wrapped in object) to match API expectation
-      const body = JSON.stringify(events);
-
-      // Beacon API doesn't support custom headers, so only use it for unauthenticated requests
-      const needsAuth = this.config.authStrategy !== 'NONE';
-
-      // Try beacon API first (more reliable for page unload, but only if no auth needed)
-      if (!needsAuth && typeof navigator !== 'undefined' && 'sendBeacon' in navigator) {
-        const blob = new Blob([body], { type: 'application/json' });
-        const success = navigator.sendBeacon(url, blob);
-        
-        if (success) {
-          this.log(`Successfully sent ${events.length} events via beacon`);
-          return;
-        }
-      }
+      const stampedEvents = this.stampSentAt(events);
+      const body = JSON.stringify(stampedEvents);
 
-      // Use fetch with keepalive (supports headers and works during page unload)
-      await fetch(url, {
-        method: 'POST',
+      const response = await this.config.unloadTransport.send({
+        url,
         headers,
         body,
+        events: stampedEvents,
         keepalive: true,
       });
+
+      if (response.ok) {
+        this.log(`Successfully sent ${events.length} events during unload`);
+      }
+      return response.ok;
     } catch (error) {
       // Log error gracefully for beacon failures (page unload scenarios)
       const formattedError = this.formatError(error, 'sendEventsWithBeacon', events);
       this.logError(formattedError);
+      return false;
     }
   }
 
   private startFlushTimer(): void {
+    // Server clients are flushed by GrainServerAnalytics
     if (typeof window === 'undefined') return;
     
     if (this.flushTimer) {
@@ -940,10 +1390,13 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         const chunks = this.chunkEvents(eventsToSend, this.config.maxEventsPerRequest);
         
         // Send first chunk with beacon (most important for page unload)
+        // Remaining chunks stay in the offline queue (if enabled) for the next page load
         if (chunks.length > 0) {
-          this.sendEventsWithBeacon(chunks[0]).catch(() => {
-            // Silently fail - page is unloading
-          });
+          this.sendEventsWithBeacon(chunks[0])
+            .then((delivered) => this.settleDelivery(chunks[0], delivered))
+            .catch(() => {
+              // Silently fail - page is unloading
+            });
         }
       }
     };
@@ -962,9 +1415,11 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         
         // Send first chunk with beacon (most important for page hidden)
         if (chunks.length > 0) {
-          this.sendEventsWithBeacon(chunks[0]).catch(() => {
-            // Silently fail
-          });
+          this.sendEventsWithBeacon(chunks[0])
+            .then((delivered) => this.settleDelivery(chunks[0], delivered))
+            .catch(() => {
+              // Silently fail
+            });
         }
       }
     });
@@ -1000,6 +1455,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
             stripHash: this.config.stripHash,
             debug: this.config.debug,
             tenantId: this.config.tenantId,
+            onPageChange: (page) => this.handlePageChange(page),
           }
         );
       } catch (error) {
@@ -1028,6 +1484,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
               scrollDebounceDelay: 100,
               batchDelay: 2000,
               maxBatchSize: 20,
+              detectFrustration: this.config.enableFrustrationSignals,
               debug: this.config.debug,
             }
           );
@@ -1043,6 +1500,159 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }
   }
 
+  /**
+   * Initialize web vitals collection
+   */
+  private initializeWebVitals(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      this.log('Initializing web vitals');
+
+      import('./web-vitals').then(({ WebVitalsManager }) => {
+        try {
+          this.webVitalsManager = new WebVitalsManager(this, {
+            debug: this.config.debug,
+          });
+          this.log('Web vitals initialized');
+        } catch (error) {
+          this.log('Failed to initialize web vitals:', error);
+        }
+      }).catch((error) => {
+        this.log('Failed to load web vitals module:', error);
+      });
+    } catch (error) {
+      this.log('Failed to initialize web vitals:', error);
+    }
+  }
+
+  /**
+   * Handle SPA route changes reported by the page tracker
+   */
+  private handlePageChange(page: string): void {
+    if (this.webVitalsManager) {
+      this.webVitalsManager.onPageChange(page);
+    }
+
+    // Page-specific configs switch without waiting for the network
+    this.reevaluateConfigLocally();
+  }
+
+  /**
+   * Initialize error tracking
+   */
+  private initializeErrorTracking(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      this.log('Initializing error tracking');
+
+      import('./error-tracking').then(({ ErrorTrackingManager }) => {
+        try {
+          this.errorTrackingManager = new ErrorTrackingManager(
+            this,
+            {
+              maxErrorsPerMinute: this.config.maxErrorsPerMinute,
+              debug: this.config.debug,
+            }
+          );
+          this.log('Error tracking initialized');
+        } catch (error) {
+          this.log('Failed to initialize error tracking:', error);
+        }
+      }).catch((error) => {
+        this.log('Failed to load error tracking module:', error);
+      });
+    } catch (error) {
+      this.log('Failed to initialize error tracking:', error);
+    }
+  }
+
+  /**
+   * Initialize session replay recording
+   */
+  private initializeSessionReplay(): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      this.log('Initializing session replay');
+
+      import('./session-replay').then(({ SessionReplayManager }) => {
+        try {
+          this.sessionReplayManager = new SessionReplayManager(
+            {
+              getSessionId: () => this.getSessionId(),
+              getSamplingKey: () => this.getSamplingKey(),
+              getRecordingId: () => this.getEphemeralSessionId(),
+              getEffectiveUserId: () => this.getEffectiveUserId(),
+              hasReplayConsent: () => this.hasReplayConsent(),
+              uploadReplayChunk: (chunk, keepalive) => this.uploadReplayChunk(chunk, keepalive),
+            },
+            {
+              sampleRate: this.config.sessionReplaySampleRate,
+              storageKey: `grain_replay_${this.config.tenantId}`,
+              debug: this.config.debug,
+            }
+          );
+          this.sessionReplayManager.start();
+          this.log('Session replay initialized');
+        } catch (error) {
+          this.log('Failed to initialize session replay:', error);
+        }
+      }).catch((error) => {
+        this.log('Failed to load session replay module:', error);
+      });
+    } catch (error) {
+      this.log('Failed to initialize session replay:', error);
+    }
+  }
+
+  /**
+   * Check if the user explicitly consented to session recording
+   * Replay is never implied by the consent mode - the category must be granted
+   */
+  private hasReplayConsent(): boolean {
+    const state = this.consentManager.getConsentState();
+    return !!state?.granted && state.categories.includes(REPLAY_CONSENT_CATEGORY);
+  }
+
+  /**
+   * Start or stop session replay to match the current consent
+   */
+  private syncSessionReplay(): void {
+    if (!this.sessionReplayManager) return;
+
+    if (this.hasReplayConsent()) {
+      this.sessionReplayManager.start();
+    } else {
+      this.sessionReplayManager.stop();
+    }
+  }
+
+  /**
+   * Upload a chunk of recorded session replay events
+   */
+  private async uploadReplayChunk(chunk: SessionReplayChunk, keepalive: boolean): Promise<boolean> {
+    try {
+      const headers = await this.getAuthHeaders();
+      const url = `${this.config.apiUrl}/v1/events/${encodeURIComponent(this.config.tenantId)}/replay`;
+
+      const transport = keepalive ? this.config.unloadTransport : this.config.transport;
+
+      const response = await transport.send({
+        url,
+        headers,
+        body: JSON.stringify(chunk),
+        events: [],
+        keepalive,
+      });
+      return response.ok;
+    } catch (error) {
+      this.log('Failed to upload session replay chunk:', error);
+      return false;
+    }
+  }
+
   /**
    * Initialize auto-tracking (interactions and sections)
    */
@@ -1077,6 +1687,10 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       }
 
         const configResponse: RemoteConfigResponse = await response.json();
+
+        if (configResponse.samplingConfig) {
+          this.samplingManager.updateRemoteRules(configResponse.samplingConfig);
+        }
         
         if (configResponse.autoTrackingConfig) {
         this.log('Auto-tracking config loaded');
@@ -1301,6 +1915,12 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    * Handle consent granted - upgrade ephemeral session to persistent user
    */
   private handleConsentGranted(): void {
+    // Persist events queued before consent and pick up any left on disk
+    if (this.canPersistEvents()) {
+      this.eventOutbox!.add(this.eventQueue);
+      this.restoreOfflineQueue();
+    }
+
     this.flushWaitingForConsentQueue();
 
     // Initialize persistent ID now that consent is granted (if not already initialized)
@@ -1343,8 +1963,12 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       _consent_status: hasConsent ? 'granted' : 'pending',
     };
 
+    const processedEvent = this.middlewarePipeline.run(formattedEvent, { isSystemEvent: true, hasConsent });
+    if (!processedEvent) return;
+    processedEvent.sequence = this.nextEventSequence();
+
     // Bypass consent check for necessary system events
-    this.eventQueue.push(formattedEvent);
+    this.enqueueEvents([processedEvent]);
     this.eventCountSinceLastHeartbeat++;
 
     this.log(`Queued system event: ${eventName}`);
@@ -1368,6 +1992,18 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     return this.ephemeralSessionId;
   }
 
+  /**
+   * Get the key sessions are sampled by
+   * Fixed at the first sampling decision, so granting consent or logging in
+   * mid-session doesn't move the session in or out of the sample
+   */
+  private getSamplingKey(): string {
+    if (!this.samplingKey) {
+      this.samplingKey = this.getSessionId();
+    }
+    return this.samplingKey;
+  }
+
   /**
    * Get the current page path from page tracker
    */
@@ -1417,13 +2053,30 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
   /**
    * Track an analytics event
    */
-  async track(eventName: string, properties?: Record<string, unknown>, options?: SendEventOptions): Promise<void>;
-  async track(event: GrainEvent, options?: SendEventOptions): Promise<void>;
+  async track<K extends EventName<TEvents>>(eventName: K, ...args: TrackArguments<EventProperties<TEvents, K>>): Promise<void>;
+  async track<K extends EventName<TEvents>>(event: CatalogEvent<TEvents, K>, options?: SendEventOptions): Promise<void>;
   async track(
     eventOrName: string | GrainEvent,
     propertiesOrOptions?: Record<string, unknown> | SendEventOptions,
     options?: SendEventOptions
   ): Promise<void> {
+    const event: GrainEvent = typeof eventOrName === 'string'
+      ? { eventName: eventOrName, properties: propertiesOrOptions as Record<string, unknown> }
+      : eventOrName;
+    const opts = typeof eventOrName === 'string' ? options : propertiesOrOptions as SendEventOptions;
+
+    // Only catalog events are checked - SDK helper events go straight to trackEvent
+    if (!this.isDestroyed && !this.passesSchemaValidation(event)) {
+      return;
+    }
+    return this.trackEvent(event, opts || {});
+  }
+
+  /**
+   * Format and queue an event
+   * Internal entry point for events whose names are not part of the typed catalog
+   */
+  private async trackEvent(event: GrainEvent, opts: SendEventOptions): Promise<void> {
     try {
       if (this.isDestroyed) {
         const error = new Error('Grain Analytics: Client has been destroyed');
@@ -1432,20 +2085,6 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         return;
       }
 
-      let event: GrainEvent;
-      let opts: SendEventOptions = {};
-
-      if (typeof eventOrName === 'string') {
-        event = {
-          eventName: eventOrName,
-          properties: propertiesOrOptions as Record<string, unknown>,
-        };
-        opts = options || {};
-      } else {
-        event = eventOrName;
-        opts = propertiesOrOptions as SendEventOptions || {};
-      }
-
       // Filter properties if whitelist is enabled
       if (this.config.allowedProperties && event.properties) {
         const filtered: Record<string, unknown> = {};
@@ -1462,7 +2101,10 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       // Check if we should wait for consent (only if explicitly configured)
       if (this.consentManager.shouldWaitForConsent() && this.config.waitForConsent) {
         // Queue event until consent is granted
-        this.waitingForConsentQueue.push(formattedEvent);
+        const processedEvent = this.middlewarePipeline.run(formattedEvent, { isSystemEvent: false, hasConsent: false });
+        if (!processedEvent) return;
+        processedEvent.sequence = this.nextEventSequence();
+        this.waitingForConsentQueue.push(processedEvent);
         this.log(`Event waiting for consent: ${event.eventName}`, event.properties);
         return;
       }
@@ -1478,7 +2120,12 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         _consent_status: hasConsent ? 'granted' : 'pending',
       };
 
-      this.eventQueue.push(formattedEvent);
+      const processedEvent = this.middlewarePipeline.run(formattedEvent, { isSystemEvent: false, hasConsent });
+      if (!processedEvent) return;
+      // Sequence only counts events the pipeline accepted, so dropped events leave no gaps
+      processedEvent.sequence = this.nextEventSequence();
+
+      this.enqueueEvents([processedEvent]);
       this.eventCountSinceLastHeartbeat++;
       this.sessionEventCount++;
       this.log(`Queued event: ${event.eventName}`);
@@ -1493,6 +2140,41 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }
   }
 
+  /**
+   * Check an event against the runtime schema registry
+   * Returns false if the event should be dropped
+   */
+  private passesSchemaValidation(event: GrainEvent): boolean {
+    const schemas = this.config.eventSchemas;
+    if (!schemas || this.config.schemaValidation === 'off') return true;
+
+    const issues = validateEvent(schemas, event.eventName, event.properties);
+    if (issues.length === 0) return true;
+
+    if (this.config.schemaValidation === 'reject') {
+      this.log(`Dropped event "${event.eventName}" - schema mismatch: ${issues.join('; ')}`);
+      return false;
+    }
+
+    console.warn(`[Grain Analytics] Event "${event.eventName}" does not match its schema: ${issues.join('; ')}`);
+    return true;
+  }
+
+  /**
+   * Add a middleware to the event pipeline
+   * Runs after any middleware passed in config, in registration order
+   */
+  use(middleware: EventMiddleware): void {
+    this.middlewarePipeline.use(middleware);
+  }
+
+  /**
+   * Remove a middleware from the event pipeline
+   */
+  removeMiddleware(middleware: EventMiddleware): void {
+    this.middlewarePipeline.remove(middleware);
+  }
+
   /**
    * Flush events that were waiting for consent
    */
@@ -1502,7 +2184,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     this.log(`Flushing ${this.waitingForConsentQueue.length} events waiting for consent`);
     
     // Move waiting events to main queue
-    this.eventQueue.push(...this.waitingForConsentQueue);
+    this.enqueueEvents(this.waitingForConsentQueue);
     this.waitingForConsentQueue = [];
 
     // Flush immediately
@@ -1517,7 +2199,9 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   identify(userId: string): void {
     this.log(`Identified user: ${userId}`);
+    const previousUserId = this.globalUserId;
     this.globalUserId = userId;
+    this.linkAnonymousHistory(previousUserId, userId, 'identify');
     // Clear persistent anonymous user ID since we now have a real user ID
     this.persistentAnonymousUserId = null;
   }
@@ -1527,9 +2211,11 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   setUserId(userId: string | null): void {
     this.log(`Set global user ID: ${userId}`);
+    const previousUserId = this.globalUserId;
     this.globalUserId = userId;
     
     if (userId) {
+      this.linkAnonymousHistory(previousUserId, userId, 'set_user_id');
       // Clear persistent anonymous user ID if setting a real user ID
       this.persistentAnonymousUserId = null;
     } else {
@@ -1544,16 +2230,96 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
   }
 
   /**
-   * Get current global user ID
-   */
-  getUserId(): string | null {
-    return this.globalUserId;
-  }
-
-  /**
-   * Get current effective user ID (global userId or persistent anonymous ID)
+   * Link two user IDs so their histories are merged
+   * Use for cross-device cases, e.g. an ID from another app or a previous device
+   *
+   * @example
+   * client.alias('legacy-user-42', 'user123');
    */
-  getEffectiveUserIdPublic(): string {
+  alias(previousId: string, newId: string): void {
+    try {
+      if (this.isDestroyed) {
+        const error = new Error('Grain Analytics: Client has been destroyed');
+        const formattedError = this.formatError(error, 'alias (client destroyed)');
+        this.logError(formattedError);
+        return;
+      }
+
+      if (!previousId || !newId || previousId === newId) {
+        throw new Error('Grain Analytics: alias requires two different user IDs');
+      }
+
+      this.trackAlias(previousId, newId, 'alias');
+    } catch (error) {
+      const formattedError = this.formatError(error, 'alias');
+      this.logError(formattedError);
+    }
+  }
+
+  /**
+   * Emit an alias event when an anonymous visitor becomes a known user
+   * Switching between two known users is not a merge and is skipped
+   */
+  private linkAnonymousHistory(
+    previousUserId: string | null,
+    userId: string,
+    source: 'identify' | 'login' | 'set_user_id'
+  ): void {
+    if (previousUserId) return;
+
+    const { id: anonymousId, isDailyRotating } = this.idManager.getIdInfo();
+    if (!anonymousId || anonymousId === userId) return;
+
+    // identify() usually runs on every page load - only link each pair once per session
+    const aliasKey = `_grain_alias_${this.config.tenantId}`;
+    const pair = `${anonymousId}|${userId}`;
+    try {
+      if (typeof sessionStorage !== 'undefined') {
+        if (sessionStorage.getItem(aliasKey) === pair) return;
+        sessionStorage.setItem(aliasKey, pair);
+      }
+    } catch {
+      // sessionStorage unavailable - the backend merge is idempotent
+    }
+
+    this.trackAlias(anonymousId, userId, source, isDailyRotating ? 'daily_rotating' : 'permanent');
+  }
+
+  /**
+   * Send the `_grain_alias` event with both IDs and the consent context
+   */
+  private trackAlias(
+    previousId: string,
+    userId: string,
+    source: 'identify' | 'login' | 'set_user_id' | 'alias',
+    previousIdType?: 'daily_rotating' | 'permanent'
+  ): void {
+    const consentState = this.consentManager.getConsentState();
+
+    this.trackSystemEvent('_grain_alias', {
+      previous_id: previousId,
+      previous_id_type: previousIdType,
+      user_id: userId,
+      source,
+      consent_mode: this.consentManager.getConsentMode(),
+      consent_categories: consentState?.granted ? consentState.categories : [],
+      timestamp: Date.now(),
+    });
+
+    this.log(`Aliased ${previousId} to ${userId} (${source})`);
+  }
+
+  /**
+   * Get current global user ID
+   */
+  getUserId(): string | null {
+    return this.globalUserId;
+  }
+
+  /**
+   * Get current effective user ID (global userId or persistent anonymous ID)
+   */
+  getEffectiveUserIdPublic(): string {
     return this.getEffectiveUserIdInternal();
   }
 
@@ -1585,7 +2351,9 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       // Set userId if provided
       if (options.userId) {
         this.log(`Login: Setting user ID to ${options.userId}`);
+        const previousUserId = this.globalUserId;
         this.globalUserId = options.userId;
+        this.linkAnonymousHistory(previousUserId, options.userId, 'login');
         // Clear persistent anonymous user ID since we now have a real user ID
         this.persistentAnonymousUserId = null;
       }
@@ -1638,8 +2406,9 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
 
       this.log('Logout: Clearing user session');
       
-      // Clear global user ID
+      // Clear global user ID and the user's group memberships
       this.globalUserId = null;
+      this.groups = {};
       
       // Reset auth strategy to NONE
       this.config.authStrategy = 'NONE';
@@ -1697,21 +2466,9 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         return;
       }
 
-      // Serialize all values to strings
-      const serializedProperties: Record<string, string> = {};
-      for (const [key, value] of Object.entries(properties)) {
-        if (value === null || value === undefined) {
-          serializedProperties[key] = '';
-        } else if (typeof value === 'string') {
-          serializedProperties[key] = value;
-        } else {
-          serializedProperties[key] = JSON.stringify(value);
-        }
-      }
-
       const payload: PropertyPayload = {
         userId,
-        ...serializedProperties,
+        ...this.serializeProperties(properties),
       };
 
       await this.sendProperties(payload);
@@ -1721,60 +2478,154 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }
   }
 
+  /**
+   * Associate the current user with a group (company, workspace, team, ...)
+   * Every event tracked afterwards carries the membership in `groups`.
+   * A user belongs to one group per group type - calling again replaces it.
+   *
+   * @example
+   * await client.group('company', 'acme-inc', { name: 'Acme Inc', plan: 'enterprise' });
+   * await client.group('workspace', 'ws_42');
+   */
+  async group(groupType: string, groupId: string, traits?: Record<string, unknown>): Promise<void> {
+    try {
+      if (this.isDestroyed) {
+        const error = new Error('Grain Analytics: Client has been destroyed');
+        const formattedError = this.formatError(error, 'group (client destroyed)');
+        this.logError(formattedError);
+        return;
+      }
+
+      if (!groupType || !groupId) {
+        const error = new Error('Grain Analytics: groupType and groupId are required');
+        const formattedError = this.formatError(error, 'group (validation)');
+        this.logError(formattedError);
+        return;
+      }
+
+      this.groups[groupType] = groupId;
+      this.log(`Joined group ${groupType}: ${groupId}`);
+
+      if (traits && Object.keys(traits).length > 0) {
+        await this.sendGroupTraits({
+          groupType,
+          groupId,
+          userId: this.getEffectiveUserIdInternal(),
+          traits: this.serializeProperties(traits),
+        });
+      }
+    } catch (error) {
+      const formattedError = this.formatError(error, 'group');
+      this.logError(formattedError);
+    }
+  }
+
+  /**
+   * Remove the current user's membership for a group type
+   */
+  removeGroup(groupType: string): void {
+    delete this.groups[groupType];
+    this.log(`Left group ${groupType}`);
+  }
+
+  /**
+   * Get the active group memberships by group type
+   */
+  getGroups(): Record<string, string> {
+    return { ...this.groups };
+  }
+
+  /**
+   * Serialize property values to strings for the properties and groups APIs
+   */
+  private serializeProperties(properties: Record<string, unknown>): Record<string, string> {
+    const serialized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      if (value === null || value === undefined) {
+        serialized[key] = '';
+      } else if (typeof value === 'string') {
+        serialized[key] = value;
+      } else {
+        serialized[key] = JSON.stringify(value);
+      }
+    }
+    return serialized;
+  }
+
   /**
    * Send properties to the API
    */
   private async sendProperties(payload: PropertyPayload): Promise<void> {
+    const sent = await this.postWithRetry('properties', payload, 'set properties', 'sendProperties');
+    if (sent) {
+      this.log(`Successfully set properties for user ${payload.userId}`);
+    }
+  }
+
+  /**
+   * Send group traits to the API
+   */
+  private async sendGroupTraits(payload: GroupPayload): Promise<void> {
+    const sent = await this.postWithRetry('groups', payload, 'set group traits', 'sendGroupTraits');
+    if (sent) {
+      this.log(`Successfully set traits for ${payload.groupType} ${payload.groupId}`);
+    }
+  }
+
+  /**
+   * POST a JSON payload to an events API endpoint with retries, through the configured transport
+   * Returns false once retries are exhausted (errors are logged, never thrown)
+   */
+  private async postWithRetry(endpoint: string, payload: unknown, action: string, context: string): Promise<boolean> {
     let lastError: unknown;
 
     for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
       try {
         const headers = await this.getAuthHeaders();
-        const url = `${this.config.apiUrl}/v1/events/${encodeURIComponent(this.config.tenantId)}/properties`;
+        const url = `${this.config.apiUrl}/v1/events/${encodeURIComponent(this.config.tenantId)}/${endpoint}`;
 
-        const response = await fetch(url, {
-          method: 'POST',
+        const response = await this.config.transport.send({
+          url,
           headers,
           body: JSON.stringify(payload),
+          events: [],
         });
 
         if (!response.ok) {
           let errorMessage = `HTTP ${response.status}`;
-          try {
-            const errorBody = await response.json();
-            if (errorBody?.message) {
-              errorMessage = errorBody.message;
-            }
-          } catch {
-            const errorText = await response.text();
-            if (errorText) {
-              errorMessage = errorText;
+          if (response.body) {
+            try {
+              const errorBody = JSON.parse(response.body);
+              if (errorBody?.message) {
+                errorMessage = errorBody.message;
+              }
+            } catch {
+              errorMessage = response.body;
             }
           }
           
-          const error = new Error(`Failed to set properties: ${errorMessage}`) as Error & { status?: number };
+          const error = new Error(`Failed to ${action}: ${errorMessage}`) as Error & { status?: number };
           error.status = response.status;
           throw error;
         }
 
-        this.log(`Successfully set properties for user ${payload.userId}`);
-        return; // Success, exit retry loop
+        return true; // Success, exit retry loop
         
       } catch (error) {
         lastError = error;
         
         if (attempt === this.config.retryAttempts) {
           // Last attempt, don't retry - log error gracefully
-          const formattedError = this.formatError(error, `sendProperties (attempt ${attempt + 1}/${this.config.retryAttempts + 1})`);
+          const formattedError = this.formatError(error, `${context} (attempt ${attempt + 1}/${this.config.retryAttempts + 1})`);
           this.logError(formattedError);
-          return; // Don't throw, just return gracefully
+          return false; // Don't throw, just return gracefully
         }
         
         if (!this.isRetriableError(error)) {
           // Non-retriable error, don't retry - log error gracefully
-          const formattedError = this.formatError(error, 'sendProperties (non-retriable error)');
+          const formattedError = this.formatError(error, `${context} (non-retriable error)`);
           this.logError(formattedError);
-          return; // Don't throw, just return gracefully
+          return false; // Don't throw, just return gracefully
         }
         
         const delayMs = this.config.retryDelay * Math.pow(2, attempt); // Exponential backoff
@@ -1782,6 +2633,8 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         await this.delay(delayMs);
       }
     }
+
+    return false;
   }
 
   // Template event methods
@@ -1791,7 +2644,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackLogin(properties?: LoginEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('login', properties, options);
+      return await this.trackEvent({ eventName: 'login', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackLogin');
       this.logError(formattedError);
@@ -1803,7 +2656,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackSignup(properties?: SignupEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('signup', properties, options);
+      return await this.trackEvent({ eventName: 'signup', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackSignup');
       this.logError(formattedError);
@@ -1815,7 +2668,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackCheckout(properties?: CheckoutEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('checkout', properties, options);
+      return await this.trackEvent({ eventName: 'checkout', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackCheckout');
       this.logError(formattedError);
@@ -1827,7 +2680,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackPageView(properties?: PageViewEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('page_view', properties, options);
+      return await this.trackEvent({ eventName: 'page_view', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackPageView');
       this.logError(formattedError);
@@ -1839,7 +2692,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackPurchase(properties?: PurchaseEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('purchase', properties, options);
+      return await this.trackEvent({ eventName: 'purchase', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackPurchase');
       this.logError(formattedError);
@@ -1851,7 +2704,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackSearch(properties?: SearchEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('search', properties, options);
+      return await this.trackEvent({ eventName: 'search', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackSearch');
       this.logError(formattedError);
@@ -1863,7 +2716,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackAddToCart(properties?: AddToCartEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('add_to_cart', properties, options);
+      return await this.trackEvent({ eventName: 'add_to_cart', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackAddToCart');
       this.logError(formattedError);
@@ -1875,7 +2728,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    */
   async trackRemoveFromCart(properties?: RemoveFromCartEventProperties, options?: SendEventOptions): Promise<void> {
     try {
-      return await this.track('remove_from_cart', properties, options);
+      return await this.trackEvent({ eventName: 'remove_from_cart', properties }, options || {});
     } catch (error) {
       const formattedError = this.formatError(error, 'trackRemoveFromCart');
       this.logError(formattedError);
@@ -1886,6 +2739,19 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    * Manually flush all queued events
    */
   async flush(): Promise<void> {
+    const flushPromise = this.flushQueue();
+    this.pendingFlushes.add(flushPromise);
+    try {
+      await flushPromise;
+    } finally {
+      this.pendingFlushes.delete(flushPromise);
+    }
+  }
+
+  /**
+   * Send queued events in chunks
+   */
+  private async flushQueue(): Promise<void> {
     try {
       if (this.eventQueue.length === 0) return;
 
@@ -1896,8 +2762,16 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       const chunks = this.chunkEvents(eventsToSend, this.config.maxEventsPerRequest);
       
       // Send all chunks sequentially to maintain order
+      let anyDelivered = false;
       for (const chunk of chunks) {
-        await this.sendEvents(chunk);
+        const delivered = await this.sendEvents(chunk);
+        this.settleDelivery(chunk, delivered);
+        anyDelivered = anyDelivered || delivered;
+      }
+
+      // Connectivity is back - retry events parked by earlier failures
+      if (anyDelivered) {
+        this.replayParkedEvents();
       }
     } catch (error) {
       const formattedError = this.formatError(error, 'flush');
@@ -1908,9 +2782,13 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
   // Remote Config Methods
 
   /**
-   * Initialize configuration cache from localStorage
+   * Initialize configuration cache from a server-rendered bootstrap, or from localStorage
    */
   private initializeConfigCache(): void {
+    // A bootstrap rendered with this page is fresher than anything in localStorage
+    const bootstrap = this.config.bootstrapConfig ?? readConfigBootstrap(this.config.tenantId);
+    if (bootstrap && this.hydrateConfig(bootstrap)) return;
+
     if (!this.config.enableConfigCache || typeof window === 'undefined') return;
 
     try {
@@ -1924,6 +2802,42 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }
   }
 
+  /**
+   * Hydrate the configuration cache from a server-rendered bootstrap
+   * Synchronous, so the values are available to the first render. Ignored when the
+   * bootstrap is for another tenant or older than the configurations already cached.
+   *
+   * @example
+   * // Server
+   * const bootstrap = await serverClient.getConfigBootstrap(userId, { currentUrl });
+   * // Browser
+   * client.hydrateConfig(bootstrap);
+   */
+  hydrateConfig(bootstrap: ConfigBootstrap): boolean {
+    if (this.isDestroyed) return false;
+
+    if (!isConfigBootstrap(bootstrap, this.config.tenantId)) {
+      this.log('Ignoring invalid config bootstrap');
+      return false;
+    }
+
+    if (this.configCache && Date.parse(this.configCache.timestamp) > Date.parse(bootstrap.timestamp)) {
+      this.log('Ignoring config bootstrap older than the cached configurations');
+      return false;
+    }
+
+    const { tenantId: _tenantId, ...cache } = bootstrap;
+    const oldConfigs = this.configCache?.configurations || {};
+    this.configCache = cache;
+    this.saveConfigCache(cache);
+    this.log('Hydrated configuration from bootstrap:', cache.snapshotId);
+
+    if (JSON.stringify(oldConfigs) !== JSON.stringify(cache.configurations)) {
+      this.notifyConfigChangeListeners(this.withConfigOverrides(cache.configurations));
+    }
+    return true;
+  }
+
   /**
    * Save configuration cache to localStorage
    */
@@ -1940,10 +2854,21 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
 
   /**
    * Get configuration value with fallback to defaults
+   * Local overrides take precedence over remote values and defaults.
+   * Reading a remote value records an exposure unless disabled for the key or call
    */
-  getConfig(key: string): string | undefined {
-    // First check cache
+  getConfig(key: string, options: ConfigReadOptions = {}): string | undefined {
+    // Overrides win over everything else
+    const override = this.configOverrides.get(key);
+    if (override) {
+      return override.value;
+    }
+
+    // Then check cache
     if (this.configCache?.configurations?.[key]) {
+      if (options.trackExposure !== false) {
+        this.trackConfigExposure(key);
+      }
       return this.configCache.configurations[key];
     }
 
@@ -1965,7 +2890,228 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       Object.assign(configs, this.configCache.configurations);
     }
 
-    return configs;
+    return this.withConfigOverrides(configs);
+  }
+
+  /**
+   * Get the layer a configuration value comes from
+   * 'override', 'url' and 'storage' are local overrides, see setConfigOverride()
+   */
+  getConfigSource(key: string): ConfigSource | undefined {
+    const override = this.configOverrides.get(key);
+    if (override) return override.source;
+    if (this.configCache?.configurations?.[key]) return 'remote';
+    if (this.config.defaultConfigurations[key]) return 'default';
+    return undefined;
+  }
+
+  /**
+   * Get the layer every value returned by getAllConfigs() comes from
+   */
+  getAllConfigSources(): Record<string, ConfigSource> {
+    const sources: Record<string, ConfigSource> = {};
+    for (const key of Object.keys(this.config.defaultConfigurations)) {
+      sources[key] = 'default';
+    }
+    for (const key of Object.keys(this.configCache?.configurations || {})) {
+      sources[key] = 'remote';
+    }
+    return { ...sources, ...this.configOverrides.getSources() };
+  }
+
+  /**
+   * Force a configuration value in this browser, for QA and development
+   * Takes precedence over remote values and defaults until removed. Pass
+   * `persist: true` to keep it in localStorage across reloads - this needs
+   * enableConfigOverrides, otherwise the override stays in memory only.
+   *
+   * With enableConfigOverrides, overrides can also be set without code:
+   * - URL: ?grain_config.hero_variant=variant_b (kept for the tab session)
+   * - localStorage: a JSON map under `_grain_config_overrides_{tenantId}`
+   */
+  setConfigOverride(key: string, value: ConfigValue, options: ConfigOverrideOptions = {}): void {
+    if (this.isDestroyed) return;
+    this.configOverrides.set(key, encodeConfigValue(value), options);
+    this.notifyConfigChangeListeners(this.withConfigOverrides(this.configCache?.configurations || {}));
+  }
+
+  /**
+   * Remove a configuration override from every layer (code, URL and localStorage)
+   */
+  removeConfigOverride(key: string): void {
+    if (this.isDestroyed) return;
+    this.configOverrides.remove(key);
+    this.notifyConfigChangeListeners(this.withConfigOverrides(this.configCache?.configurations || {}));
+  }
+
+  /**
+   * Remove all configuration overrides
+   */
+  clearConfigOverrides(): void {
+    if (this.isDestroyed) return;
+    this.configOverrides.clear();
+    this.notifyConfigChangeListeners(this.withConfigOverrides(this.configCache?.configurations || {}));
+  }
+
+  /**
+   * Get all active configuration overrides
+   */
+  getConfigOverrides(): Record<string, string> {
+    return this.configOverrides.getAll();
+  }
+
+  private withConfigOverrides(configurations: Record<string, string>): Record<string, string> {
+    return { ...configurations, ...this.configOverrides.getAll() };
+  }
+
+  /**
+   * Get a configuration value as a boolean (accepts true/false and 1/0)
+   * Falls back to the configured default, then to defaultValue, when the value is missing or invalid
+   */
+  getBoolean(key: string, defaultValue: boolean, options?: ConfigReadOptions): boolean;
+  getBoolean(key: string, defaultValue?: boolean, options?: ConfigReadOptions): boolean | undefined;
+  getBoolean(key: string, defaultValue?: boolean, options: ConfigReadOptions = {}): boolean | undefined {
+    return this.getTypedConfig(key, decodeBooleanConfig, defaultValue, options);
+  }
+
+  /**
+   * Get a configuration value as a number, optionally range-checked
+   * Falls back to the configured default, then to defaultValue, when the value is missing or invalid
+   */
+  getNumber(key: string, defaultValue: number, options?: NumberConfigOptions & ConfigReadOptions): number;
+  getNumber(key: string, defaultValue?: number, options?: NumberConfigOptions & ConfigReadOptions): number | undefined;
+  getNumber(key: string, defaultValue?: number, options: NumberConfigOptions & ConfigReadOptions = {}): number | undefined {
+    return this.getTypedConfig(key, (raw) => decodeNumberConfig(raw, options), defaultValue, options);
+  }
+
+  /**
+   * Get a configuration value as parsed JSON, optionally validated by a schema
+   * Falls back to the configured default, then to defaultValue, when the value is missing or invalid
+   *
+   * @example
+   * const banner = client.getJSON<Banner>('promo_banner', { text: '' }, {
+   *   properties: { text: { type: 'string', required: true } },
+   * });
+   */
+  getJSON<T = unknown>(key: string, defaultValue: T, schema?: JSONConfigSchema<T>, options?: ConfigReadOptions): T;
+  getJSON<T = unknown>(key: string, defaultValue?: T, schema?: JSONConfigSchema<T>, options?: ConfigReadOptions): T | undefined;
+  getJSON<T = unknown>(key: string, defaultValue?: T, schema?: JSONConfigSchema<T>, options: ConfigReadOptions = {}): T | undefined {
+    return this.getTypedConfig(key, (raw) => decodeJSONConfig<T>(raw, schema), defaultValue, options);
+  }
+
+  /**
+   * Decode the override, then the remote value, then the configured default, then use the fallback
+   * Only a valid remote value counts as an exposure
+   */
+  private getTypedConfig<T>(
+    key: string,
+    decode: (raw: string | undefined) => ConfigDecodeResult<T>,
+    fallback: T | undefined,
+    options: ConfigReadOptions
+  ): T | undefined {
+    const override = this.configOverrides.get(key);
+    if (override) {
+      const result = decode(override.value);
+      if (isConfigDecodeError(result)) {
+        this.log(`Invalid override for config "${key}": ${result.error}`);
+      } else {
+        return result.value;
+      }
+    }
+
+    const remoteValue = this.configCache?.configurations?.[key];
+    if (remoteValue !== undefined) {
+      const result = decode(remoteValue);
+      if (isConfigDecodeError(result)) {
+        this.log(`Invalid value for config "${key}": ${result.error}`);
+      } else {
+        if (options.trackExposure !== false) {
+          this.trackConfigExposure(key);
+        }
+        return result.value;
+      }
+    }
+
+    const defaultValue = this.config.defaultConfigurations[key];
+    if (defaultValue !== undefined) {
+      const result = decode(defaultValue);
+      if (isConfigDecodeError(result)) {
+        this.log(`Invalid default for config "${key}": ${result.error}`);
+      } else {
+        return result.value;
+      }
+    }
+
+    return fallback;
+  }
+
+  /**
+   * Record that the user saw the current remote value of a config key
+   * Sent once per key, value and snapshot per session as `_grain_config_exposure`.
+   * Called automatically by getConfig() and useConfig(); use directly when a value
+   * is read without those (e.g. from getAllConfigs()).
+   */
+  trackConfigExposure(key: string): void {
+    try {
+      if (this.isDestroyed || !this.config.enableExposureTracking) return;
+      if (this.config.exposureExcludedKeys.includes(key)) return;
+      if (this.configOverrides.get(key)) return; // Overridden values weren't served by the backend
+
+      const cache = this.configCache;
+      const value = cache?.configurations?.[key];
+      if (!cache || value === undefined) return;
+
+      const exposures = this.loadTrackedExposures();
+      const exposureKey = `${key}|${cache.snapshotId}|${value}`;
+      if (exposures.has(exposureKey)) return;
+
+      exposures.add(exposureKey);
+      this.saveTrackedExposures(exposures);
+
+      this.trackSystemEvent('_grain_config_exposure', {
+        config_key: key,
+        config_value: value,
+        snapshot_id: cache.snapshotId,
+        rule_sets: cache.qualifiedRuleSets || [],
+        segments: cache.qualifiedSegments || [],
+        page: this.getCurrentPage() || (typeof window !== 'undefined' ? window.location.pathname : undefined),
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      const formattedError = this.formatError(error, 'trackConfigExposure');
+      this.logError(formattedError);
+    }
+  }
+
+  /**
+   * Exposures already recorded this session
+   * Persisted in sessionStorage so reloads don't record the same exposure again
+   */
+  private loadTrackedExposures(): Set<string> {
+    if (this.trackedExposures) return this.trackedExposures;
+
+    this.trackedExposures = new Set();
+    try {
+      const stored = typeof sessionStorage !== 'undefined'
+        ? sessionStorage.getItem(`_grain_exposures_${this.config.tenantId}`)
+        : null;
+      if (stored) {
+        this.trackedExposures = new Set(JSON.parse(stored));
+      }
+    } catch {
+      // sessionStorage unavailable - dedupe within this page only
+    }
+    return this.trackedExposures;
+  }
+
+  private saveTrackedExposures(exposures: Set<string>): void {
+    try {
+      if (typeof sessionStorage !== 'undefined') {
+        sessionStorage.setItem(`_grain_exposures_${this.config.tenantId}`, JSON.stringify([...exposures]));
+      }
+    } catch {
+      // Silent failure - dedupe within this page only
+    }
   }
 
   /**
@@ -1984,16 +3130,9 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       const immediateKeys = options.immediateKeys || [];
       const properties = options.properties || {};
       // Include currentUrl from options, or automatically get it from window.location if available
-      // Strip query parameters and hash to match backend normalization
-      let currentUrl = options.currentUrl ?? (typeof window !== 'undefined' ? window.location.href : undefined);
-      if (currentUrl) {
-        try {
-          const urlObj = new URL(currentUrl);
-          currentUrl = `${urlObj.protocol}//${urlObj.host}${urlObj.pathname}`;
-        } catch {
-          // If URL parsing fails, use as-is
-        }
-      }
+      const currentUrl = this.normalizeConfigUrl(
+        options.currentUrl ?? (typeof window !== 'undefined' ? window.location.href : undefined)
+      );
 
       const request: RemoteConfigRequest = {
         userId,
@@ -2001,6 +3140,16 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
         properties,
         currentUrl,
       };
+      this.lastConfigProperties = properties;
+
+      // Evaluate locally when a verified ruleset is loaded
+      if (!options.forceRefresh) {
+        const localResponse = this.evaluateConfigLocally(request);
+        if (localResponse) {
+          this.log('Evaluated configurations locally');
+          return localResponse;
+        }
+      }
 
       let lastError: unknown;
 
@@ -2075,11 +3224,103 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }
   }
 
+  /**
+   * Strip query parameters and hash to match backend normalization
+   */
+  private normalizeConfigUrl(url: string | undefined): string | undefined {
+    if (!url) return url;
+    try {
+      const urlObj = new URL(url);
+      return `${urlObj.protocol}//${urlObj.host}${urlObj.pathname}`;
+    } catch {
+      // If URL parsing fails, use as-is
+      return url;
+    }
+  }
+
+  /**
+   * Load the signed ruleset used to evaluate configs in the browser
+   */
+  private initializeLocalEvaluation(): void {
+    if (!this.config.enableLocalEvaluation || !this.config.ruleSigningKey || this.ruleEvaluationManager) return;
+    const signingKey = this.config.ruleSigningKey;
+
+    // Lazy load rule evaluation, it is only needed when enabled
+    import('./rule-evaluation').then(({ RuleEvaluationManager }) => {
+      try {
+        if (this.isDestroyed || this.ruleEvaluationManager) return;
+
+        this.ruleEvaluationManager = new RuleEvaluationManager(
+          {
+            getConfigBaseUrl: () => `${this.config.apiUrl}/v1/client/${encodeURIComponent(this.config.tenantId)}/config`,
+            getAuthHeaders: () => this.getAuthHeaders(),
+          },
+          { tenantId: this.config.tenantId, signingKey, debug: this.config.debug }
+        );
+
+        this.ruleEvaluationManager.load().then((ready: boolean) => {
+          if (ready) {
+            this.reevaluateConfigLocally();
+          }
+        });
+      } catch (error) {
+        this.log('Failed to initialize local evaluation:', error);
+      }
+    }).catch((error) => {
+      this.log('Failed to load local evaluation:', error);
+      // Fail silently - configs keep being evaluated by the server
+    });
+  }
+
+  /**
+   * Evaluate configs with the local ruleset and update the cache
+   * Returns null when no usable ruleset is loaded
+   */
+  private evaluateConfigLocally(request: RemoteConfigRequest): RemoteConfigResponse | null {
+    if (!this.ruleEvaluationManager || this.isDestroyed) return null;
+
+    const result = this.ruleEvaluationManager.evaluate(request);
+    if (!result) return null;
+
+    const response: RemoteConfigResponse = {
+      userId: request.userId,
+      snapshotId: result.snapshotId,
+      configurations: result.configurations,
+      isFinal: true,
+      qualifiedSegments: result.qualifiedSegments,
+      qualifiedRuleSets: result.qualifiedRuleSets,
+      timestamp: new Date().toISOString(),
+      isFromCache: false,
+    };
+    this.updateConfigCache(response, request.userId);
+    return response;
+  }
+
+  /**
+   * Re-evaluate configs for the current URL with the last requested properties
+   */
+  private reevaluateConfigLocally(): void {
+    if (!this.ruleEvaluationManager || typeof window === 'undefined') return;
+
+    this.evaluateConfigLocally({
+      userId: this.getEffectiveUserIdInternal(),
+      immediateKeys: [],
+      properties: this.lastConfigProperties,
+      currentUrl: this.normalizeConfigUrl(window.location.href),
+    });
+  }
+
   /**
    * Get configuration asynchronously (cache-first with fallback to API)
    */
   async getConfigAsync(key: string, options: RemoteConfigOptions = {}): Promise<string | undefined> {
     try {
+      // Overrides win even over a refresh
+      const override = this.configOverrides.get(key);
+      if (override) {
+        return override.value;
+      }
+
       // Return immediately if we have it in cache and not forcing refresh
       if (!options.forceRefresh && this.configCache?.configurations?.[key]) {
         return this.configCache.configurations[key];
@@ -2113,22 +3354,22 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     try {
       // Return cache if available and not forcing refresh
       if (!options.forceRefresh && this.configCache?.configurations) {
-        return { ...this.config.defaultConfigurations, ...this.configCache.configurations };
+        return this.withConfigOverrides({ ...this.config.defaultConfigurations, ...this.configCache.configurations });
       }
 
       // Fetch from API
       const response = await this.fetchConfig(options);
       if (response) {
-        return { ...this.config.defaultConfigurations, ...response.configurations };
+        return this.withConfigOverrides({ ...this.config.defaultConfigurations, ...response.configurations });
       }
       
       // Return defaults as fallback
-      return { ...this.config.defaultConfigurations };
+      return this.withConfigOverrides({ ...this.config.defaultConfigurations });
     } catch (error) {
       const formattedError = this.formatError(error, 'getAllConfigsAsync');
       this.logError(formattedError);
       // Return defaults as fallback
-      return { ...this.config.defaultConfigurations };
+      return this.withConfigOverrides({ ...this.config.defaultConfigurations });
     }
   }
 
@@ -2141,15 +3382,21 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       snapshotId: response.snapshotId,
       timestamp: response.timestamp,
       userId,
+      qualifiedSegments: response.qualifiedSegments,
+      qualifiedRuleSets: response.qualifiedRuleSets,
     };
 
     const oldConfigs = this.configCache?.configurations || {};
     this.configCache = newCache;
     this.saveConfigCache(newCache);
 
+    if (response.samplingConfig) {
+      this.samplingManager.updateRemoteRules(response.samplingConfig);
+    }
+
     // Notify listeners if configurations changed
     if (JSON.stringify(oldConfigs) !== JSON.stringify(response.configurations)) {
-      this.notifyConfigChangeListeners(response.configurations);
+      this.notifyConfigChangeListeners(this.withConfigOverrides(response.configurations));
     }
   }
 
@@ -2174,6 +3421,8 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    * Notify all configuration change listeners
    */
   private notifyConfigChangeListeners(configurations: Record<string, string>): void {
+    this.syncRemoteConsentMode();
+
     this.configChangeListeners.forEach(listener => {
       try {
         listener(configurations);
@@ -2204,6 +3453,82 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }, this.config.configRefreshInterval);
   }
 
+  /**
+   * Keep configurations up to date - streamed when configured, polled otherwise
+   */
+  private startConfigUpdates(): void {
+    if (this.config.configUpdateMode !== 'stream' || typeof window === 'undefined') {
+      this.startConfigRefreshTimer();
+      return;
+    }
+
+    if (this.configStreamManager) return;
+
+    // Lazy load the stream manager, it is only needed in streaming mode
+    import('./config-stream').then(({ ConfigStreamManager }) => {
+      try {
+        if (this.isDestroyed || this.configStreamManager) return;
+
+        this.configStreamManager = new ConfigStreamManager(
+          {
+            getConfigBaseUrl: () => `${this.config.apiUrl}/v1/client/${encodeURIComponent(this.config.tenantId)}/config`,
+            getStreamRequest: () => ({
+              userId: this.configCache?.userId || this.getEffectiveUserIdInternal(),
+              snapshotId: this.configCache?.snapshotId,
+              currentUrl: `${window.location.protocol}//${window.location.host}${window.location.pathname}`,
+            }),
+            getAuthHeaders: () => this.getAuthHeaders(),
+            applyConfigUpdate: (message: ConfigStreamMessage) => this.applyConfigUpdate(message),
+            onStreamUnavailable: () => {
+              if (!this.isDestroyed) {
+                this.startConfigRefreshTimer();
+              }
+            },
+          },
+          { debug: this.config.debug }
+        );
+
+        // Streamed updates replace polling
+        this.stopConfigRefreshTimer();
+        this.configStreamManager.start().catch((error: unknown) => {
+          this.log('Failed to start config stream, polling instead:', error);
+          this.startConfigRefreshTimer();
+        });
+      } catch (error) {
+        this.log('Failed to initialize config stream:', error);
+        this.startConfigRefreshTimer();
+      }
+    }).catch((error) => {
+      this.log('Failed to load config stream:', error);
+      this.startConfigRefreshTimer();
+    });
+  }
+
+  /**
+   * Merge a streamed config change into the cache and notify listeners
+   */
+  private applyConfigUpdate(message: ConfigStreamMessage): void {
+    if (this.isDestroyed) return;
+
+    const current = this.configCache;
+    const configurations = { ...(current?.configurations || {}), ...message.changed };
+    for (const key of message.removed || []) {
+      delete configurations[key];
+    }
+
+    const userId = current?.userId || this.getEffectiveUserIdInternal();
+    this.updateConfigCache({
+      userId,
+      snapshotId: message.snapshotId,
+      configurations,
+      isFinal: true,
+      qualifiedSegments: message.qualifiedSegments ?? current?.qualifiedSegments ?? [],
+      qualifiedRuleSets: message.qualifiedRuleSets ?? current?.qualifiedRuleSets ?? [],
+      timestamp: new Date().toISOString(),
+      isFromCache: false,
+    }, userId);
+  }
+
   /**
    * Stop automatic configuration refresh timer
    */
@@ -2225,8 +3550,9 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
 
       const response = await this.fetchConfig({ immediateKeys, properties });
       if (response) {
-        this.startConfigRefreshTimer();
+        this.startConfigUpdates();
       }
+      this.initializeLocalEvaluation();
     } catch (error) {
       const formattedError = this.formatError(error, 'preloadConfig');
       this.logError(formattedError);
@@ -2250,21 +3576,26 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    * Grant consent for tracking (v2.0)
    * Switches from cookieless mode to permanent IDs
    * @param categories - Optional array of consent categories (e.g., ['analytics', 'functional'])
+   * @param context - Optional UI surface and text version, recorded in the consent audit log
    */
-  grantConsent(categories?: string[]): void {
+  grantConsent(categories?: string[], context: ConsentContext = {}): void {
     try {
+      const previousState = this.consentManager.getConsentState();
       this.consentManager.grantConsent(categories);
       
       // Sync ID manager with consent state
       const idMode = this.consentManager.getIdMode();
       this.idManager.setMode(idMode);
+
+      // Recorded with the ID events carry from now on
+      this.recordConsentChange('grant', previousState, context, this.getEffectiveUserIdInternal());
       
       this.log('Consent granted, switched to permanent IDs', categories);
       
       // Process any queued events waiting for consent
       if (this.waitingForConsentQueue.length > 0) {
         this.log(`Processing ${this.waitingForConsentQueue.length} queued events`);
-        this.eventQueue.push(...this.waitingForConsentQueue);
+        this.enqueueEvents(this.waitingForConsentQueue);
         this.waitingForConsentQueue = [];
         this.flush();
       }
@@ -2278,10 +3609,15 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
    * Revoke consent for tracking (v2.0)
    * Switches from permanent IDs to cookieless mode
    * @param categories - Optional array of categories to revoke (if not provided, revokes all)
+   * @param context - Optional UI surface and text version, recorded in the consent audit log
    */
-  revokeConsent(categories?: string[]): void {
+  revokeConsent(categories?: string[], context: ConsentContext = {}): void {
     try {
+      const previousState = this.consentManager.getConsentState();
+      // Recorded with the ID the revoked data was collected under
+      const userId = this.getEffectiveUserIdInternal();
       this.consentManager.revokeConsent(categories);
+      this.recordConsentChange('revoke', previousState, context, userId);
       
       // Sync ID manager with consent state
       const idMode = this.consentManager.getIdMode();
@@ -2293,6 +3629,14 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       if (!this.consentManager.hasConsent()) {
         this.eventQueue = [];
         this.waitingForConsentQueue = [];
+        this.eventOutbox?.clear();
+      } else if (this.eventOutbox) {
+        // Events persisted under a revoked category must not be sent later
+        const revoked = categories ?? previousState?.categories ?? [];
+        const purged = new Set(this.eventOutbox.purge(revoked));
+        if (purged.size > 0) {
+          this.eventQueue = this.eventQueue.filter(event => !purged.has(event));
+        }
       }
     } catch (error) {
       const formattedError = this.formatError(error, 'revokeConsent');
@@ -2307,6 +3651,115 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     return this.consentManager.getConsentState();
   }
 
+  /**
+   * Get the consent category registry that drives the consent UI
+   */
+  getConsentCategories(): ConsentCategoryRegistry {
+    return this.consentCategoryRegistry;
+  }
+
+  /**
+   * Get the consent mode in effect for this visitor
+   */
+  getConsentMode(): ConsentMode {
+    return this.consentManager.getConsentMode();
+  }
+
+  /**
+   * Get the visitor's country code used to pick the consent mode, if resolved
+   */
+  getConsentRegion(): string | null {
+    return this.consentRegion;
+  }
+
+  /**
+   * Switch to the consent mode in the consentRegion remote config key, if set
+   * Only the server-delivered value counts - overrides and defaults never pick the consent mode
+   */
+  private syncRemoteConsentMode(): void {
+    const configKey = this.config.consentRegion?.configKey;
+    if (!configKey) return;
+
+    const mode = this.configCache?.configurations?.[configKey];
+    if (!isConsentMode(mode) || mode === this.consentManager.getConsentMode()) return;
+
+    this.log('Consent mode set by remote config:', mode);
+    this.consentManager.setConsentMode(mode);
+    // Listeners only run when a state remains, so sync IDs directly
+    this.idManager.setMode(this.consentManager.getIdMode());
+  }
+
+  /**
+   * Get the browser privacy signal (GPC or DNT) honored on this page, if any
+   */
+  getPrivacySignal(): PrivacySignal | null {
+    return this.consentManager.getPrivacySignal();
+  }
+
+  /**
+   * Check if the user is opted out by a GPC or DNT signal rather than their own choice
+   */
+  isOptedOutByPrivacySignal(): boolean {
+    return this.consentManager.isOptedOutBySignal();
+  }
+
+  /**
+   * Check if consent is owned by an external CMP through the consent bridge
+   * Grain's own consent UI should stay hidden when it is.
+   */
+  isConsentManagedExternally(): boolean {
+    return !!this.config.consentBridge?.source;
+  }
+
+  /**
+   * Get the latest IAB TCF consent string received from the CMP
+   */
+  getTCString(): string | null {
+    return this.consentBridge?.getTCString() ?? null;
+  }
+
+  /**
+   * Get the consent changes recorded on this device, oldest first
+   * Every entry is also sent to the consent audit endpoint as proof of consent.
+   */
+  getConsentAuditLog(): ConsentAuditEntry[] {
+    return this.consentAudit?.getEntries() ?? [];
+  }
+
+  /**
+   * Record a consent change in the audit log
+   */
+  private recordConsentChange(
+    action: ConsentAuditAction,
+    previousState: ConsentState | null,
+    context: ConsentContext,
+    userId: string
+  ): void {
+    if (!this.consentAudit) return;
+
+    try {
+      const state = this.consentManager.getConsentState();
+      this.consentAudit.record({
+        action,
+        granted: state?.granted ?? false,
+        categories: state?.categories ?? [],
+        previousCategories: previousState?.categories ?? [],
+        consentVersion: state?.version ?? CONSENT_VERSION,
+        consentMode: this.consentManager.getConsentMode(),
+        surface: context.surface,
+        textVersion: context.textVersion,
+        tcString: context.tcString,
+        userId,
+        pageUrl: typeof window !== 'undefined'
+          ? `${window.location.protocol}//${window.location.host}${window.location.pathname}`
+          : undefined,
+      });
+    } catch (error) {
+      this.log('Failed to record consent change:', error);
+      // Fail silently - consent itself was still applied
+    }
+  }
+
   /**
    * Check if user has granted consent
    * @param category - Optional category to check (if not provided, checks general consent)
@@ -2407,7 +3860,7 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       import('./debug-agent').then(({ DebugAgent }) => {
         try {
           this.debugAgent = new DebugAgent(
-            this,
+            this as GrainAnalytics, // Debug events are not part of the typed catalog
             sessionId,
             this.config.tenantId,
             this.config.apiUrl,
@@ -2427,6 +3880,26 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
     }
   }
 
+  /**
+   * Deliver all queued events, then destroy the client
+   * Unlike destroy(), this waits for delivery - call it before a Node.js process exits
+   */
+  async shutdown(): Promise<void> {
+    if (this.isDestroyed) return;
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    // Wait for in-flight flushes, then drain what is left
+    await Promise.all([...this.pendingFlushes]);
+    await this.flush();
+    await this.eventOutbox?.whenIdle();
+
+    this.destroy();
+  }
+
   /**
    * Destroy the client and clean up resources
    */
@@ -2438,8 +3911,31 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       this.flushTimer = null;
     }
 
-    // Stop config refresh timer
+    // Stop config refresh timer and stream
     this.stopConfigRefreshTimer();
+    if (this.configStreamManager) {
+      this.configStreamManager.destroy();
+      this.configStreamManager = null;
+    }
+    this.configOverrides.destroy();
+    if (this.ruleEvaluationManager) {
+      this.ruleEvaluationManager.destroy();
+      this.ruleEvaluationManager = null;
+    }
+
+    // Stop sending consent audit entries (pending entries are retried on the next load)
+    this.consentAudit?.destroy();
+    if (this.consentBridge) {
+      this.consentBridge.destroy();
+      this.consentBridge = null;
+    }
+
+    // Stop listening for connectivity changes (persisted events stay on disk)
+    if (this.onlineHandler && typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineHandler);
+      this.onlineHandler = null;
+    }
+    this.eventOutbox?.destroy();
 
     // Clear config change listeners
     this.configChangeListeners = [];
@@ -2475,6 +3971,21 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       this.heatmapTrackingManager.destroy();
       this.heatmapTrackingManager = null;
     }
+
+    if (this.sessionReplayManager) {
+      this.sessionReplayManager.destroy();
+      this.sessionReplayManager = null;
+    }
+
+    if (this.errorTrackingManager) {
+      this.errorTrackingManager.destroy();
+      this.errorTrackingManager = null;
+    }
+
+    if (this.webVitalsManager) {
+      this.webVitalsManager.destroy();
+      this.webVitalsManager = null;
+    }
     
     // Destroy debug agent
     if (this.debugAgent) {
@@ -2489,18 +4000,13 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
       
       const chunks = this.chunkEvents(eventsToSend, this.config.maxEventsPerRequest);
       
-      // Send first chunk with beacon (most important for page unload)
-      if (chunks.length > 0) {
-        this.sendEventsWithBeacon(chunks[0]).catch(() => {
-          // Silently fail during cleanup
-        });
-        
-        // If there are more chunks, try to send them with regular fetch
-        for (let i = 1; i < chunks.length; i++) {
-          this.sendEventsWithBeacon(chunks[i]).catch(() => {
+      // Send all chunks with beacon (undelivered chunks stay in the offline queue)
+      for (const chunk of chunks) {
+        this.sendEventsWithBeacon(chunk)
+          .then((delivered) => this.settleDelivery(chunk, delivered))
+          .catch(() => {
             // Silently fail during cleanup
           });
-        }
       }
     }
   }
@@ -2509,8 +4015,8 @@ export class GrainAnalytics implements HeartbeatTracker, PageTracker {
 /**
  * Create a new Grain Analytics client
  */
-export function createGrainAnalytics(config: GrainConfig): GrainAnalytics {
-  return new GrainAnalytics(config);
+export function createGrainAnalytics<TEvents extends object = UntypedEventCatalog>(config: GrainConfig): GrainAnalytics<TEvents> {
+  return new GrainAnalytics<TEvents>(config);
 }
 
 // Default export for convenience
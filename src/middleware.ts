@@ -0,0 +1,93 @@
+/**
+ * Event Middleware for Grain Analytics
+ * Runs a chain of functions between track() and enqueueing
+ *
+ * Each middleware receives the formatted event and may:
+ * - return it unchanged or enriched
+ * - return a rewritten copy
+ * - return null to drop the event
+ *
+ * Middleware runs for custom events and for system events (_grain_*).
+ *
+ * A middleware that throws drops the event by default, so a failing redaction
+ * step never lets the unredacted event through. Set the failure mode to
+ * 'skip' to send the event on without that middleware instead.
+ */
+
+import type { EventPayload } from './index';
+
+export interface MiddlewareContext {
+  isSystemEvent: boolean; // True for events emitted through trackSystemEvent
+  hasConsent: boolean; // Analytics consent at the time of tracking
+}
+
+// What happens to an event when a middleware throws
+export type MiddlewareFailureMode = 'drop' | 'skip';
+
+export type EventMiddleware = (
+  event: EventPayload,
+  context: MiddlewareContext
+) => EventPayload | null;
+
+export class MiddlewarePipeline {
+  private middleware: EventMiddleware[] = [];
+  private debug: boolean;
+  private failureMode: MiddlewareFailureMode;
+
+  constructor(middleware: EventMiddleware[] = [], debug = false, failureMode: MiddlewareFailureMode = 'drop') {
+    this.middleware = [...middleware];
+    this.debug = debug;
+    this.failureMode = failureMode;
+  }
+
+  /**
+   * Append a middleware to the end of the chain
+   */
+  use(middleware: EventMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Remove a middleware from the chain
+   */
+  remove(middleware: EventMiddleware): void {
+    const index = this.middleware.indexOf(middleware);
+    if (index > -1) {
+      this.middleware.splice(index, 1);
+    }
+  }
+
+  /**
+   * Run an event through the chain
+   * Returns null if any middleware dropped the event
+   */
+  run(event: EventPayload, context: MiddlewareContext): EventPayload | null {
+    let current: EventPayload = event;
+
+    for (const middleware of this.middleware) {
+      try {
+        const result = middleware(current, context);
+        if (!result) {
+          this.log(`Event dropped by middleware: ${current.eventName}`);
+          return null;
+        }
+        current = result;
+      } catch (error) {
+        if (this.failureMode === 'skip') {
+          this.log('Middleware error, skipping:', error);
+          continue;
+        }
+        console.error(`[Grain Analytics] Middleware error, dropping event "${current.eventName}":`, error);
+        return null;
+      }
+    }
+
+    return current;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.debug) {
+      console.log('[Middleware]', ...args);
+    }
+  }
+}
@@ -19,6 +19,7 @@ export interface PageTrackingConfig {
   stripHash?: boolean; // Default: false
   debug?: boolean;
   tenantId: string;
+  onPageChange?: (page: string) => void; // Called on SPA route changes (not on the landing page)
 }
 
 export interface PageTracker {
@@ -216,6 +217,16 @@ export class PageTrackingManager {
 
     // Track the page view event
     this.tracker.trackSystemEvent('page_view', properties);
+
+    if (!isLanding && this.config.onPageChange) {
+      try {
+        this.config.onPageChange(page);
+      } catch (error) {
+        if (this.config.debug) {
+          console.warn('[Page Tracking] Page change listener failed:', error);
+        }
+      }
+    }
   }
 
   /**
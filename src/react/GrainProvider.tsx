@@ -4,14 +4,24 @@
  * Supports two patterns:
  * 1. Provider-managed: Pass `config` prop, provider creates and manages client lifecycle
  * 2. External client: Pass `client` prop, user manages lifecycle
+ *
+ * Pass `bootstrap` from GrainServerAnalytics.getConfigBootstrap() to render
+ * server-fetched configurations on the first render, without a flicker.
+ * A provider-managed client is created with the bootstrap. An external client
+ * should be created with `bootstrapConfig` for the same effect - a bootstrap
+ * passed to the provider is applied to it before paint, after the first render.
  */
 
 import * as React from 'react';
 import { GrainAnalytics } from '../index';
 import { GrainContext } from './context';
+import type { ConfigBootstrap } from '../index';
 import type { GrainProviderProps } from './types';
 
-export function GrainProvider({ children, client, config }: GrainProviderProps) {
+// useLayoutEffect warns during server rendering, where neither effect runs
+const useIsomorphicLayoutEffect = typeof window !== 'undefined' ? React.useLayoutEffect : React.useEffect;
+
+export function GrainProvider({ children, client, config, bootstrap }: GrainProviderProps) {
   // Validate props
   if (client && config) {
     throw new Error(
@@ -29,10 +39,15 @@ export function GrainProvider({ children, client, config }: GrainProviderProps)
 
   const isProviderManaged = Boolean(config);
   const clientRef = React.useRef<GrainAnalytics | null>(null);
+  const hydratedBootstrapRef = React.useRef<ConfigBootstrap | null>(null);
 
   // Initialize client if config is provided
   if (isProviderManaged && !clientRef.current && config) {
-    clientRef.current = new GrainAnalytics(config);
+    clientRef.current = new GrainAnalytics({
+      ...config,
+      bootstrapConfig: bootstrap ?? config.bootstrapConfig,
+    });
+    hydratedBootstrapRef.current = bootstrap ?? null;
   }
 
   // Use external client if provided
@@ -42,6 +57,14 @@ export function GrainProvider({ children, client, config }: GrainProviderProps)
     throw new Error('GrainProvider: Failed to initialize client');
   }
 
+  // Hydrate outside render: config listeners update other components' state
+  useIsomorphicLayoutEffect(() => {
+    if (bootstrap && hydratedBootstrapRef.current !== bootstrap) {
+      hydratedBootstrapRef.current = bootstrap;
+      activeClient.hydrateConfig(bootstrap);
+    }
+  }, [activeClient, bootstrap]);
+
   // Cleanup on unmount (only for provider-managed clients)
   React.useEffect(() => {
     return () => {
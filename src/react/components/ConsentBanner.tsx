@@ -4,12 +4,14 @@
  */
 
 import * as React from 'react';
-import { useGrainAnalytics } from '../hooks/useGrainAnalytics';
+import { useConsentBanner } from '../hooks/useConsentBanner';
 
 export interface ConsentBannerProps {
   position?: 'top' | 'bottom' | 'center';
   theme?: 'light' | 'dark' | 'glass';
   customText?: string;
+  textVersion?: string; // Version of customText, recorded as proof of consent (default: version of the localized text)
+  locale?: string; // Locale of the copy, from the client's consentLocales (default: <html lang> or the browser language)
   onAccept?: () => void;
   onDecline?: () => void;
   showPreferences?: boolean;
@@ -20,51 +22,18 @@ export function ConsentBanner({
   position = 'bottom',
   theme = 'glass',
   customText,
+  textVersion,
+  locale,
   onAccept,
   onDecline,
   showPreferences = false,
   privacyPolicyUrl,
 }: ConsentBannerProps) {
-  const client = useGrainAnalytics();
-  const [visible, setVisible] = React.useState(false);
+  const banner = useConsentBanner({ locale, customText, textVersion, onAccept, onDecline });
+  const { ui } = banner;
   const [showPreferencesModal, setShowPreferencesModal] = React.useState(false);
 
-  React.useEffect(() => {
-    if (!client) return;
-
-    // Check if user has already made a consent decision
-    const consentState = client.getConsentState();
-    if (!consentState) {
-      setVisible(true);
-    }
-  }, [client]);
-
-  const handleAccept = () => {
-    if (client) {
-      client.grantConsent(['necessary', 'analytics', 'functional']);
-    }
-    setVisible(false);
-    onAccept?.();
-  };
-
-  const handleDecline = () => {
-    if (client) {
-      client.revokeConsent();
-    }
-    setVisible(false);
-    onDecline?.();
-  };
-
-  const handleEscape = (e: React.KeyboardEvent) => {
-    if (e.key === 'Escape') {
-      handleDecline();
-    }
-  };
-
-  if (!visible) return null;
-
-  const defaultText = customText || 
-    "We use cookies and similar technologies to improve your experience. By accepting, you consent to our use of analytics and functional cookies.";
+  if (!banner.isVisible) return null;
 
   // Position styles
   const positionStyles = {
@@ -94,18 +63,15 @@ export function ConsentBanner({
 
   return (
     <div
-      className={`fixed z-50 max-w-2xl ${positionStyles[position]}`}
-      onKeyDown={handleEscape}
-      role="dialog"
-      aria-labelledby="consent-title"
-      aria-describedby="consent-description"
-    >
+      className={`fixed z-50 max-w-2xl outline-none ${positionStyles[position]}`}
+      {...banner.getDialogProps()}
+>
       <div className={`rounded-lg shadow-2xl border p-6 transition-all ${themeStyles[theme]}`}>
         <h2 id="consent-title" className="text-lg font-semibold mb-2">
-          Cookie Consent
+          {ui.messages.bannerTitle}
         </h2>
         <p id="consent-description" className="text-sm opacity-80 mb-4">
-          {defaultText}
+          {banner.text}
         </p>
 
         {privacyPolicyUrl && (
@@ -115,35 +81,35 @@ export function ConsentBanner({
             rel="noopener noreferrer"
             className="text-sm underline opacity-70 hover:opacity-100 transition-opacity block mb-4"
           >
-            Read our Privacy Policy
+            {ui.messages.privacyPolicy}
           </a>
         )}
 
         <div className="flex flex-wrap gap-2">
           <button
-            onClick={handleAccept}
+            onClick={banner.acceptAll}
             className={`px-4 py-2 rounded-lg font-medium transition-all ${buttonAcceptStyles[theme]}`}
-            aria-label="Accept cookies"
+            aria-label={ui.messages.acceptAllLabel}
           >
-            Accept All
+            {ui.messages.acceptAll}
           </button>
           <button
-            onClick={handleDecline}
+            onClick={banner.rejectAll}
             className={`px-4 py-2 rounded-lg font-medium transition-all ${buttonDeclineStyles[theme]}`}
-            aria-label="Decline cookies"
+            aria-label={ui.messages.declineLabel}
           >
-            Decline
+            {ui.messages.decline}
           </button>
           {showPreferences && (
             <button
               onClick={() => setShowPreferencesModal(true)}
               className={`px-4 py-2 rounded-lg font-medium transition-all ${buttonDeclineStyles[theme]}`}
-              aria-label="Manage preferences"
+              aria-label={ui.messages.managePreferencesLabel}
             >
-              Manage Preferences
+              {ui.messages.managePreferences}
             </button>
           )}
-          <kbd className="ml-auto px-2 py-1 bg-zinc-900/50 border border-zinc-800 rounded text-[10px] font-mono self-center">
+          <kbd className="ms-auto px-2 py-1 bg-zinc-900/50 border border-zinc-800 rounded text-[10px] font-mono self-center">
             ESC
           </kbd>
         </div>
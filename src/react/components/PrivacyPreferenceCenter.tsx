@@ -4,111 +4,47 @@
  */
 
 import * as React from 'react';
-import { useGrainAnalytics } from '../hooks/useGrainAnalytics';
+import { usePreferenceCenter } from '../hooks/usePreferenceCenter';
 
 export interface PrivacyPreferenceCenterProps {
   isOpen: boolean;
   onClose: () => void;
   onSave?: (categories: string[]) => void;
+  textVersion?: string; // Version of the category descriptions, recorded as proof of consent (default: version of the localized text)
+  locale?: string; // Locale of the copy, from the client's consentLocales (default: <html lang> or the browser language)
 }
 
-interface CategoryPreference {
-  id: string;
-  name: string;
-  description: string;
-  required: boolean;
-}
-
-const CATEGORIES: CategoryPreference[] = [
-  {
-    id: 'necessary',
-    name: 'Necessary',
-    description: 'Essential for the website to function properly. Cannot be disabled.',
-    required: true,
-  },
-  {
-    id: 'analytics',
-    name: 'Analytics',
-    description: 'Help us understand how visitors interact with our website.',
-    required: false,
-  },
-  {
-    id: 'functional',
-    name: 'Functional',
-    description: 'Enable enhanced functionality and personalization.',
-    required: false,
-  },
-];
-
 export function PrivacyPreferenceCenter({
   isOpen,
   onClose,
   onSave,
+  textVersion,
+  locale,
 }: PrivacyPreferenceCenterProps) {
-  const client = useGrainAnalytics();
-  const [selectedCategories, setSelectedCategories] = React.useState<string[]>(['necessary']);
-
-  React.useEffect(() => {
-    if (!client) return;
-
-    const consentState = client.getConsentState();
-    if (consentState) {
-      setSelectedCategories(consentState.categories);
-    }
-  }, [client, isOpen]);
-
-  const handleToggle = (categoryId: string, required: boolean) => {
-    if (required) return; // Cannot toggle required categories
-
-    setSelectedCategories((prev) =>
-      prev.includes(categoryId)
-        ? prev.filter((id) => id !== categoryId)
-        : [...prev, categoryId]
-    );
-  };
-
-  const handleSave = () => {
-    if (client) {
-      if (selectedCategories.length > 0) {
-        client.grantConsent(selectedCategories);
-      } else {
-        client.revokeConsent();
-      }
-    }
-    onSave?.(selectedCategories);
-    onClose();
-  };
-
-  const handleEscape = (e: React.KeyboardEvent) => {
-    if (e.key === 'Escape') {
-      onClose();
-    }
-  };
+  const center = usePreferenceCenter({ isOpen, onClose, onSave, locale, textVersion });
+  const { ui } = center;
 
   if (!isOpen) return null;
 
   return (
     <div
-      className="fixed inset-0 z-50 flex items-center justify-center"
-      onKeyDown={handleEscape}
-      role="dialog"
-      aria-labelledby="preferences-title"
-      aria-modal="true"
+      className="fixed inset-0 z-50 flex items-center justify-center outline-none"
+      {...center.getDialogProps()}
     >
       {/* Backdrop */}
       <div
         className="fixed inset-0 bg-zinc-950/80 backdrop-blur-sm"
-        onClick={onClose}
+        onClick={center.close}
       />
 
       {/* Modal */}
       <div className="relative bg-zinc-950/95 border border-zinc-800/60 backdrop-blur-xl rounded-lg shadow-2xl max-w-2xl w-full mx-4 p-6">
         <h2 id="preferences-title" className="text-xl font-semibold text-zinc-100 mb-4">
-          Privacy Preferences
+          {ui.messages.preferencesTitle}
         </h2>
 
         <div className="space-y-4 mb-6">
-          {CATEGORIES.map((category) => (
+          {center.categories.map((category) => (
             <div
               key={category.id}
               className="p-4 bg-zinc-900/40 border border-zinc-800/40 rounded-lg"
@@ -118,20 +54,43 @@ export function PrivacyPreferenceCenter({
                   <h3 className="font-medium text-zinc-200 mb-1">
                     {category.name}
                     {category.required && (
-                      <span className="ml-2 text-xs text-emerald-500">(Required)</span>
+                      <span className="ms-2 text-xs text-emerald-500">{ui.messages.required}</span>
                     )}
                   </h3>
                   <p className="text-sm text-zinc-400">{category.description}</p>
+                  {category.vendors.length > 0 && (
+                    <div className="mt-2 text-xs text-zinc-500">
+                      <span className="font-medium">{ui.messages.vendors}:</span>{' '}
+                      {category.vendors.map((vendor, index) => (
+                        <React.Fragment key={vendor.name}>
+                          {index > 0 && ', '}
+                          {vendor.privacyPolicyUrl ? (
+                            <a
+                              href={vendor.privacyPolicyUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline hover:text-zinc-300"
+                              title={vendor.purpose}
+                            >
+                              {vendor.name}
+                            </a>
+                          ) : (
+                            <span title={vendor.purpose}>{vendor.name}</span>
+                          )}
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <label className="relative inline-flex items-center cursor-pointer">
                   <input
                     type="checkbox"
-                    checked={selectedCategories.includes(category.id)}
-                    onChange={() => handleToggle(category.id, category.required)}
+                    checked={category.selected}
+                    onChange={() => center.toggleCategory(category.id)}
                     disabled={category.required}
                     className="sr-only peer"
                   />
-                  <div className="w-11 h-6 bg-zinc-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-600"></div>
+                  <div className="w-11 h-6 bg-zinc-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full rtl:peer-checked:after:-translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:start-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-emerald-600"></div>
                 </label>
               </div>
             </div>
@@ -140,19 +99,19 @@ export function PrivacyPreferenceCenter({
 
         <div className="flex justify-end gap-2">
           <button
-            onClick={onClose}
+            onClick={center.close}
             className="px-4 py-2 bg-zinc-900/60 hover:bg-zinc-800/60 text-zinc-300 border border-zinc-800/60 rounded-lg font-medium transition-all"
           >
-            Cancel
-            <kbd className="ml-2 px-2 py-0.5 bg-zinc-900/50 border border-zinc-800 rounded text-[10px] font-mono">
+            {ui.messages.cancel}
+            <kbd className="ms-2 px-2 py-0.5 bg-zinc-900/50 border border-zinc-800 rounded text-[10px] font-mono">
               ESC
             </kbd>
           </button>
           <button
-            onClick={handleSave}
+            onClick={center.saveSelection}
             className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 text-white rounded-lg font-medium transition-all"
           >
-            Save Preferences
+            {ui.messages.save}
           </button>
         </div>
       </div>
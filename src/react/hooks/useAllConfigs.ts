@@ -32,7 +32,8 @@ export function useAllConfigs(options: UseAllConfigsOptions = {}): UseAllConfigs
       });
 
       if (isMountedRef.current && response) {
-        setConfigs(response.configurations);
+        // Read through the client so local overrides keep precedence
+        setConfigs(client.getAllConfigs());
       }
     } catch (err) {
       if (isMountedRef.current) {
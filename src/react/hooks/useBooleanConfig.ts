@@ -0,0 +1,26 @@
+/**
+ * useBooleanConfig - Cache-first boolean config access with automatic background refresh
+ * 
+ * Same refresh behavior as useConfig, decoded with client.getBoolean().
+ * Invalid remote values fall back to the configured default, then to defaultValue.
+ */
+
+import * as React from 'react';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import { useConfig } from './useConfig';
+import type { UseConfigOptions, UseTypedConfigResult } from '../types';
+
+export function useBooleanConfig(key: string, defaultValue: boolean, options?: UseConfigOptions): UseTypedConfigResult<boolean>;
+export function useBooleanConfig(key: string, defaultValue?: boolean, options?: UseConfigOptions): UseTypedConfigResult<boolean | undefined>;
+export function useBooleanConfig(key: string, defaultValue?: boolean, options: UseConfigOptions = {}): UseTypedConfigResult<boolean | undefined> {
+  const client = useGrainAnalytics();
+  const { value: rawValue, isRefreshing, error, refresh } = useConfig(key, options);
+
+  // rawValue changes whenever the cached value does
+  const value = React.useMemo(
+    () => client.getBoolean(key, defaultValue, { trackExposure: false }),
+    [client, key, rawValue, defaultValue]
+  );
+
+  return { value, isRefreshing, error, refresh };
+}
@@ -13,7 +13,8 @@ export function useConfig(key: string, options: UseConfigOptions = {}): UseConfi
   const client = useGrainAnalytics();
   
   // Get initial value from cache/defaults (synchronous, instant)
-  const [value, setValue] = React.useState<string | undefined>(() => client.getConfig(key));
+  // Exposure is recorded in an effect once the value is actually rendered
+  const [value, setValue] = React.useState<string | undefined>(() => client.getConfig(key, { trackExposure: false }));
   const [isRefreshing, setIsRefreshing] = React.useState(false);
   const [error, setError] = React.useState<Error | null>(null);
   const isMountedRef = React.useRef(true);
@@ -33,7 +34,8 @@ export function useConfig(key: string, options: UseConfigOptions = {}): UseConfi
       });
 
       if (isMountedRef.current && response) {
-        const newValue = response.configurations[key];
+        // Read through the client so local overrides keep precedence
+        const newValue = client.getConfig(key, { trackExposure: false });
         if (newValue !== undefined) {
           setValue(newValue);
         }
@@ -74,6 +76,13 @@ export function useConfig(key: string, options: UseConfigOptions = {}): UseConfi
     };
   }, [client, key]);
 
+  // Record an exposure whenever a new value is rendered
+  React.useEffect(() => {
+    if (value !== undefined && options.trackExposure !== false) {
+      client.trackConfigExposure(key);
+    }
+  }, [client, key, value, options.trackExposure]);
+
   // Track mount state
   React.useEffect(() => {
     isMountedRef.current = true;
@@ -84,6 +93,7 @@ export function useConfig(key: string, options: UseConfigOptions = {}): UseConfi
 
   return {
     value,
+    source: client.getConfigSource(key),
     isRefreshing,
     error,
     refresh,
@@ -6,6 +6,7 @@
 import * as React from 'react';
 import { useGrainAnalytics } from './useGrainAnalytics';
 import type { ConsentState, ConsentMode } from '../../consent';
+import type { ConsentContext } from '../../consent-audit';
 
 export function useConsent() {
   const client = useGrainAnalytics();
@@ -31,18 +32,18 @@ export function useConsent() {
   }, [client]);
 
   const grantConsent = React.useCallback(
-    (categories?: string[]) => {
+    (categories?: string[], context?: ConsentContext) => {
       if (client) {
-        client.grantConsent(categories);
+        client.grantConsent(categories, context);
       }
     },
     [client]
   );
 
   const revokeConsent = React.useCallback(
-    (categories?: string[]) => {
+    (categories?: string[], context?: ConsentContext) => {
       if (client) {
-        client.revokeConsent(categories);
+        client.revokeConsent(categories, context);
       }
     },
     [client]
@@ -76,10 +77,17 @@ export function useConsentMode(): ConsentMode | null {
 
   React.useEffect(() => {
     if (!client) return;
-    // Access internal consent manager via client methods
-    // This is a simplified version - mode doesn't change at runtime
-    const config = (client as any).config;
-    setMode(config?.consentMode ?? 'cookieless');
+    setMode(client.getConsentMode());
+
+    // The mode can change at runtime when a remote config picks it for the visitor's region
+    const listener = () => setMode(client.getConsentMode());
+    client.onConsentChange(listener);
+    client.addConfigChangeListener(listener);
+
+    return () => {
+      client.offConsentChange(listener);
+      client.removeConfigChangeListener(listener);
+    };
   }, [client]);
 
   return mode;
@@ -0,0 +1,103 @@
+/**
+ * useConsentBanner - Headless consent banner
+ * State, actions and keyboard handling of ConsentBanner without any markup,
+ * so a custom banner keeps the same consent and audit behavior
+ *
+ * @example
+ * ```tsx
+ * const banner = useConsentBanner();
+ * if (!banner.isVisible) return null;
+ * return (
+ *   <div {...banner.getDialogProps()}>
+ *     <h2 id="consent-title">{banner.ui.messages.bannerTitle}</h2>
+ *     <p id="consent-description">{banner.text}</p>
+ *     <button onClick={banner.acceptAll}>{banner.ui.messages.acceptAll}</button>
+ *     <button onClick={banner.rejectAll}>{banner.ui.messages.decline}</button>
+ *   </div>
+ * );
+ * ```
+ */
+
+import * as React from 'react';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import { useConsentSelection } from './useConsentSelection';
+import { useFocusTrap } from './useFocusTrap';
+import type { UseConsentBannerOptions, UseConsentBannerResult } from '../types';
+
+export function useConsentBanner({
+  locale,
+  customText,
+  textVersion,
+  onAccept,
+  onDecline,
+  onSave,
+}: UseConsentBannerOptions = {}): UseConsentBannerResult {
+  const client = useGrainAnalytics();
+  const [isVisible, setVisible] = React.useState(false);
+  const selection = useConsentSelection({ surface: 'consent_banner', locale, textVersion, customText });
+
+  React.useEffect(() => {
+    // An external CMP owns the consent UI
+    if (!client || client.isConsentManagedExternally()) return;
+
+    // Check if user has already made a consent decision
+    const consentState = client.getConsentState();
+    if (!consentState) {
+      setVisible(true);
+    }
+  }, [client]);
+
+  const acceptAll = React.useCallback(() => {
+    selection.acceptAll();
+    setVisible(false);
+    onAccept?.();
+  }, [selection.acceptAll, onAccept]);
+
+  const rejectAll = React.useCallback(() => {
+    selection.rejectAll();
+    setVisible(false);
+    onDecline?.();
+  }, [selection.rejectAll, onDecline]);
+
+  const saveSelection = React.useCallback(() => {
+    selection.saveSelection();
+    setVisible(false);
+    onSave?.(selection.selectedCategories);
+  }, [selection.saveSelection, selection.selectedCategories, onSave]);
+
+  const reopen = React.useCallback(() => {
+    if (client?.isConsentManagedExternally()) return;
+    selection.resetSelection();
+    setVisible(true);
+  }, [client, selection.resetSelection]);
+
+  // Escape declines, like the built-in banner
+  const focusTrap = useFocusTrap<HTMLDivElement>(isVisible, rejectAll);
+
+  const getDialogProps = React.useCallback(() => ({
+    ref: focusTrap.ref,
+    role: 'dialog' as const,
+    'aria-modal': true as const,
+    'aria-labelledby': 'consent-title',
+    'aria-describedby': 'consent-description',
+    dir: selection.ui.direction,
+    lang: selection.ui.locale,
+    tabIndex: -1 as const,
+    onKeyDown: focusTrap.onKeyDown,
+  }), [focusTrap.ref, focusTrap.onKeyDown, selection.ui]);
+
+  return {
+    ui: selection.ui,
+    categories: selection.categories,
+    selectedCategories: selection.selectedCategories,
+    toggleCategory: selection.toggleCategory,
+    setCategory: selection.setCategory,
+    acceptAll,
+    rejectAll,
+    saveSelection,
+    isVisible,
+    text: customText || selection.ui.messages.bannerText,
+    reopen,
+    getDialogProps,
+  };
+}
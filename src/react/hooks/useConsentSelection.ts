@@ -0,0 +1,105 @@
+/**
+ * useConsentSelection - Category selection and consent actions shared by
+ * useConsentBanner and usePreferenceCenter
+ */
+
+import * as React from 'react';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import { ConsentCategoryRegistry } from '../../consent-categories';
+import type { ConsentContext } from '../../consent-audit';
+import type { ConsentSelection } from '../types';
+
+export interface ConsentSelectionOptions {
+  surface: string; // Recorded in the consent audit log
+  locale?: string;
+  textVersion?: string;
+  customText?: string; // Custom copy without a textVersion is recorded without one
+}
+
+export function useConsentSelection({
+  surface,
+  locale,
+  textVersion,
+  customText,
+}: ConsentSelectionOptions): ConsentSelection & { resetSelection: () => void } {
+  const client = useGrainAnalytics();
+
+  const ui = React.useMemo(
+    () => (client?.getConsentCategories() ?? new ConsentCategoryRegistry()).localize(locale),
+    [client, locale]
+  );
+  const requiredCategories = React.useMemo(
+    () => ui.categories.filter((category) => category.required).map((category) => category.id),
+    [ui]
+  );
+  const [selectedCategories, setSelectedCategories] = React.useState<string[]>(requiredCategories);
+
+  const resetSelection = React.useCallback(() => {
+    const consentState = client?.getConsentState();
+    // Required categories are always on
+    setSelectedCategories(consentState ? [
+      ...requiredCategories,
+      ...consentState.categories.filter((id) => !requiredCategories.includes(id)),
+    ] : requiredCategories);
+  }, [client, requiredCategories]);
+
+  React.useEffect(() => {
+    resetSelection();
+  }, [resetSelection]);
+
+  const context = React.useMemo<ConsentContext>(() => ({
+    surface,
+    textVersion: textVersion ?? (customText ? undefined : ui.textVersion),
+  }), [surface, textVersion, customText, ui]);
+
+  const setCategory = React.useCallback((categoryId: string, selected: boolean) => {
+    if (requiredCategories.includes(categoryId)) return;
+
+    setSelectedCategories((prev) => {
+      const without = prev.filter((id) => id !== categoryId);
+      return selected ? [...without, categoryId] : without;
+    });
+  }, [requiredCategories]);
+
+  const toggleCategory = React.useCallback((categoryId: string) => {
+    setCategory(categoryId, !selectedCategories.includes(categoryId));
+  }, [setCategory, selectedCategories]);
+
+  const acceptAll = React.useCallback(() => {
+    const all = ui.categories.map((category) => category.id);
+    client?.grantConsent(all, context);
+    setSelectedCategories(all);
+  }, [client, ui, context]);
+
+  const rejectAll = React.useCallback(() => {
+    client?.revokeConsent(undefined, context);
+    setSelectedCategories(requiredCategories);
+  }, [client, context, requiredCategories]);
+
+  const saveSelection = React.useCallback(() => {
+    if (!client) return;
+
+    if (selectedCategories.length > 0) {
+      client.grantConsent(selectedCategories, context);
+    } else {
+      client.revokeConsent(undefined, context);
+    }
+  }, [client, selectedCategories, context]);
+
+  const categories = React.useMemo(
+    () => ui.categories.map((category) => ({ ...category, selected: selectedCategories.includes(category.id) })),
+    [ui, selectedCategories]
+  );
+
+  return {
+    ui,
+    categories,
+    selectedCategories,
+    toggleCategory,
+    setCategory,
+    acceptAll,
+    rejectAll,
+    saveSelection,
+    resetSelection,
+  };
+}
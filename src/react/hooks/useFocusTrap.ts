@@ -0,0 +1,64 @@
+/**
+ * useFocusTrap - Keep keyboard focus inside a dialog while it is open
+ * Focuses the first focusable element on open, cycles Tab/Shift+Tab inside
+ * the container, calls onEscape on Escape and restores focus on close.
+ */
+
+import * as React from 'react';
+
+const FOCUSABLE_SELECTOR = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+export function useFocusTrap<T extends HTMLElement = HTMLDivElement>(active: boolean, onEscape?: () => void) {
+  const ref = React.useRef<T>(null);
+  const onEscapeRef = React.useRef(onEscape);
+  onEscapeRef.current = onEscape;
+
+  React.useEffect(() => {
+    if (!active || typeof document === 'undefined') return;
+
+    const previousFocus = document.activeElement as HTMLElement | null;
+    const container = ref.current;
+    const first = container?.querySelector<HTMLElement>(FOCUSABLE_SELECTOR);
+    (first ?? container)?.focus();
+
+    return () => {
+      // Return focus to whatever opened the dialog
+      previousFocus?.focus?.();
+    };
+  }, [active]);
+
+  const onKeyDown = React.useCallback((event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onEscapeRef.current?.();
+      return;
+    }
+
+    if (event.key !== 'Tab' || !ref.current) return;
+
+    const focusable = Array.from(ref.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+    if (focusable.length === 0) {
+      event.preventDefault();
+      return;
+    }
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (event.shiftKey && document.activeElement === first) {
+      event.preventDefault();
+      last.focus();
+    } else if (!event.shiftKey && document.activeElement === last) {
+      event.preventDefault();
+      first.focus();
+    }
+  }, []);
+
+  return { ref, onKeyDown };
+}
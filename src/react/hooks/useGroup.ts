@@ -0,0 +1,24 @@
+/**
+ * useGroup - Get a stable, memoized group function
+ * 
+ * Returns a group function that doesn't cause re-renders when passed to child components.
+ * Events tracked after calling it carry the group membership (company, workspace, team).
+ */
+
+import * as React from 'react';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import type { GroupFunction } from '../types';
+
+export function useGroup(): GroupFunction {
+  const client = useGrainAnalytics();
+
+  // Create stable group function that won't change across renders
+  const group = React.useCallback<GroupFunction>(
+    async (groupType, groupId, traits) => {
+      await client.group(groupType, groupId, traits);
+    },
+    [client]
+  );
+
+  return group;
+}
@@ -0,0 +1,33 @@
+/**
+ * useJSONConfig - Cache-first JSON config access with automatic background refresh
+ * 
+ * Same refresh behavior as useConfig, decoded with client.getJSON().
+ * The parsed value keeps its identity until the config changes, so it is safe in effect dependencies.
+ */
+
+import * as React from 'react';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import { useConfig } from './useConfig';
+import type { UseJSONConfigOptions, UseTypedConfigResult } from '../types';
+
+export function useJSONConfig<T = unknown>(key: string, defaultValue: T, options?: UseJSONConfigOptions<T>): UseTypedConfigResult<T>;
+export function useJSONConfig<T = unknown>(key: string, defaultValue?: T, options?: UseJSONConfigOptions<T>): UseTypedConfigResult<T | undefined>;
+export function useJSONConfig<T = unknown>(key: string, defaultValue?: T, options: UseJSONConfigOptions<T> = {}): UseTypedConfigResult<T | undefined> {
+  const client = useGrainAnalytics();
+  const { schema, ...configOptions } = options;
+  const { value: rawValue, isRefreshing, error, refresh } = useConfig(key, configOptions);
+
+  // Inline schemas and defaults are new objects every render - read them from refs
+  const schemaRef = React.useRef(schema);
+  schemaRef.current = schema;
+  const defaultValueRef = React.useRef(defaultValue);
+  defaultValueRef.current = defaultValue;
+
+  // rawValue changes whenever the cached value does
+  const value = React.useMemo(
+    () => client.getJSON<T>(key, defaultValueRef.current, schemaRef.current, { trackExposure: false }),
+    [client, key, rawValue]
+  );
+
+  return { value, isRefreshing, error, refresh };
+}
@@ -0,0 +1,27 @@
+/**
+ * useNumberConfig - Cache-first numeric config access with automatic background refresh
+ * 
+ * Same refresh behavior as useConfig, decoded with client.getNumber().
+ * Invalid or out-of-range remote values fall back to the configured default, then to defaultValue.
+ */
+
+import * as React from 'react';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import { useConfig } from './useConfig';
+import type { UseNumberConfigOptions, UseTypedConfigResult } from '../types';
+
+export function useNumberConfig(key: string, defaultValue: number, options?: UseNumberConfigOptions): UseTypedConfigResult<number>;
+export function useNumberConfig(key: string, defaultValue?: number, options?: UseNumberConfigOptions): UseTypedConfigResult<number | undefined>;
+export function useNumberConfig(key: string, defaultValue?: number, options: UseNumberConfigOptions = {}): UseTypedConfigResult<number | undefined> {
+  const client = useGrainAnalytics();
+  const { min, max, integer, ...configOptions } = options;
+  const { value: rawValue, isRefreshing, error, refresh } = useConfig(key, configOptions);
+
+  // rawValue changes whenever the cached value does
+  const value = React.useMemo(
+    () => client.getNumber(key, defaultValue, { min, max, integer, trackExposure: false }),
+    [client, key, rawValue, defaultValue, min, max, integer]
+  );
+
+  return { value, isRefreshing, error, refresh };
+}
@@ -0,0 +1,109 @@
+/**
+ * usePreferenceCenter - Headless privacy preference center
+ * State, category toggles and keyboard handling of PrivacyPreferenceCenter
+ * without any markup. Controlled with isOpen/onClose, or uncontrolled with open()/close().
+ *
+ * @example
+ * ```tsx
+ * const center = usePreferenceCenter();
+ * <button onClick={center.open}>Cookie settings</button>
+ * {center.isOpen && (
+ *   <div {...center.getDialogProps()}>
+ *     <h2 id="preferences-title">{center.ui.messages.preferencesTitle}</h2>
+ *     {center.categories.map((category) => (
+ *       <label key={category.id}>
+ *         <input
+ *           type="checkbox"
+ *           checked={category.selected}
+ *           disabled={category.required}
+ *           onChange={() => center.toggleCategory(category.id)}
+ *         />
+ *         {category.name}
+ *       </label>
+ *     ))}
+ *     <button onClick={center.saveSelection}>{center.ui.messages.save}</button>
+ *   </div>
+ * )}
+ * ```
+ */
+
+import * as React from 'react';
+import { useConsentSelection } from './useConsentSelection';
+import { useFocusTrap } from './useFocusTrap';
+import type { UsePreferenceCenterOptions, UsePreferenceCenterResult } from '../types';
+
+export function usePreferenceCenter({
+  isOpen: controlledOpen,
+  onClose,
+  onSave,
+  locale,
+  textVersion,
+}: UsePreferenceCenterOptions = {}): UsePreferenceCenterResult {
+  const [uncontrolledOpen, setUncontrolledOpen] = React.useState(false);
+  const isOpen = controlledOpen ?? uncontrolledOpen;
+  const selection = useConsentSelection({ surface: 'preference_center', locale, textVersion });
+  const { resetSelection } = selection;
+
+  // Start from the current consent every time the center opens
+  React.useEffect(() => {
+    if (isOpen) {
+      resetSelection();
+    }
+  }, [isOpen, resetSelection]);
+
+  const open = React.useCallback(() => {
+    setUncontrolledOpen(true);
+  }, []);
+
+  const close = React.useCallback(() => {
+    setUncontrolledOpen(false);
+    onClose?.();
+  }, [onClose]);
+
+  const acceptAll = React.useCallback(() => {
+    selection.acceptAll();
+    onSave?.(selection.ui.categories.map((category) => category.id));
+    close();
+  }, [selection.acceptAll, selection.ui, onSave, close]);
+
+  const rejectAll = React.useCallback(() => {
+    selection.rejectAll();
+    onSave?.([]);
+    close();
+  }, [selection.rejectAll, onSave, close]);
+
+  const saveSelection = React.useCallback(() => {
+    selection.saveSelection();
+    onSave?.(selection.selectedCategories);
+    close();
+  }, [selection.saveSelection, selection.selectedCategories, onSave, close]);
+
+  // Escape closes without saving
+  const focusTrap = useFocusTrap<HTMLDivElement>(isOpen, close);
+
+  const getDialogProps = React.useCallback(() => ({
+    ref: focusTrap.ref,
+    role: 'dialog' as const,
+    'aria-modal': true as const,
+    'aria-labelledby': 'preferences-title',
+    dir: selection.ui.direction,
+    lang: selection.ui.locale,
+    tabIndex: -1 as const,
+    onKeyDown: focusTrap.onKeyDown,
+  }), [focusTrap.ref, focusTrap.onKeyDown, selection.ui]);
+
+  return {
+    ui: selection.ui,
+    categories: selection.categories,
+    selectedCategories: selection.selectedCategories,
+    toggleCategory: selection.toggleCategory,
+    setCategory: selection.setCategory,
+    acceptAll,
+    rejectAll,
+    saveSelection,
+    isOpen,
+    open,
+    close,
+    getDialogProps,
+  };
+}
@@ -4,39 +4,39 @@
 
 import * as React from 'react';
 import { useConsent } from './useConsent';
+import { useGrainAnalytics } from './useGrainAnalytics';
+import { DEFAULT_CONSENT_CATEGORIES } from '../../consent';
 
 export interface PrivacyPreferences {
   necessary: boolean;
   analytics: boolean;
   functional: boolean;
+  [category: string]: boolean; // Custom categories from the consent category registry
 }
 
 export function usePrivacyPreferences() {
+  const client = useGrainAnalytics();
   const { consentState, grantConsent, revokeConsent } = useConsent();
 
+  const registry = client?.getConsentCategories();
+  const categoryIds = React.useMemo(() => registry?.getCategoryIds() ?? DEFAULT_CONSENT_CATEGORIES, [registry]);
+  const requiredIds = React.useMemo(() => registry?.getRequiredCategoryIds() ?? ['necessary'], [registry]);
+
   const preferences = React.useMemo<PrivacyPreferences>(() => {
     const categories = consentState?.categories ?? [];
-    return {
-      necessary: categories.includes('necessary'),
-      analytics: categories.includes('analytics'),
-      functional: categories.includes('functional'),
-    };
-  }, [consentState]);
+    const result: PrivacyPreferences = { necessary: false, analytics: false, functional: false };
+    for (const id of categoryIds) {
+      result[id] = categories.includes(id);
+    }
+    return result;
+  }, [consentState, categoryIds]);
 
   const updatePreferences = React.useCallback(
     (newPreferences: Partial<PrivacyPreferences>) => {
-      const categories: string[] = [];
-      
-      // Necessary is always enabled
-      categories.push('necessary');
-      
-      if (newPreferences.analytics ?? preferences.analytics) {
-        categories.push('analytics');
-      }
-      
-      if (newPreferences.functional ?? preferences.functional) {
-        categories.push('functional');
-      }
+      // Required categories are always enabled
+      const categories = categoryIds.filter(
+        (id) => requiredIds.includes(id) || (newPreferences[id] ?? preferences[id])
+      );
 
       if (categories.length > 0) {
         grantConsent(categories);
@@ -44,16 +44,16 @@ export function usePrivacyPreferences() {
         revokeConsent();
       }
     },
-    [preferences, grantConsent, revokeConsent]
+    [categoryIds, requiredIds, preferences, grantConsent, revokeConsent]
   );
 
   const acceptAll = React.useCallback(() => {
-    grantConsent(['necessary', 'analytics', 'functional']);
-  }, [grantConsent]);
+    grantConsent(categoryIds);
+  }, [categoryIds, grantConsent]);
 
   const rejectAll = React.useCallback(() => {
-    grantConsent(['necessary']); // Keep only necessary
-  }, [grantConsent]);
+    grantConsent(requiredIds); // Keep only required categories
+  }, [requiredIds, grantConsent]);
 
   return {
     preferences,
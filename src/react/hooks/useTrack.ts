@@ -3,23 +3,25 @@
  * 
  * Returns a track function that doesn't cause re-renders when passed to child components.
  * Prevents unnecessary re-renders compared to using useCallback.
+ * Pass your event catalog to check event names and properties: useTrack<AppEvents>()
  */
 
 import * as React from 'react';
 import { useGrainAnalytics } from './useGrainAnalytics';
+import type { SendEventOptions, UntypedEventCatalog } from '../../index';
 import type { TrackFunction } from '../types';
 
-export function useTrack(): TrackFunction {
+export function useTrack<TEvents extends object = UntypedEventCatalog>(): TrackFunction<TEvents> {
   const client = useGrainAnalytics();
 
   // Create stable track function that won't change across renders
-  const track = React.useCallback<TrackFunction>(
-    async (eventName, properties, options) => {
+  const track = React.useCallback(
+    async (eventName: string, properties?: Record<string, unknown>, options?: SendEventOptions) => {
       await client.track(eventName, properties, options);
     },
     [client]
   );
 
-  return track;
+  return track as TrackFunction<TEvents>;
 }
 
@@ -1,3 +1,5 @@
+'use client';
+
 /**
  * Grain Analytics React Hooks
  * 
@@ -35,13 +37,22 @@ export { GrainProvider } from './GrainProvider';
 export { useGrainAnalytics } from './hooks/useGrainAnalytics';
 export { useConfig } from './hooks/useConfig';
 export { useAllConfigs } from './hooks/useAllConfigs';
+export { useBooleanConfig } from './hooks/useBooleanConfig';
+export { useNumberConfig } from './hooks/useNumberConfig';
+export { useJSONConfig } from './hooks/useJSONConfig';
 export { useTrack } from './hooks/useTrack';
+export { useGroup } from './hooks/useGroup';
 
 // Privacy hooks
 export { useConsent } from './hooks/useConsent';
 export { usePrivacyPreferences } from './hooks/usePrivacyPreferences';
 export { useDataDeletion } from './hooks/useDataDeletion';
 
+// Headless consent hooks - consent UI state without markup
+export { useConsentBanner } from './hooks/useConsentBanner';
+export { usePreferenceCenter } from './hooks/usePreferenceCenter';
+export { useFocusTrap } from './hooks/useFocusTrap';
+
 // Privacy components
 export { ConsentBanner } from './components/ConsentBanner';
 export { PrivacyPreferenceCenter } from './components/PrivacyPreferenceCenter';
@@ -54,7 +65,18 @@ export type {
   UseConfigResult,
   UseAllConfigsOptions,
   UseAllConfigsResult,
+  UseTypedConfigResult,
+  UseNumberConfigOptions,
+  UseJSONConfigOptions,
   TrackFunction,
+  GroupFunction,
+  ConsentCategoryToggle,
+  ConsentDialogProps,
+  ConsentSelection,
+  UseConsentBannerOptions,
+  UseConsentBannerResult,
+  UsePreferenceCenterOptions,
+  UsePreferenceCenterResult,
 } from './types';
 
 // Privacy component types
@@ -2,27 +2,57 @@
  * React-specific types for Grain Analytics
  */
 
-import type { GrainAnalytics, GrainConfig, SendEventOptions } from '../index';
+import type {
+  GrainAnalytics,
+  GrainConfig,
+  EventName,
+  EventProperties,
+  TrackArguments,
+  UntypedEventCatalog,
+  NumberConfigOptions,
+  JSONConfigSchema,
+  ConfigSource,
+  ConfigBootstrap,
+  LocalizedConsentCategory,
+  LocalizedConsentUI,
+  TextDirection,
+} from '../index';
 
 export interface GrainProviderProps {
   children: React.ReactNode;
   client?: GrainAnalytics;
   config?: GrainConfig;
+  bootstrap?: ConfigBootstrap | null; // Server-rendered configurations, see GrainServerAnalytics.getConfigBootstrap()
 }
 
 export interface UseConfigOptions {
   forceRefresh?: boolean;
   immediateKeys?: string[];
   properties?: Record<string, string>;
+  trackExposure?: boolean; // Record an exposure when a remote value is rendered (default: true)
 }
 
 export interface UseConfigResult {
   value: string | undefined;
+  source: ConfigSource | undefined; // Layer the value comes from, e.g. 'remote' or a local 'override'
   isRefreshing: boolean;
   error: Error | null;
   refresh: () => Promise<void>;
 }
 
+export interface UseTypedConfigResult<T> {
+  value: T;
+  isRefreshing: boolean;
+  error: Error | null;
+  refresh: () => Promise<void>;
+}
+
+export interface UseNumberConfigOptions extends UseConfigOptions, NumberConfigOptions {}
+
+export interface UseJSONConfigOptions<T> extends UseConfigOptions {
+  schema?: JSONConfigSchema<T>;
+}
+
 export interface UseAllConfigsOptions {
   forceRefresh?: boolean;
   immediateKeys?: string[];
@@ -36,9 +66,79 @@ export interface UseAllConfigsResult {
   refresh: () => Promise<void>;
 }
 
-export type TrackFunction = (
-  eventName: string,
-  properties?: Record<string, unknown>,
-  options?: SendEventOptions
+export type TrackFunction<TEvents extends object = UntypedEventCatalog> = <K extends EventName<TEvents>>(
+  eventName: K,
+  ...args: TrackArguments<EventProperties<TEvents, K>>
+) => Promise<void>;
+
+
+export type GroupFunction = (
+  groupType: string,
+  groupId: string,
+  traits?: Record<string, unknown>
 ) => Promise<void>;
 
+export interface ConsentCategoryToggle extends LocalizedConsentCategory {
+  selected: boolean;
+}
+
+/**
+ * Props for the element that wraps a headless consent dialog
+ * Spread onto your own markup: <div {...getDialogProps()}>
+ */
+export interface ConsentDialogProps {
+  ref: React.RefObject<HTMLDivElement>;
+  role: 'dialog';
+  'aria-modal': true;
+  'aria-labelledby': string;
+  'aria-describedby'?: string;
+  dir: TextDirection;
+  lang: string;
+  tabIndex: -1;
+  onKeyDown: (event: React.KeyboardEvent) => void;
+}
+
+/**
+ * Category selection and consent actions shared by the headless consent hooks
+ */
+export interface ConsentSelection {
+  ui: LocalizedConsentUI; // Localized copy and categories from the consent category registry
+  categories: ConsentCategoryToggle[];
+  selectedCategories: string[];
+  toggleCategory: (categoryId: string) => void; // Required categories can't be toggled
+  setCategory: (categoryId: string, selected: boolean) => void;
+  acceptAll: () => void; // Grants every registered category
+  rejectAll: () => void; // Revokes consent
+  saveSelection: () => void; // Grants the selected categories
+}
+
+export interface UseConsentBannerOptions {
+  locale?: string; // Locale of the copy (default: <html lang> or the browser language)
+  customText?: string; // Replaces the localized banner text
+  textVersion?: string; // Version of the text, recorded as proof of consent (default: version of the localized text)
+  onAccept?: () => void;
+  onDecline?: () => void;
+  onSave?: (categories: string[]) => void;
+}
+
+export interface UseConsentBannerResult extends ConsentSelection {
+  isVisible: boolean; // True until the user decides, unless an external CMP owns consent
+  text: string;
+  reopen: () => void; // Show the banner again, e.g. from a "Cookie settings" link
+  getDialogProps: () => ConsentDialogProps;
+}
+
+export interface UsePreferenceCenterOptions {
+  isOpen?: boolean; // Controls visibility; uncontrolled when omitted
+  onClose?: () => void;
+  onSave?: (categories: string[]) => void;
+  locale?: string; // Locale of the copy (default: <html lang> or the browser language)
+  textVersion?: string; // Version of the category descriptions, recorded as proof of consent (default: version of the localized text)
+}
+
+export interface UsePreferenceCenterResult extends ConsentSelection {
+  isOpen: boolean;
+  open: () => void;
+  close: () => void;
+  getDialogProps: () => ConsentDialogProps;
+}
@@ -0,0 +1,353 @@
+/**
+ * Local Rule Evaluation for Grain Analytics
+ * Evaluates remote config targeting in the browser, so property and route
+ * changes switch configurations without a round-trip to /config/configurations
+ *
+ * The ruleset is downloaded once from /config/ruleset as a signed envelope:
+ * - payload: the ruleset as a JSON string
+ * - signature: base64 ECDSA P-256 / SHA-256 signature of the payload bytes
+ *
+ * It is only used after the signature is verified against the public key in
+ * config, and only until it expires. Evaluation takes the same inputs as
+ * RemoteConfigRequest and produces the same configurations/qualifiedSegments/
+ * qualifiedRuleSets shape as the server.
+ */
+
+export type RuleOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches'
+  | 'in'
+  | 'not_in'
+  | 'exists'
+  | 'not_exists'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte';
+
+export interface RuleCondition {
+  attribute: string; // A property name, or $url, $path or $userId
+  operator: RuleOperator;
+  value?: string | number | string[];
+}
+
+export interface SegmentDefinition {
+  id: string;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+}
+
+export interface RuleSetDefinition {
+  id: string;
+  priority: number; // Higher priority wins when rule sets set the same key
+  segments: string[]; // All must qualify, empty targets everyone
+  conditions?: RuleCondition[]; // All must match, e.g. page-specific rule sets
+  configurations: Record<string, string>;
+}
+
+export interface LocalRuleset {
+  version: 1;
+  tenantId: string;
+  snapshotId: string;
+  expiresAt: string; // ISO 8601, the ruleset is not used after this
+  configurations: Record<string, string>; // Values served when no rule set applies
+  segments: SegmentDefinition[];
+  ruleSets: RuleSetDefinition[];
+}
+
+export interface SignedRuleset {
+  payload: string;
+  signature: string;
+}
+
+export interface RuleEvaluationInput {
+  userId: string;
+  properties?: Record<string, string>;
+  currentUrl?: string;
+}
+
+export interface RuleEvaluationResult {
+  snapshotId: string;
+  configurations: Record<string, string>;
+  qualifiedSegments: string[];
+  qualifiedRuleSets: string[];
+}
+
+export interface RuleEvaluationTracker {
+  getConfigBaseUrl(): string; // .../v1/client/{tenantId}/config
+  getAuthHeaders(): Promise<Record<string, string>>;
+}
+
+export interface RuleEvaluationOptions {
+  tenantId: string;
+  signingKey: string; // Base64 SPKI of the ECDSA P-256 public key
+  debug?: boolean;
+}
+
+/**
+ * Evaluate a ruleset for one user, URL and set of properties
+ */
+export function evaluateRuleset(ruleset: LocalRuleset, input: RuleEvaluationInput): RuleEvaluationResult {
+  const attributes = buildAttributes(input);
+
+  const qualifiedSegments = ruleset.segments
+    .filter(segment => matchesSegment(segment, attributes))
+    .map(segment => segment.id);
+  const segmentSet = new Set(qualifiedSegments);
+
+  const qualifiedRuleSets = ruleset.ruleSets
+    .filter(ruleSet =>
+      ruleSet.segments.every(id => segmentSet.has(id)) &&
+      (ruleSet.conditions || []).every(condition => matchesCondition(condition, attributes))
+    )
+    .sort((a, b) => b.priority - a.priority);
+
+  // Apply lowest priority first so higher priority rule sets win
+  const configurations = { ...ruleset.configurations };
+  for (let i = qualifiedRuleSets.length - 1; i >= 0; i--) {
+    Object.assign(configurations, qualifiedRuleSets[i].configurations);
+  }
+
+  return {
+    snapshotId: ruleset.snapshotId,
+    configurations,
+    qualifiedSegments,
+    qualifiedRuleSets: qualifiedRuleSets.map(ruleSet => ruleSet.id),
+  };
+}
+
+function buildAttributes(input: RuleEvaluationInput): Record<string, string> {
+  const attributes: Record<string, string> = { ...(input.properties || {}), $userId: input.userId };
+
+  if (input.currentUrl) {
+    attributes.$url = input.currentUrl;
+    try {
+      attributes.$path = new URL(input.currentUrl).pathname;
+    } catch {
+      // Not an absolute URL - only $url is available
+    }
+  }
+
+  return attributes;
+}
+
+function matchesSegment(segment: SegmentDefinition, attributes: Record<string, string>): boolean {
+  if (segment.conditions.length === 0) return true;
+  return segment.match === 'any'
+    ? segment.conditions.some(condition => matchesCondition(condition, attributes))
+    : segment.conditions.every(condition => matchesCondition(condition, attributes));
+}
+
+/**
+ * Check one condition - unknown operators never match
+ */
+function matchesCondition(condition: RuleCondition, attributes: Record<string, string>): boolean {
+  const actual = attributes[condition.attribute];
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'exists':
+      return actual !== undefined;
+    case 'not_exists':
+      return actual === undefined;
+    case 'not_equals':
+      return actual !== String(expected);
+    case 'not_contains':
+      return actual === undefined || !actual.includes(String(expected));
+    case 'not_in':
+      return !Array.isArray(expected) || actual === undefined || !expected.includes(actual);
+  }
+
+  if (actual === undefined) return false;
+
+  switch (condition.operator) {
+    case 'equals':
+      return actual === String(expected);
+    case 'contains':
+      return actual.includes(String(expected));
+    case 'starts_with':
+      return actual.startsWith(String(expected));
+    case 'ends_with':
+      return actual.endsWith(String(expected));
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual);
+    case 'matches':
+      try {
+        return new RegExp(String(expected)).test(actual);
+      } catch {
+        return false;
+      }
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return compareNumbers(condition.operator, actual, expected);
+    default:
+      return false;
+  }
+}
+
+function compareNumbers(operator: 'gt' | 'gte' | 'lt' | 'lte', actual: string, expected: RuleCondition['value']): boolean {
+  const left = Number(actual);
+  const right = Number(expected);
+  if (actual.trim() === '' || !Number.isFinite(left) || !Number.isFinite(right)) return false;
+
+  switch (operator) {
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+  }
+}
+
+// Return type is inferred: TypeScript 5.7+ needs Uint8Array<ArrayBuffer> for Web Crypto,
+// a type that older versions can't name
+function base64ToBytes(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function isLocalRuleset(value: unknown, tenantId: string): value is LocalRuleset {
+  if (!value || typeof value !== 'object') return false;
+
+  const ruleset = value as Partial<LocalRuleset>;
+  return ruleset.version === 1 &&
+    ruleset.tenantId === tenantId &&
+    typeof ruleset.snapshotId === 'string' &&
+    typeof ruleset.expiresAt === 'string' &&
+    !!ruleset.configurations && typeof ruleset.configurations === 'object' &&
+    Array.isArray(ruleset.segments) &&
+    Array.isArray(ruleset.ruleSets);
+}
+
+export class RuleEvaluationManager {
+  private tracker: RuleEvaluationTracker;
+  private options: RuleEvaluationOptions;
+  private ruleset: LocalRuleset | null = null;
+  private loadPromise: Promise<boolean> | null = null;
+  private isDestroyed = false;
+
+  constructor(tracker: RuleEvaluationTracker, options: RuleEvaluationOptions) {
+    this.tracker = tracker;
+    this.options = options;
+  }
+
+  /**
+   * Check if a verified, unexpired ruleset is loaded
+   */
+  isReady(): boolean {
+    return !!this.ruleset && Date.parse(this.ruleset.expiresAt) > Date.now();
+  }
+
+  /**
+   * Download and verify the ruleset
+   * Resolves to false when it can't be used - callers keep using the server
+   */
+  load(): Promise<boolean> {
+    if (this.isDestroyed) return Promise.resolve(false);
+    if (!this.loadPromise) {
+      this.loadPromise = this.fetchRuleset().finally(() => {
+        this.loadPromise = null;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Evaluate the loaded ruleset
+   * Returns null when no usable ruleset is loaded; an expired ruleset is reloaded in the background
+   */
+  evaluate(input: RuleEvaluationInput): RuleEvaluationResult | null {
+    if (this.isDestroyed || !this.ruleset) return null;
+
+    if (!this.isReady()) {
+      this.log('Ruleset expired, reloading');
+      this.ruleset = null;
+      this.load();
+      return null;
+    }
+
+    return evaluateRuleset(this.ruleset, input);
+  }
+
+  private async fetchRuleset(): Promise<boolean> {
+    try {
+      if (typeof crypto === 'undefined' || !crypto.subtle) {
+        this.log('Web Crypto unavailable, local evaluation disabled');
+        return false;
+      }
+
+      const headers = await this.tracker.getAuthHeaders();
+      const response = await fetch(`${this.tracker.getConfigBaseUrl()}/ruleset`, { method: 'GET', headers });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const envelope: SignedRuleset = await response.json();
+      if (!(await this.verify(envelope))) {
+        this.log('Ruleset signature is invalid, ignoring it');
+        return false;
+      }
+
+      const ruleset: unknown = JSON.parse(envelope.payload);
+      if (!isLocalRuleset(ruleset, this.options.tenantId)) {
+        this.log('Ruleset is malformed or for another tenant, ignoring it');
+        return false;
+      }
+      if (this.isDestroyed) return false;
+
+      this.ruleset = ruleset;
+      this.log('Loaded ruleset', ruleset.snapshotId);
+      return this.isReady();
+    } catch (error) {
+      this.log('Failed to load ruleset:', error);
+      return false;
+    }
+  }
+
+  private async verify(envelope: SignedRuleset): Promise<boolean> {
+    if (typeof envelope?.payload !== 'string' || typeof envelope?.signature !== 'string') return false;
+
+    try {
+      const key = await crypto.subtle.importKey(
+        'spki',
+        base64ToBytes(this.options.signingKey),
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify(
+        { name: 'ECDSA', hash: 'SHA-256' },
+        key,
+        base64ToBytes(envelope.signature),
+        new TextEncoder().encode(envelope.payload)
+      );
+    } catch (error) {
+      this.log('Failed to verify ruleset signature:', error);
+      return false;
+    }
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[Rule Evaluation]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the manager
+   */
+  destroy(): void {
+    this.isDestroyed = true;
+    this.ruleset = null;
+  }
+}
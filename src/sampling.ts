@@ -0,0 +1,177 @@
+/**
+ * Sampling and Rate Limiting for Grain Analytics
+ * Caps event volume before events are queued
+ *
+ * - Sample rates are deterministic per session: a session is either fully in
+ *   or fully out for an event, on every page view of that session
+ * - Rate limits are token buckets, refilled continuously
+ * - Sampled events carry `_sample_rate` so the backend can re-weight counts
+ *
+ * Rules are keyed by event name. A key ending in `*` matches by prefix
+ * (`_grain_heatmap_*`) and `*` alone matches every event. The most specific
+ * key wins. Remote config can override rules at runtime.
+ */
+
+import type { EventPayload } from './index';
+import type { EventMiddleware } from './middleware';
+import { hashString } from './text-utils';
+
+export interface RateLimit {
+  maxEvents: number; // Bucket size: events allowed in a burst
+  interval: number; // Time to refill the whole bucket (ms)
+}
+
+export interface SamplingRules {
+  sampleRates?: Record<string, number>; // Share of sessions that send the event (0-1)
+  rateLimits?: Record<string, RateLimit>; // Events matching the same key share one bucket
+}
+
+export interface SamplingTracker {
+  getSamplingKey(): string; // Must not change during the session, e.g. when consent is granted
+}
+
+interface TokenBucket {
+  tokens: number;
+  lastRefill: number;
+}
+
+/**
+ * Find the rule key for an event name
+ * Exact match first, then the longest matching prefix pattern, then `*`
+ */
+export function matchRuleKey(eventName: string, keys: string[]): string | undefined {
+  if (keys.includes(eventName)) return eventName;
+
+  let best: string | undefined;
+  for (const key of keys) {
+    if (!key.endsWith('*')) continue;
+    const prefix = key.slice(0, -1);
+    if (eventName.startsWith(prefix) && (!best || prefix.length > best.length - 1)) {
+      best = key;
+    }
+  }
+  return best;
+}
+
+/**
+ * Check if a session falls inside the sample for a rate
+ * Sessions inside a low rate are also inside every higher rate, so
+ * sampled sessions keep complete funnels across events
+ */
+export function isSampledIn(sessionId: string, sampleRate: number): boolean {
+  if (sampleRate >= 1) return true;
+  if (sampleRate <= 0) return false;
+  return hashString(sessionId) / 0x100000000 < sampleRate;
+}
+
+export class SamplingManager {
+  private tracker: SamplingTracker;
+  private localRules: Required<SamplingRules>;
+  private remoteRules: Required<SamplingRules> = { sampleRates: {}, rateLimits: {} };
+  private buckets = new Map<string, TokenBucket>();
+  private debug: boolean;
+
+  /**
+   * Runs the sampling step inside the middleware pipeline
+   */
+  readonly middleware: EventMiddleware = (event) => this.process(event);
+
+  constructor(tracker: SamplingTracker, rules: SamplingRules = {}, debug = false) {
+    this.tracker = tracker;
+    this.localRules = {
+      sampleRates: { ...rules.sampleRates },
+      rateLimits: { ...rules.rateLimits },
+    };
+    this.debug = debug;
+  }
+
+  /**
+   * Replace the rules delivered by remote config
+   * Remote rules override local rules with the same key
+   */
+  updateRemoteRules(rules: SamplingRules): void {
+    const rateLimits = { ...rules.rateLimits };
+
+    // Keep bucket state across config refreshes unless the limits changed
+    if (JSON.stringify(rateLimits) !== JSON.stringify(this.remoteRules.rateLimits)) {
+      this.buckets.clear();
+    }
+
+    this.remoteRules = {
+      sampleRates: { ...rules.sampleRates },
+      rateLimits,
+    };
+    this.log('Remote sampling rules applied', this.remoteRules);
+  }
+
+  /**
+   * Get the sample rate that applies to an event name
+   */
+  getSampleRate(eventName: string): number {
+    const rates = { ...this.localRules.sampleRates, ...this.remoteRules.sampleRates };
+    const key = matchRuleKey(eventName, Object.keys(rates));
+    if (key === undefined) return 1;
+
+    const rate = rates[key];
+    return typeof rate === 'number' && !isNaN(rate) ? Math.min(1, Math.max(0, rate)) : 1;
+  }
+
+  /**
+   * Sample, rate limit and stamp an event
+   * Returns null if the event should be dropped
+   */
+  process(event: EventPayload): EventPayload | null {
+    const sampleRate = this.getSampleRate(event.eventName);
+
+    if (!isSampledIn(this.tracker.getSamplingKey(), sampleRate)) {
+      this.log(`Event sampled out: ${event.eventName} (rate ${sampleRate})`);
+      return null;
+    }
+
+    if (!this.consumeToken(event.eventName)) {
+      this.log(`Event rate limited: ${event.eventName}`);
+      return null;
+    }
+
+    if (sampleRate >= 1) return event;
+
+    return {
+      ...event,
+      properties: { ...event.properties, _sample_rate: sampleRate },
+    };
+  }
+
+  /**
+   * Take a token from the bucket for an event name
+   * Returns false if the bucket is empty
+   */
+  private consumeToken(eventName: string): boolean {
+    const limits = { ...this.localRules.rateLimits, ...this.remoteRules.rateLimits };
+    const key = matchRuleKey(eventName, Object.keys(limits));
+    if (key === undefined) return true;
+
+    const limit = limits[key];
+    if (!limit || !(limit.maxEvents > 0) || !(limit.interval > 0)) return true;
+
+    const now = Date.now();
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { tokens: limit.maxEvents, lastRefill: now };
+      this.buckets.set(key, bucket);
+    }
+
+    const refill = ((now - bucket.lastRefill) / limit.interval) * limit.maxEvents;
+    bucket.tokens = Math.min(limit.maxEvents, bucket.tokens + refill);
+    bucket.lastRefill = now;
+
+    if (bucket.tokens < 1) return false;
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.debug) {
+      console.log('[Sampling]', ...args);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Server-side client for Grain Analytics
+ * For Node.js API routes and background workers
+ *
+ * Differences from the browser client:
+ * - SERVER_SIDE auth with secretKey by default
+ * - Browser tracking (heartbeat, page views, heatmaps) disabled
+ * - Events are flushed on an interval that does not keep the process alive
+ * - forUser() scopes tracking to one user, so one client can serve many requests
+ * - shutdown() waits until queued events are delivered
+ * - getConfigBootstrap() fetches configs for server-side rendering
+ *
+ * Import from '@grainql/analytics-web/server' so browser bundles never include it
+ */
+
+import {
+  GrainAnalytics,
+  type GrainConfig,
+  type GrainEvent,
+  type RemoteConfigOptions,
+  type SendEventOptions,
+} from './index';
+import { createConfigBootstrap, type ConfigBootstrap } from './config-bootstrap';
+
+// Server clients serve many users, so there is no global userId
+export type GrainServerConfig = Omit<GrainConfig, 'userId'>;
+
+export interface ServerEvent extends GrainEvent {
+  userId: string; // Required on the server - there is no anonymous browser ID
+}
+
+// Same request as the browser client - currentUrl should be the URL being rendered
+export type ServerConfigOptions = Omit<RemoteConfigOptions, 'userId' | 'forceRefresh'>;
+
+/**
+ * Tracking scoped to a single user (e.g. the user of the current request)
+ */
+export class GrainServerUserContext {
+  readonly userId: string;
+  private client: GrainAnalytics;
+
+  constructor(client: GrainAnalytics, userId: string) {
+    this.client = client;
+    this.userId = userId;
+  }
+
+  /**
+   * Track an event for this user
+   */
+  track(eventName: string, properties?: Record<string, unknown>, options?: SendEventOptions): Promise<void> {
+    return this.client.track({ eventName, userId: this.userId, properties }, options);
+  }
+
+  /**
+   * Set user properties for this user
+   */
+  setProperty(properties: Record<string, unknown>): Promise<void> {
+    return this.client.setProperty(properties, { userId: this.userId });
+  }
+}
+
+// Same default as the browser client
+const DEFAULT_FLUSH_INTERVAL = 5000;
+
+export class GrainServerAnalytics {
+  private client: GrainAnalytics;
+  private tenantId: string;
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(config: GrainServerConfig) {
+    this.tenantId = config.tenantId;
+    this.client = new GrainAnalytics({
+      authStrategy: 'SERVER_SIDE',
+      // Server events carry explicit user IDs; consent is enforced by the calling application
+      consentMode: 'GDPR_OPT_OUT',
+      disableAutoProperties: true,
+      enableHeartbeat: false,
+      enableAutoPageView: false,
+      enableHeatmapTracking: false,
+      enableConfigCache: false,
+      enableOfflineQueue: false,
+      ...config,
+    });
+    this.startFlushTimer(config.flushInterval ?? DEFAULT_FLUSH_INTERVAL);
+  }
+
+  private startFlushTimer(interval: number): void {
+    this.flushTimer = setInterval(() => {
+      void this.client.flush();
+    }, interval);
+
+    // Don't keep the process alive just to flush analytics
+    const timer: ReturnType<typeof setInterval> = this.flushTimer;
+    if (typeof timer === 'object' && 'unref' in timer) {
+      timer.unref();
+    }
+  }
+
+  /**
+   * Get a client scoped to a single user
+   */
+  forUser(userId: string): GrainServerUserContext {
+    return new GrainServerUserContext(this.client, userId);
+  }
+
+  /**
+   * Track an event for the user in event.userId
+   */
+  track(event: ServerEvent, options?: SendEventOptions): Promise<void> {
+    return this.client.track(event, options);
+  }
+
+  /**
+   * Fetch configurations for server-side rendering
+   * Pass the result to GrainProvider's `bootstrap` prop, or embed it with
+   * getConfigBootstrapScript(), so the first browser render uses real values.
+   * Use the same userId the browser client will use. Returns null when the
+   * fetch fails - the browser then falls back to its cache and defaults.
+   *
+   * @example
+   * // app/layout.tsx (Next.js App Router, server component)
+   * const bootstrap = await grain.getConfigBootstrap(userId, { currentUrl });
+   * return <GrainProvider config={config} bootstrap={bootstrap}>{children}</GrainProvider>;
+   */
+  async getConfigBootstrap(userId: string, options: ServerConfigOptions = {}): Promise<ConfigBootstrap | null> {
+    const response = await this.client.fetchConfig({ ...options, userId, forceRefresh: true });
+    if (!response) return null;
+    return createConfigBootstrap(this.tenantId, userId, response);
+  }
+
+  /**
+   * Send all queued events now
+   */
+  flush(): Promise<void> {
+    return this.client.flush();
+  }
+
+  /**
+   * Deliver all queued events and stop the flush timer
+   * Await this before the process exits (e.g. on SIGTERM)
+   */
+  shutdown(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    return this.client.shutdown();
+  }
+}
+
+/**
+ * Create a new server-side Grain Analytics client
+ */
+export function createGrainServerAnalytics(config: GrainServerConfig): GrainServerAnalytics {
+  return new GrainServerAnalytics(config);
+}
@@ -0,0 +1,343 @@
+/**
+ * Session Replay Manager for Grain Analytics
+ * Records incremental DOM changes with rrweb and uploads them in chunks
+ *
+ * Records DOM mutations, scrolls, inputs (masked) and viewport changes.
+ * Recording only starts when:
+ * - the session is sampled (deterministic per session, nested with event sampling)
+ * - the user granted consent for the dedicated 'replay' category
+ *
+ * rrweb is an optional dependency and is only loaded when recording starts.
+ *
+ * The last chunk is sent with keepalive while the page unloads. Browsers cap
+ * keepalive bodies at 64 KB (shared by all requests in flight), so only what
+ * fits unloadBudget is sent then - the rest is kept in localStorage and
+ * uploaded with the next chunk or on the next page load.
+ */
+
+import { byteLength, maskSensitiveText } from './text-utils';
+import { isSampledIn } from './sampling';
+
+export const REPLAY_CONSENT_CATEGORY = 'replay';
+
+export interface SessionReplayChunk {
+  sessionId: string; // Joins the recording with events and heatmap data
+  recordingId: string; // One recording per page load
+  userId: string;
+  chunkIndex: number;
+  pageUrl: string;
+  startTime: number;
+  endTime: number;
+  events: unknown[]; // rrweb events
+}
+
+export interface SessionReplayTracker {
+  getSessionId(): string;
+  getSamplingKey(): string; // Same key as event sampling, stable for the session
+  getRecordingId(): string;
+  getEffectiveUserId(): string;
+  hasReplayConsent(): boolean;
+  uploadReplayChunk(chunk: SessionReplayChunk, keepalive: boolean): Promise<boolean>;
+}
+
+export interface SessionReplayOptions {
+  sampleRate: number; // Share of sessions to record (0-1)
+  chunkInterval: number; // Upload buffered events this often (ms)
+  maxChunkEvents: number; // Upload early when the buffer reaches this size
+  maskAllInputs: boolean;
+  unloadBudget: number; // Largest chunk body sent while the page unloads (bytes)
+  storageKey?: string; // Keeps chunks over the unload budget for later (not kept when unset)
+  debug?: boolean;
+}
+
+const DEFAULT_OPTIONS: SessionReplayOptions = {
+  sampleRate: 1,
+  chunkInterval: 10000, // 10 seconds
+  maxChunkEvents: 500,
+  maskAllInputs: true,
+  unloadBudget: 32000, // Half the keepalive quota, the rest is left to the event batch
+  debug: false,
+};
+
+export class SessionReplayManager {
+  private tracker: SessionReplayTracker;
+  private options: SessionReplayOptions;
+  private isDestroyed = false;
+  private isRecording = false;
+
+  private stopRecording: (() => void) | null = null;
+  private buffer: unknown[] = [];
+  private bufferStartTime = 0;
+  private chunkIndex = 0;
+
+  private chunkTimer: ReturnType<typeof setInterval> | null = null;
+  private visibilityHandler: (() => void) | null = null;
+  private pagehideHandler: (() => void) | null = null;
+
+  constructor(tracker: SessionReplayTracker, options: Partial<SessionReplayOptions> = {}) {
+    this.tracker = tracker;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Start recording if the session is sampled and consent was granted
+   */
+  async start(): Promise<void> {
+    if (this.isDestroyed || this.isRecording) return;
+    if (typeof window === 'undefined' || typeof document === 'undefined') return;
+
+    if (!this.tracker.hasReplayConsent()) {
+      this.log('No replay consent, not recording');
+      return;
+    }
+
+    // Chunks a previous page couldn't send while unloading
+    this.uploadStoredChunks();
+
+    if (!isSampledIn(this.tracker.getSamplingKey(), this.options.sampleRate)) {
+      this.log('Session not sampled, not recording');
+      return;
+    }
+
+    // Claim the recording before the async import to avoid double starts
+    this.isRecording = true;
+
+    try {
+      // Dynamically import rrweb (only if recording)
+      // @ts-ignore - rrweb is an optional dependency, may not be resolvable during React build
+      const rrweb = await import('rrweb');
+
+      // Stopped or destroyed while rrweb was loading
+      if (this.isDestroyed || !this.isRecording) return;
+
+      this.stopRecording = rrweb.record({
+        emit: (event: unknown) => this.handleEvent(event),
+        maskAllInputs: this.options.maskAllInputs,
+        maskTextFn: maskSensitiveText,
+        sampling: {
+          mousemove: false, // Clicks and scrolls carry the signal, mouse paths are mostly noise
+          scroll: 150,
+          input: 'last',
+        },
+      }) || null;
+
+      this.chunkTimer = setInterval(() => this.flush(false), this.options.chunkInterval);
+      this.setupUnloadHandlers();
+
+      this.log('Session replay recording started');
+    } catch (error) {
+      this.isRecording = false;
+      this.log('Failed to load rrweb, session replay disabled:', error);
+    }
+  }
+
+  /**
+   * Stop recording and discard anything not yet uploaded
+   * Used when replay consent is revoked
+   */
+  stop(): void {
+    this.stopSession();
+    this.clearStoredChunks();
+  }
+
+  private stopSession(): void {
+    if (this.stopRecording) {
+      this.stopRecording();
+      this.stopRecording = null;
+    }
+
+    if (this.chunkTimer) {
+      clearInterval(this.chunkTimer);
+      this.chunkTimer = null;
+    }
+
+    this.removeUnloadHandlers();
+    this.buffer = [];
+    this.isRecording = false;
+
+    this.log('Session replay recording stopped');
+  }
+
+  /**
+   * Check if recording is active
+   */
+  isActive(): boolean {
+    return this.isRecording;
+  }
+
+  /**
+   * Buffer an rrweb event and upload when the chunk is full
+   */
+  private handleEvent(event: unknown): void {
+    if (this.isDestroyed) return;
+
+    if (this.buffer.length === 0) {
+      this.bufferStartTime = Date.now();
+    }
+    this.buffer.push(event);
+
+    if (this.buffer.length >= this.options.maxChunkEvents) {
+      this.flush(false);
+    }
+  }
+
+  /**
+   * Upload buffered events as one chunk
+   * While unloading, events over the unload budget are stored for later
+   */
+  private flush(keepalive: boolean): void {
+    if (this.buffer.length === 0) return;
+
+    // Consent can be revoked between chunks - never upload after that
+    if (!this.tracker.hasReplayConsent()) {
+      this.stop();
+      return;
+    }
+
+    const events = this.buffer;
+    this.buffer = [];
+
+    if (!keepalive) {
+      this.uploadStoredChunks();
+      this.upload(this.createChunk(events, this.chunkIndex++), false);
+      return;
+    }
+
+    const fitting = this.countEventsWithinBudget(events);
+    if (fitting > 0) {
+      this.upload(this.createChunk(events.slice(0, fitting), this.chunkIndex++), true);
+    }
+    if (fitting < events.length) {
+      this.storeChunk(this.createChunk(events.slice(fitting), this.chunkIndex++));
+    }
+  }
+
+  private createChunk(events: unknown[], chunkIndex: number): SessionReplayChunk {
+    return {
+      sessionId: this.tracker.getSessionId(),
+      recordingId: this.tracker.getRecordingId(),
+      userId: this.tracker.getEffectiveUserId(),
+      chunkIndex,
+      pageUrl: `${window.location.origin}${window.location.pathname}`,
+      startTime: this.bufferStartTime,
+      endTime: Date.now(),
+      events,
+    };
+  }
+
+  /**
+   * Count the leading events that fit in one chunk within the unload budget
+   */
+  private countEventsWithinBudget(events: unknown[]): number {
+    let bytes = byteLength(JSON.stringify(this.createChunk([], this.chunkIndex)));
+
+    let count = 0;
+    for (const event of events) {
+      bytes += byteLength(JSON.stringify(event)) + 1;
+      if (bytes > this.options.unloadBudget) break;
+      count++;
+    }
+    return count;
+  }
+
+  private upload(chunk: SessionReplayChunk, keepalive: boolean): void {
+    this.tracker.uploadReplayChunk(chunk, keepalive)
+      .then((uploaded) => {
+        this.log(uploaded
+          ? `Uploaded replay chunk ${chunk.chunkIndex} (${chunk.events.length} events)`
+          : `Failed to upload replay chunk ${chunk.chunkIndex}`);
+      })
+      .catch(() => {
+        // Silent failure - a missing chunk only leaves a gap in the replay
+      });
+  }
+
+  private storeChunk(chunk: SessionReplayChunk): void {
+    const { storageKey } = this.options;
+    if (!storageKey) {
+      this.log(`Replay chunk ${chunk.chunkIndex} is over the unload budget, dropped`);
+      return;
+    }
+
+    try {
+      localStorage.setItem(storageKey, JSON.stringify([...this.readStoredChunks(), chunk]));
+      this.log(`Stored replay chunk ${chunk.chunkIndex} (${chunk.events.length} events) for the next upload`);
+    } catch (error) {
+      this.log('Failed to store replay chunk, dropped:', error);
+    }
+  }
+
+  private uploadStoredChunks(): void {
+    const chunks = this.readStoredChunks();
+    if (chunks.length === 0) return;
+
+    this.clearStoredChunks();
+    for (const chunk of chunks) {
+      this.upload(chunk, false);
+    }
+  }
+
+  private readStoredChunks(): SessionReplayChunk[] {
+    if (!this.options.storageKey) return [];
+    try {
+      const stored = localStorage.getItem(this.options.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private clearStoredChunks(): void {
+    if (!this.options.storageKey) return;
+    try {
+      localStorage.removeItem(this.options.storageKey);
+    } catch {
+      // Storage unavailable - nothing was stored
+    }
+  }
+
+  /**
+   * Upload the last chunk when the page is hidden or closed
+   */
+  private setupUnloadHandlers(): void {
+    this.visibilityHandler = () => {
+      if (document.visibilityState === 'hidden') {
+        this.flush(true);
+      }
+    };
+    this.pagehideHandler = () => {
+      this.flush(true);
+    };
+
+    document.addEventListener('visibilitychange', this.visibilityHandler);
+    window.addEventListener('pagehide', this.pagehideHandler);
+  }
+
+  private removeUnloadHandlers(): void {
+    if (this.visibilityHandler) {
+      document.removeEventListener('visibilitychange', this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+    if (this.pagehideHandler) {
+      window.removeEventListener('pagehide', this.pagehideHandler);
+      this.pagehideHandler = null;
+    }
+  }
+
+  /**
+   * Destroy the manager, uploading what was recorded so far
+   */
+  destroy(): void {
+    if (this.isRecording) {
+      this.flush(true);
+    }
+    this.stopSession();
+    this.isDestroyed = true;
+  }
+
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      console.log('[Session Replay]', ...args);
+    }
+  }
+}
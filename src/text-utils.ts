@@ -44,3 +44,41 @@ export function cleanElementText(text: string | null | undefined, maxLength: num
   
   return cleaned.substring(0, maxLength) || undefined;
 }
+
+/**
+ * Mask text that looks like personal data before it leaves the browser
+ * Used for DOM snapshots and session replay recordings
+ */
+export function maskSensitiveText(text: string): string {
+  // Basic PII masking - mask anything that looks like an email address
+  return text.replace(/[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g, '*****');
+}
+
+/**
+ * Hash a string to an unsigned 32-bit integer (FNV-1a)
+ * Stable across page loads - used for sampling and fingerprints, not security
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  // Final avalanche (MurmurHash3 fmix32) - FNV alone leaves the high bits
+  // nearly unchanged for IDs that only differ at the end, which skews sampling
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * Size of a string in bytes once UTF-8 encoded
+ * Used to keep request bodies under browser limits
+ */
+export function byteLength(text: string): number {
+  return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+}
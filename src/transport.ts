@@ -0,0 +1,79 @@
+/**
+ * Transport layer for Grain Analytics
+ * Delivers event batches and other payloads to the Grain API
+ *
+ * Implement `Transport` to route events through your own channel
+ * (Service Worker relay, first-party proxy, IPC bridge, in-memory for tests).
+ */
+
+import type { EventPayload } from './index';
+
+export interface TransportRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: string; // Serialized request payload - the events array for event batches
+  events: EventPayload[]; // Events in the batch, empty for other payloads (traits, replay chunks)
+  keepalive?: boolean; // Request must outlive the page (unload delivery)
+}
+
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  body?: string; // Response text, used for error messages
+}
+
+export interface Transport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * Default transport: POST with fetch
+ */
+export class FetchTransport implements Transport {
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await fetch(request.url, {
+      method: 'POST',
+      headers: request.headers,
+      body: request.body,
+      keepalive: request.keepalive,
+    });
+
+    let body: string | undefined;
+    if (!response.ok) {
+      try {
+        body = await response.text();
+      } catch {
+        // Ignore unreadable error bodies
+      }
+    }
+
+    return {
+      ok: response.ok,
+      status: response.status,
+      body,
+    };
+  }
+}
+
+/**
+ * Default unload transport: navigator.sendBeacon with fetch keepalive fallback
+ *
+ * Beacon API doesn't support custom headers, so authenticated requests
+ * always go through fetch with keepalive.
+ */
+export class BeaconTransport implements Transport {
+  private fallback = new FetchTransport();
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const needsAuth = 'Authorization' in request.headers;
+
+    if (!needsAuth && typeof navigator !== 'undefined' && 'sendBeacon' in navigator) {
+      const blob = new Blob([request.body], { type: 'application/json' });
+      if (navigator.sendBeacon(request.url, blob)) {
+        return { ok: true, status: 202 };
+      }
+    }
+
+    return this.fallback.send({ ...request, keepalive: true });
+  }
+}
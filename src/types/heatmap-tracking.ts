@@ -46,6 +46,8 @@ export interface HeatmapTrackingOptions {
   maxSectionDuration?: number; // Max continuous attention per viewport section (default: 9000ms)
   minScrollDistance?: number; // Min scroll to reset attention (default: 100px)
   idleThreshold?: number; // Idle time before pausing tracking (default: 30000ms)
+  // Frustration signals (applied via FrustrationDetector)
+  detectFrustration?: boolean; // Emit rage, dead and error click events (default: false)
 }
 
 export interface HeatmapScrollState {
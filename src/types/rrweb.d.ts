@@ -0,0 +1,39 @@
+/**
+ * Type declarations for rrweb (recorder only)
+ */
+
+declare module 'rrweb' {
+  export interface eventWithTime {
+    type: number;
+    data: unknown;
+    timestamp: number;
+  }
+
+  export interface SamplingStrategy {
+    mousemove?: boolean | number;
+    mouseInteraction?: boolean | Record<string, boolean | undefined>;
+    scroll?: number;
+    media?: number;
+    input?: 'all' | 'last';
+  }
+
+  export interface RecordOptions {
+    emit: (event: eventWithTime, isCheckout?: boolean) => void;
+    checkoutEveryNms?: number;
+    checkoutEveryNth?: number;
+    blockClass?: string;
+    blockSelector?: string;
+    maskTextClass?: string;
+    maskTextSelector?: string;
+    maskAllInputs?: boolean;
+    maskInputOptions?: Record<string, boolean>;
+    maskInputFn?: (text: string, element: HTMLElement) => string;
+    maskTextFn?: (text: string) => string;
+    inlineStylesheet?: boolean;
+    sampling?: SamplingStrategy;
+    recordCanvas?: boolean;
+    collectFonts?: boolean;
+  }
+
+  export function record(options: RecordOptions): (() => void) | undefined;
+}
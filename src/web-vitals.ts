@@ -0,0 +1,330 @@
+/**
+ * Web Vitals Manager for Grain Analytics
+ * Collects Core Web Vitals and navigation timing with PerformanceObserver
+ *
+ * Metrics: LCP, CLS, INP, FCP, TTFB and navigation timing
+ *
+ * Reported once per page view as a `_grain_web_vitals` system event, keyed
+ * to the same `page` path as page views:
+ * - The loaded page reports when it is first hidden (tab switch, close, navigation)
+ * - SPA route changes report CLS and INP for the previous route as a soft navigation
+ *
+ * Follows the attention-quality page visibility policy: paints and shifts that
+ * happen while the tab is in the background are ignored, so background tabs
+ * don't skew results.
+ */
+
+import { PageVisibilityPolicy } from './attention-quality';
+
+export interface WebVitalsTracker {
+  trackSystemEvent(eventName: string, properties: Record<string, unknown>): void;
+  getCurrentPage(): string | null;
+  getSessionId(): string;
+  log(...args: unknown[]): void;
+}
+
+export interface WebVitalsOptions {
+  debug?: boolean;
+}
+
+export interface WebVitalsMetrics {
+  lcp?: number; // Largest Contentful Paint (ms)
+  fcp?: number; // First Contentful Paint (ms)
+  cls?: number; // Cumulative Layout Shift (unitless)
+  inp?: number; // Interaction to Next Paint (ms)
+  ttfb?: number; // Time to First Byte (ms)
+}
+
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+// CLS session windows: shifts less than 1s apart, capped at 5s
+const CLS_SESSION_GAP = 1000;
+const CLS_SESSION_MAX = 5000;
+
+// INP approximates the 98th percentile: skip one worst interaction per 50
+const INP_INTERACTIONS_PER_OUTLIER = 50;
+
+export class WebVitalsManager {
+  private tracker: WebVitalsTracker;
+  private options: WebVitalsOptions;
+  private isDestroyed = false;
+
+  private observers: PerformanceObserver[] = [];
+  private pageVisibility: PageVisibilityPolicy | null = null;
+  private page: string | null = null;
+  private isSoftNavigation = false;
+  private hasReported = false;
+
+  // Metric state for the current page view
+  private lcp: number | undefined;
+  private fcp: number | undefined;
+  private clsValue = 0;
+  private clsSessionValue = 0;
+  private clsSessionEntries: LayoutShiftEntry[] = [];
+  private interactionLatencies = new Map<number, number>();
+
+  private pagehideHandler: (() => void) | null = null;
+
+  constructor(tracker: WebVitalsTracker, options: WebVitalsOptions = {}) {
+    this.tracker = tracker;
+    this.options = options;
+
+    if (typeof window === 'undefined' || typeof document === 'undefined' || typeof PerformanceObserver === 'undefined') {
+      return;
+    }
+
+    this.page = this.resolvePage();
+
+    this.setupVisibilityHandlers();
+    this.observe('paint', (entries) => this.handlePaint(entries));
+    this.observe('largest-contentful-paint', (entries) => this.handleLargestContentfulPaint(entries));
+    this.observe('layout-shift', (entries) => this.handleLayoutShift(entries as LayoutShiftEntry[]));
+    this.observe('event', (entries) => this.handleEventTiming(entries as EventTimingEntry[]), { durationThreshold: 40 });
+  }
+
+  /**
+   * Report the previous route and start measuring the new one
+   * Called on SPA route changes
+   */
+  onPageChange(page: string): void {
+    if (this.isDestroyed || page === this.page) return;
+
+    this.report();
+
+    // Load metrics (LCP, FCP, TTFB) only exist for the document load
+    this.page = page;
+    this.isSoftNavigation = true;
+    this.hasReported = false;
+    this.clsValue = 0;
+    this.clsSessionValue = 0;
+    this.clsSessionEntries = [];
+    this.interactionLatencies.clear();
+  }
+
+  /**
+   * Get the metrics collected so far for the current page view
+   */
+  getMetrics(): WebVitalsMetrics {
+    const metrics: WebVitalsMetrics = {};
+
+    if (!this.isSoftNavigation) {
+      if (this.lcp !== undefined) metrics.lcp = Math.round(this.lcp);
+      if (this.fcp !== undefined) metrics.fcp = Math.round(this.fcp);
+      const ttfb = this.getTimeToFirstByte();
+      if (ttfb !== undefined) metrics.ttfb = ttfb;
+    }
+
+    metrics.cls = Math.round(this.clsValue * 10000) / 10000;
+
+    const inp = this.getInteractionToNextPaint();
+    if (inp !== undefined) metrics.inp = inp;
+
+    return metrics;
+  }
+
+  private observe(
+    type: string,
+    callback: (entries: PerformanceEntry[]) => void,
+    extra: Record<string, unknown> = {}
+  ): void {
+    try {
+      const observer = new PerformanceObserver((list) => {
+        if (this.isDestroyed) return;
+        callback(list.getEntries());
+      });
+      observer.observe({ type, buffered: true, ...extra } as PerformanceObserverInit);
+      this.observers.push(observer);
+    } catch {
+      // Entry type not supported by this browser - metric stays empty
+      this.log(`Performance entry type not supported: ${type}`);
+    }
+  }
+
+  private handlePaint(entries: PerformanceEntry[]): void {
+    for (const entry of entries) {
+      if (entry.name === 'first-contentful-paint' && !this.wasHiddenAt(entry)) {
+        this.fcp = entry.startTime;
+      }
+    }
+  }
+
+  private handleLargestContentfulPaint(entries: PerformanceEntry[]): void {
+    for (const entry of entries) {
+      if (!this.wasHiddenAt(entry)) {
+        this.lcp = entry.startTime;
+      }
+    }
+  }
+
+  private handleLayoutShift(entries: LayoutShiftEntry[]): void {
+    for (const entry of entries) {
+      // Shifts right after user input are expected; background shifts aren't seen.
+      // Unlike LCP and FCP, CLS keeps counting once the page is shown again.
+      if (entry.hadRecentInput || !this.isPageVisible()) continue;
+
+      const first = this.clsSessionEntries[0];
+      const last = this.clsSessionEntries[this.clsSessionEntries.length - 1];
+      const continuesSession = first && last &&
+        entry.startTime - last.startTime < CLS_SESSION_GAP &&
+        entry.startTime - first.startTime < CLS_SESSION_MAX;
+
+      if (continuesSession) {
+        this.clsSessionValue += entry.value;
+        this.clsSessionEntries.push(entry);
+      } else {
+        this.clsSessionValue = entry.value;
+        this.clsSessionEntries = [entry];
+      }
+
+      this.clsValue = Math.max(this.clsValue, this.clsSessionValue);
+    }
+  }
+
+  private handleEventTiming(entries: EventTimingEntry[]): void {
+    for (const entry of entries) {
+      if (!entry.interactionId) continue;
+      const existing = this.interactionLatencies.get(entry.interactionId) || 0;
+      this.interactionLatencies.set(entry.interactionId, Math.max(existing, entry.duration));
+    }
+  }
+
+  private getInteractionToNextPaint(): number | undefined {
+    if (this.interactionLatencies.size === 0) return undefined;
+
+    const latencies = [...this.interactionLatencies.values()].sort((a, b) => b - a);
+    const index = Math.min(
+      latencies.length - 1,
+      Math.floor(latencies.length / INP_INTERACTIONS_PER_OUTLIER)
+    );
+    return Math.round(latencies[index]);
+  }
+
+  private getNavigationEntry(): PerformanceNavigationTiming | undefined {
+    try {
+      return performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getTimeToFirstByte(): number | undefined {
+    const navigation = this.getNavigationEntry();
+    if (!navigation || navigation.responseStart <= 0) return undefined;
+    return Math.round(navigation.responseStart);
+  }
+
+  /**
+   * Navigation timing breakdown for the document load
+   */
+  private getNavigationTiming(): Record<string, unknown> {
+    const navigation = this.getNavigationEntry();
+    if (!navigation) return {};
+
+    const duration = (start: number, end: number) => (end > 0 && end >= start ? Math.round(end - start) : undefined);
+
+    return {
+      navigation_type: navigation.type,
+      dns_ms: duration(navigation.domainLookupStart, navigation.domainLookupEnd),
+      connect_ms: duration(navigation.connectStart, navigation.connectEnd),
+      request_ms: duration(navigation.requestStart, navigation.responseStart),
+      response_ms: duration(navigation.responseStart, navigation.responseEnd),
+      dom_interactive_ms: duration(0, navigation.domInteractive),
+      dom_content_loaded_ms: duration(0, navigation.domContentLoadedEventEnd),
+      load_ms: duration(0, navigation.loadEventEnd),
+      transfer_size: navigation.transferSize,
+    };
+  }
+
+  /**
+   * Send the metrics for the current page view (once)
+   */
+  private report(): void {
+    if (this.hasReported || !this.page) return;
+    this.hasReported = true;
+
+    const metrics = this.getMetrics();
+    const hasInteraction = metrics.inp !== undefined;
+
+    // Soft navigations with nothing measured aren't worth an event
+    if (this.isSoftNavigation && !hasInteraction && !metrics.cls) return;
+
+    this.tracker.trackSystemEvent('_grain_web_vitals', {
+      page: this.page,
+      session_id: this.tracker.getSessionId(),
+      soft_navigation: this.isSoftNavigation,
+      ...metrics,
+      ...(this.isSoftNavigation ? {} : this.getNavigationTiming()),
+      timestamp: Date.now(),
+    });
+
+    this.log('Reported web vitals for', this.page, metrics);
+  }
+
+  private setupVisibilityHandlers(): void {
+    this.pageVisibility = new PageVisibilityPolicy();
+    this.pageVisibility.onChange((isVisible) => {
+      if (!isVisible) {
+        this.report();
+      }
+    });
+    this.pagehideHandler = () => {
+      this.report();
+    };
+
+    window.addEventListener('pagehide', this.pagehideHandler);
+  }
+
+  /**
+   * Check if an entry happened after the page was first hidden
+   * Load metrics (LCP, FCP) only count what the user saw before that
+   */
+  private wasHiddenAt(entry: PerformanceEntry): boolean {
+    return this.pageVisibility?.wasHiddenAt(entry.startTime) ?? false;
+  }
+
+  private isPageVisible(): boolean {
+    return this.pageVisibility?.isPageVisible() ?? true;
+  }
+
+  private resolvePage(): string {
+    return this.tracker.getCurrentPage() || window.location.pathname;
+  }
+
+  /**
+   * Log debug message
+   */
+  private log(...args: unknown[]): void {
+    if (this.options.debug) {
+      this.tracker.log('[Web Vitals]', ...args);
+    }
+  }
+
+  /**
+   * Destroy the manager
+   */
+  destroy(): void {
+    if (this.isDestroyed) return;
+    this.isDestroyed = true;
+
+    for (const observer of this.observers) {
+      observer.disconnect();
+    }
+    this.observers = [];
+
+    if (this.pageVisibility) {
+      this.pageVisibility.destroy();
+      this.pageVisibility = null;
+    }
+    if (this.pagehideHandler) {
+      window.removeEventListener('pagehide', this.pagehideHandler);
+      this.pagehideHandler = null;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Config Bootstrap Tests
+ * Tests fetching configs for server-side rendering and hydrating the browser client
+ */
+
+import {
+  createGrainAnalytics,
+  getConfigBootstrapScript,
+  serializeConfigBootstrap,
+  type ConfigBootstrap,
+} from '../src/index';
+import { createGrainServerAnalytics } from '../src/server';
+import { CONFIG_BOOTSTRAP_GLOBAL } from '../src/config-bootstrap';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+function createBootstrap(overrides: Partial<ConfigBootstrap> = {}): ConfigBootstrap {
+  return {
+    tenantId: TEST_TENANT_ID,
+    userId: 'user_1',
+    snapshotId: 'snapshot_1',
+    configurations: { hero_variant: 'variant_b' },
+    qualifiedSegments: [],
+    qualifiedRuleSets: [],
+    timestamp: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function createClient(bootstrapConfig?: ConfigBootstrap) {
+  return createGrainAnalytics({
+    tenantId: TEST_TENANT_ID,
+    apiUrl: TEST_API_URL,
+    enableHeartbeat: false,
+    enableAutoPageView: false,
+    defaultConfigurations: { hero_variant: 'control' },
+    bootstrapConfig,
+  });
+}
+
+describe('Config Bootstrap', () => {
+  afterEach(() => {
+    delete (window as any)[CONFIG_BOOTSTRAP_GLOBAL];
+  });
+
+  test('should hydrate the cache synchronously from config', () => {
+    const grain = createClient(createBootstrap());
+
+    expect(grain.getConfig('hero_variant', { trackExposure: false })).toBe('variant_b');
+    expect(grain.getConfigSource('hero_variant')).toBe('remote');
+
+    grain.destroy();
+  });
+
+  test('should hydrate from an embedded bootstrap script', () => {
+    new Function(getConfigBootstrapScript(createBootstrap()))();
+    const grain = createClient();
+
+    expect(grain.getConfig('hero_variant', { trackExposure: false })).toBe('variant_b');
+
+    grain.destroy();
+  });
+
+  test('should ignore bootstraps for another tenant or older than the cache', () => {
+    const grain = createClient(createBootstrap({ tenantId: 'other-tenant' }));
+    expect(grain.getConfig('hero_variant')).toBe('control');
+
+    expect(grain.hydrateConfig(createBootstrap({ snapshotId: 'snapshot_2' }))).toBe(true);
+    const stale = createBootstrap({
+      configurations: { hero_variant: 'stale' },
+      timestamp: new Date(Date.now() - 60000).toISOString(),
+    });
+    expect(grain.hydrateConfig(stale)).toBe(false);
+    expect(grain.getConfig('hero_variant', { trackExposure: false })).toBe('variant_b');
+
+    grain.destroy();
+  });
+
+  test('should escape markup when serializing', () => {
+    const bootstrap = createBootstrap({ configurations: { banner: '</script><script>alert(1)</script>' } });
+    const serialized = serializeConfigBootstrap(bootstrap);
+
+    expect(serialized).not.toContain('</script>');
+    expect(JSON.parse(serialized)).toEqual(bootstrap);
+  });
+
+  test('should fetch a bootstrap on the server with the browser request shape', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        userId: 'user_1',
+        snapshotId: 'snapshot_1',
+        configurations: { hero_variant: 'variant_b' },
+        isFinal: true,
+        qualifiedSegments: ['returning_visitors'],
+        qualifiedRuleSets: [],
+        timestamp: new Date().toISOString(),
+        isFromCache: false,
+      }),
+    });
+    const server = createGrainServerAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      secretKey: 'test-secret',
+    });
+
+    const bootstrap = await server.getConfigBootstrap('user_1', {
+      currentUrl: 'https://example.com/pricing?plan=pro',
+      immediateKeys: ['hero_variant'],
+    });
+
+    // jsdom also runs the auto-tracking config fetch
+    const [url, init] = (global.fetch as jest.Mock).mock.calls
+      .find(([, request]) => JSON.parse(request.body).userId === 'user_1');
+    expect(url).toBe(`${TEST_API_URL}/v1/client/${TEST_TENANT_ID}/config/configurations`);
+    expect(JSON.parse(init.body)).toEqual({
+      userId: 'user_1',
+      immediateKeys: ['hero_variant'],
+      properties: {},
+      currentUrl: 'https://example.com/pricing',
+    });
+    expect(bootstrap).toMatchObject({
+      tenantId: TEST_TENANT_ID,
+      userId: 'user_1',
+      configurations: { hero_variant: 'variant_b' },
+      qualifiedSegments: ['returning_visitors'],
+    });
+
+    await server.shutdown();
+  });
+});
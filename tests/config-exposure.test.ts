@@ -0,0 +1,114 @@
+/**
+ * Config Exposure Tests
+ * Tests exposure events recorded when remote config values are read
+ */
+
+import type { GrainConfig } from '../src/index';
+import { MemoryTransport, createClient } from './helpers';
+
+function mockConfigResponse(configurations: Record<string, string>, snapshotId = 'snapshot_1') {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      userId: 'user_1',
+      snapshotId,
+      configurations,
+      isFinal: true,
+      qualifiedSegments: ['returning_visitors'],
+      qualifiedRuleSets: ['checkout_experiment'],
+      timestamp: new Date().toISOString(),
+      isFromCache: false,
+    }),
+  });
+}
+
+describe('Config Exposure', () => {
+  let transport: MemoryTransport;
+
+  async function createFetchedClient(config: Partial<GrainConfig> = {}) {
+    const grain = createClient({
+      transport,
+      enableConfigCache: false,
+      defaultConfigurations: { hero_variant: 'control' },
+      ...config,
+    });
+    await grain.fetchConfig({ forceRefresh: true });
+    return grain;
+  }
+
+  async function exposures(grain: ReturnType<typeof createClient>) {
+    await grain.flush();
+    return transport.events.filter(e => e.eventName === '_grain_config_exposure');
+  }
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    mockConfigResponse({ hero_variant: 'variant_b', checkout_flow: 'one_page' });
+  });
+
+  test('should record one exposure per key, value and snapshot', async () => {
+    const grain = await createFetchedClient();
+
+    expect(grain.getConfig('hero_variant')).toBe('variant_b');
+    grain.getConfig('hero_variant');
+
+    const events = await exposures(grain);
+    expect(events).toHaveLength(1);
+    expect(events[0].properties).toMatchObject({
+      config_key: 'hero_variant',
+      config_value: 'variant_b',
+      snapshot_id: 'snapshot_1',
+      rule_sets: ['checkout_experiment'],
+      segments: ['returning_visitors'],
+    });
+
+    grain.destroy();
+  });
+
+  test('should record a new exposure when the served value changes', async () => {
+    const grain = await createFetchedClient();
+    grain.getConfig('hero_variant');
+
+    mockConfigResponse({ hero_variant: 'variant_c' }, 'snapshot_2');
+    await grain.fetchConfig({ forceRefresh: true });
+    grain.getConfig('hero_variant');
+
+    const values = (await exposures(grain)).map(e => e.properties.config_value);
+    expect(values).toEqual(['variant_b', 'variant_c']);
+
+    grain.destroy();
+  });
+
+  test('should not record exposures for defaults', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 503, json: async () => ({}) });
+    const grain = await createFetchedClient({ retryAttempts: 0 });
+
+    expect(grain.getConfig('hero_variant')).toBe('control');
+    expect(await exposures(grain)).toHaveLength(0);
+
+    grain.destroy();
+  });
+
+  test('should honor per-key and per-call opt-outs', async () => {
+    const grain = await createFetchedClient({ exposureExcludedKeys: ['checkout_flow'] });
+
+    grain.getConfig('checkout_flow');
+    grain.getConfig('hero_variant', { trackExposure: false });
+    expect(await exposures(grain)).toHaveLength(0);
+
+    grain.destroy();
+  });
+
+  test('should record exposures from typed accessors', async () => {
+    mockConfigResponse({ new_checkout: 'true' });
+    const grain = await createFetchedClient();
+
+    expect(grain.getBoolean('new_checkout', false)).toBe(true);
+
+    const events = await exposures(grain);
+    expect(events.map(e => e.properties.config_key)).toEqual(['new_checkout']);
+
+    grain.destroy();
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Config Override Tests
+ * Tests local config overrides from code, URL params and localStorage
+ */
+
+import type { GrainConfig } from '../src/index';
+import { MemoryTransport, createClient } from './helpers';
+import { TEST_TENANT_ID } from './setup';
+
+function mockConfigResponse(configurations: Record<string, string>) {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      userId: 'user_1',
+      snapshotId: 'snapshot_1',
+      configurations,
+      isFinal: true,
+      qualifiedSegments: [],
+      qualifiedRuleSets: [],
+      timestamp: new Date().toISOString(),
+      isFromCache: false,
+    }),
+  });
+}
+
+describe('Config Overrides', () => {
+  let transport: MemoryTransport;
+
+  function createOverrideClient(config: Partial<GrainConfig> = {}) {
+    return createClient({
+      transport,
+      enableConfigCache: false,
+      enableConfigOverrides: true,
+      defaultConfigurations: { hero_variant: 'control', max_items: 10 },
+      ...config,
+    });
+  }
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    mockConfigResponse({ hero_variant: 'variant_b', checkout_flow: 'one_page' });
+  });
+
+  afterEach(() => {
+    window.history.replaceState({}, '', '/');
+  });
+
+  test('should take precedence over remote values and defaults', async () => {
+    const grain = createOverrideClient();
+    await grain.fetchConfig({ forceRefresh: true });
+
+    grain.setConfigOverride('hero_variant', 'variant_c');
+    grain.setConfigOverride('max_items', 50);
+
+    expect(grain.getConfig('hero_variant')).toBe('variant_c');
+    expect(grain.getNumber('max_items')).toBe(50);
+    expect(grain.getAllConfigs()).toEqual({
+      hero_variant: 'variant_c',
+      max_items: '50',
+      checkout_flow: 'one_page',
+    });
+
+    grain.removeConfigOverride('hero_variant');
+    expect(grain.getConfig('hero_variant')).toBe('variant_b');
+
+    grain.destroy();
+  });
+
+  test('should report which layer each value comes from', async () => {
+    localStorage.setItem(`_grain_config_overrides_${TEST_TENANT_ID}`, JSON.stringify({ checkout_flow: 'classic' }));
+    const grain = createOverrideClient();
+    await grain.fetchConfig({ forceRefresh: true });
+    grain.setConfigOverride('new_nav', true);
+
+    expect(grain.getConfigSource('hero_variant')).toBe('remote');
+    expect(grain.getConfigSource('max_items')).toBe('default');
+    expect(grain.getConfigSource('checkout_flow')).toBe('storage');
+    expect(grain.getConfigSource('new_nav')).toBe('override');
+    expect(grain.getConfigSource('missing')).toBeUndefined();
+    expect(grain.getAllConfigSources()).toEqual({
+      hero_variant: 'remote',
+      max_items: 'default',
+      checkout_flow: 'storage',
+      new_nav: 'override',
+    });
+
+    grain.destroy();
+  });
+
+  test('should read overrides from URL params for the rest of the session', () => {
+    window.history.replaceState({}, '', '/?grain_config.hero_variant=variant_d&utm_source=qa');
+    const first = createOverrideClient();
+    expect(first.getConfig('hero_variant')).toBe('variant_d');
+    expect(first.getConfigSource('hero_variant')).toBe('url');
+    first.destroy();
+
+    // Param is gone after navigating, the override is kept
+    window.history.replaceState({}, '', '/checkout');
+    const second = createOverrideClient();
+    expect(second.getConfig('hero_variant')).toBe('variant_d');
+
+    second.clearConfigOverrides();
+    expect(second.getConfig('hero_variant')).toBe('control');
+    second.destroy();
+  });
+
+  test('should persist programmatic overrides only when asked', () => {
+    const first = createOverrideClient();
+    first.setConfigOverride('hero_variant', 'memory_only');
+    first.setConfigOverride('checkout_flow', 'classic', { persist: true });
+    first.destroy();
+
+    const second = createOverrideClient();
+    expect(second.getConfig('hero_variant')).toBe('control');
+    expect(second.getConfig('checkout_flow')).toBe('classic');
+    second.destroy();
+  });
+
+  test('should ignore URL and storage overrides by default', () => {
+    window.history.replaceState({}, '', '/?grain_config.hero_variant=variant_d');
+    localStorage.setItem(`_grain_config_overrides_${TEST_TENANT_ID}`, JSON.stringify({ max_items: '99' }));
+    const grain = createClient({
+      transport,
+      enableConfigCache: false,
+      defaultConfigurations: { hero_variant: 'control', max_items: 10 },
+    });
+
+    expect(grain.getConfig('hero_variant')).toBe('control');
+    expect(grain.getNumber('max_items')).toBe(10);
+
+    grain.setConfigOverride('hero_variant', 'variant_c');
+    expect(grain.getConfig('hero_variant')).toBe('variant_c');
+
+    grain.destroy();
+  });
+
+  test('should not persist overrides when external sources are disabled', () => {
+    const consoleSpy = jest.spyOn(console, 'warn').mockImplementation();
+    const grain = createClient({ transport, enableConfigCache: false });
+
+    grain.setConfigOverride('checkout_flow', 'classic', { persist: true });
+    expect(grain.getConfig('checkout_flow')).toBe('classic');
+    expect(localStorage.getItem(`_grain_config_overrides_${TEST_TENANT_ID}`)).toBeNull();
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('persist requires enableConfigOverrides'));
+
+    grain.destroy();
+  });
+
+  test('should notify listeners and skip exposures for overridden values', async () => {
+    const grain = createOverrideClient();
+    await grain.fetchConfig({ forceRefresh: true });
+    const listener = jest.fn();
+    grain.addConfigChangeListener(listener);
+
+    grain.setConfigOverride('hero_variant', 'variant_c');
+    expect(listener).toHaveBeenLastCalledWith({ hero_variant: 'variant_c', checkout_flow: 'one_page' });
+
+    grain.getConfig('hero_variant');
+    await grain.flush();
+    expect(transport.events.filter(e => e.eventName === '_grain_config_exposure')).toHaveLength(0);
+
+    grain.destroy();
+  });
+});
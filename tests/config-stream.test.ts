@@ -0,0 +1,193 @@
+/**
+ * Config Stream Tests
+ * Tests streamed config updates over SSE and long-poll with fallback to polling
+ */
+
+import { createGrainAnalytics } from '../src/index';
+import {
+  ConfigStreamManager,
+  type ConfigStreamMessage,
+  type ConfigStreamTracker,
+} from '../src/config-stream';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+class MockEventSource {
+  static instances: MockEventSource[] = [];
+
+  url: string;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    MockEventSource.instances.push(this);
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  emit(message: ConfigStreamMessage): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  static latest(): MockEventSource {
+    return MockEventSource.instances[MockEventSource.instances.length - 1];
+  }
+}
+
+function createTracker(headers: Record<string, string> = {}) {
+  const updates: ConfigStreamMessage[] = [];
+  const state = { unavailable: false };
+  const tracker: ConfigStreamTracker = {
+    getConfigBaseUrl: () => 'https://api.example.com/v1/client/tenant/config',
+    getStreamRequest: () => ({ userId: 'user_1', snapshotId: 'snapshot_1' }),
+    getAuthHeaders: async () => ({ 'Content-Type': 'application/json', ...headers }),
+    applyConfigUpdate: (message) => {
+      updates.push(message);
+    },
+    onStreamUnavailable: () => {
+      state.unavailable = true;
+    },
+  };
+  return { tracker, updates, state };
+}
+
+function setVisibility(state: 'visible' | 'hidden'): void {
+  Object.defineProperty(document, 'visibilityState', { value: state, configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Config Stream', () => {
+  beforeEach(() => {
+    MockEventSource.instances = [];
+    (global as any).EventSource = MockEventSource;
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+  });
+
+  afterEach(() => {
+    delete (global as any).EventSource;
+  });
+
+  test('should apply updates pushed over SSE', async () => {
+    const { tracker, updates } = createTracker();
+    const manager = new ConfigStreamManager(tracker);
+
+    await manager.start();
+    const source = MockEventSource.latest();
+    source.onopen?.();
+    source.emit({ snapshotId: 'snapshot_2', changed: { kill_switch: 'true' } });
+
+    expect(source.url).toContain('/config/stream?userId=user_1&snapshotId=snapshot_1');
+    expect(manager.isConnected()).toBe(true);
+    expect(updates).toEqual([{ snapshotId: 'snapshot_2', changed: { kill_switch: 'true' } }]);
+
+    manager.destroy();
+  });
+
+  test('should disconnect while the tab is hidden', async () => {
+    const { tracker } = createTracker();
+    const manager = new ConfigStreamManager(tracker);
+
+    await manager.start();
+    const first = MockEventSource.latest();
+
+    setVisibility('hidden');
+    expect(first.closed).toBe(true);
+    expect(MockEventSource.instances).toHaveLength(1);
+
+    setVisibility('visible');
+    expect(MockEventSource.instances).toHaveLength(2);
+
+    manager.destroy();
+  });
+
+  test('should long-poll when requests need auth headers', async () => {
+    const { tracker, updates } = createTracker({ Authorization: 'Bearer token' });
+    const message: ConfigStreamMessage = { snapshotId: 'snapshot_2', changed: {}, removed: ['old_flag'] };
+    global.fetch = jest.fn()
+      .mockResolvedValueOnce({ ok: true, status: 200, text: async () => JSON.stringify(message) })
+      // Next poll stays open until the manager aborts it
+      .mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+      }));
+    const manager = new ConfigStreamManager(tracker);
+
+    await manager.start();
+    await flushPromises();
+
+    expect(manager.getTransport()).toBe('long-poll');
+    expect(MockEventSource.instances).toHaveLength(0);
+    expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe('https://api.example.com/v1/client/tenant/config/poll');
+    expect(updates).toEqual([message]);
+
+    manager.destroy();
+  });
+
+  test('should fall back to polling after repeated failures', async () => {
+    const { tracker, state } = createTracker();
+    global.fetch = jest.fn().mockRejectedValue(new Error('Network error'));
+    const manager = new ConfigStreamManager(tracker, { reconnectDelay: 1, maxFailures: 2 });
+
+    await manager.start();
+
+    // SSE fails twice, then long-poll fails twice
+    for (let i = 0; i < 2; i++) {
+      MockEventSource.latest().onerror?.();
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect(manager.getTransport()).toBe('long-poll');
+
+    for (let i = 0; i < 10 && !state.unavailable; i++) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    expect(state.unavailable).toBe(true);
+
+    manager.destroy();
+  });
+
+  test('should merge streamed changes into the client config', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        userId: 'user_1',
+        snapshotId: 'snapshot_1',
+        configurations: { hero_variant: 'a', old_flag: 'true' },
+        isFinal: true,
+        qualifiedSegments: [],
+        qualifiedRuleSets: [],
+        timestamp: new Date().toISOString(),
+        isFromCache: false,
+      }),
+    });
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      enableConfigCache: false,
+      enableHeartbeat: false,
+      enableAutoPageView: false,
+      configUpdateMode: 'stream',
+    });
+    const listener = jest.fn();
+    grain.addConfigChangeListener(listener);
+
+    await grain.preloadConfig();
+    for (let i = 0; i < 5 && MockEventSource.instances.length === 0; i++) {
+      await flushPromises();
+    }
+
+    MockEventSource.latest().emit({ snapshotId: 'snapshot_2', changed: { hero_variant: 'b' }, removed: ['old_flag'] });
+
+    expect(grain.getConfig('hero_variant', { trackExposure: false })).toBe('b');
+    expect(grain.getConfig('old_flag', { trackExposure: false })).toBeUndefined();
+    expect(listener).toHaveBeenLastCalledWith({ hero_variant: 'b' });
+
+    grain.destroy();
+    expect(MockEventSource.latest().closed).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Typed Config Value Tests
+ * Tests boolean, number and JSON decoding of remote config values
+ */
+
+import { createGrainAnalytics } from '../src/index';
+import {
+  decodeBooleanConfig,
+  decodeNumberConfig,
+  decodeJSONConfig,
+  encodeConfigValues,
+} from '../src/config-values';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+interface Banner {
+  text: string;
+  dismissible?: boolean;
+}
+
+const bannerSchema = {
+  properties: {
+    text: { type: 'string' as const, required: true },
+    dismissible: 'boolean' as const,
+  },
+};
+
+function mockConfigResponse(configurations: Record<string, string>) {
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      userId: 'user_1',
+      snapshotId: 'snapshot_1',
+      configurations,
+      isFinal: true,
+      qualifiedSegments: [],
+      qualifiedRuleSets: [],
+      timestamp: new Date().toISOString(),
+      isFromCache: false,
+    }),
+  });
+}
+
+describe('Typed Config Values', () => {
+  test('should decode booleans', () => {
+    expect(decodeBooleanConfig('true')).toEqual({ ok: true, value: true });
+    expect(decodeBooleanConfig(' FALSE ')).toEqual({ ok: true, value: false });
+    expect(decodeBooleanConfig('1')).toEqual({ ok: true, value: true });
+    expect(decodeBooleanConfig('yes').ok).toBe(false);
+    expect(decodeBooleanConfig(undefined).ok).toBe(false);
+  });
+
+  test('should decode numbers with range checks', () => {
+    expect(decodeNumberConfig('42.5')).toEqual({ ok: true, value: 42.5 });
+    expect(decodeNumberConfig('').ok).toBe(false);
+    expect(decodeNumberConfig('12px').ok).toBe(false);
+    expect(decodeNumberConfig('2.5', { integer: true }).ok).toBe(false);
+    expect(decodeNumberConfig('150', { max: 100 }).ok).toBe(false);
+  });
+
+  test('should decode JSON and validate it against a schema', () => {
+    expect(decodeJSONConfig<Banner>('{"text":"Sale"}', bannerSchema)).toEqual({ ok: true, value: { text: 'Sale' } });
+    expect(decodeJSONConfig('{"text":', bannerSchema)).toEqual({ ok: false, error: 'value is not valid JSON' });
+    expect(decodeJSONConfig('{"dismissible":true}', bannerSchema).ok).toBe(false);
+
+    const isStringList = (value: unknown): value is string[] =>
+      Array.isArray(value) && value.every(item => typeof item === 'string');
+    expect(decodeJSONConfig('["a","b"]', isStringList).ok).toBe(true);
+    expect(decodeJSONConfig('[1,2]', isStringList).ok).toBe(false);
+  });
+
+  test('should encode typed defaults as strings', () => {
+    expect(encodeConfigValues({ flag: true, limit: 10, copy: 'Hi', list: ['a'] })).toEqual({
+      flag: 'true',
+      limit: '10',
+      copy: 'Hi',
+      list: '["a"]',
+    });
+  });
+
+  test('should read typed defaults from defaultConfigurations', () => {
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      enableConfigCache: false,
+      defaultConfigurations: {
+        new_checkout: true,
+        max_items: 25,
+        banner: { text: 'Welcome' },
+      },
+    });
+
+    expect(grain.getBoolean('new_checkout')).toBe(true);
+    expect(grain.getNumber('max_items')).toBe(25);
+    expect(grain.getJSON<Banner>('banner', undefined, bannerSchema)).toEqual({ text: 'Welcome' });
+    expect(grain.getConfig('new_checkout')).toBe('true');
+    expect(grain.getBoolean('missing_flag', false)).toBe(false);
+
+    grain.destroy();
+  });
+
+  test('should fall back when the remote value is invalid', async () => {
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      enableConfigCache: false,
+      defaultConfigurations: { max_items: 25 },
+    });
+
+    mockConfigResponse({ max_items: 'lots', new_checkout: 'true', banner: '{"dismissible":1}' });
+    await grain.fetchConfig({ forceRefresh: true });
+
+    expect(grain.getBoolean('new_checkout', false)).toBe(true);
+    expect(grain.getNumber('max_items', 10)).toBe(25);
+    expect(grain.getJSON<Banner>('banner', { text: 'Fallback' }, bannerSchema)).toEqual({ text: 'Fallback' });
+
+    grain.destroy();
+  });
+});
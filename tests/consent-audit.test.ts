@@ -0,0 +1,146 @@
+/**
+ * Consent Audit Tests
+ * Tests proof-of-consent records for consent changes
+ */
+
+import { ConsentAuditLog } from '../src/consent-audit';
+import { CONSENT_VERSION } from '../src/consent';
+import { MemoryTransport, createClient as createTestClient } from './helpers';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+const auditUrl = `${TEST_API_URL}/v1/privacy/${TEST_TENANT_ID}/consent-audit`;
+
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const record = {
+  action: 'grant' as const,
+  granted: true,
+  categories: ['necessary'],
+  previousCategories: [],
+  consentVersion: CONSENT_VERSION,
+  consentMode: 'GDPR_STRICT' as const,
+  userId: 'user_1',
+};
+
+function createClient(transport = new MemoryTransport()) {
+  return createTestClient({ consentMode: 'GDPR_STRICT', transport });
+}
+
+function createLog(transport: MemoryTransport, maxEntries = 100) {
+  return new ConsentAuditLog({
+    getApiUrl: () => TEST_API_URL,
+    getAuthHeaders: async () => ({}),
+    getTransport: () => transport,
+  }, { tenantId: TEST_TENANT_ID, maxEntries });
+}
+
+function auditRequests(transport: MemoryTransport) {
+  return transport.requests.filter(request => request.url === auditUrl);
+}
+
+describe('Consent Audit', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+  });
+
+  test('should record every consent change with its context', () => {
+    const grain = createClient();
+
+    grain.grantConsent(['necessary', 'analytics'], { surface: 'consent_banner', textVersion: 'banner-v3' });
+    grain.revokeConsent(['analytics']);
+
+    const entries = grain.getConsentAuditLog();
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      action: 'grant',
+      granted: true,
+      categories: ['necessary', 'analytics'],
+      previousCategories: [],
+      consentVersion: CONSENT_VERSION,
+      consentMode: 'GDPR_STRICT',
+      surface: 'consent_banner',
+      textVersion: 'banner-v3',
+      pageUrl: 'http://localhost/',
+    });
+    expect(entries[1]).toMatchObject({
+      action: 'revoke',
+      categories: ['necessary'],
+      previousCategories: ['necessary', 'analytics'],
+      surface: 'api',
+    });
+    expect(Date.parse(entries[0].timestamp)).not.toBeNaN();
+    expect(Object.isFrozen(entries[0])).toBe(true);
+
+    grain.destroy();
+  });
+
+  test('should send entries through the client transport', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient(transport);
+
+    grain.grantConsent(['necessary'], { surface: 'preference_center' });
+    await flushPromises();
+
+    expect(auditRequests(transport)).toHaveLength(1);
+    expect(auditRequests(transport)[0].keepalive).toBe(true);
+    const body = JSON.parse(auditRequests(transport)[0].body);
+    expect(body.entries).toEqual(grain.getConsentAuditLog());
+
+    grain.destroy();
+  });
+
+  test('should keep undelivered entries and retry them on the next load', async () => {
+    const failing = new MemoryTransport();
+    failing.responses.push({ ok: false, status: 503 });
+    const first = createClient(failing);
+    first.grantConsent(['necessary']);
+    await flushPromises();
+    first.destroy();
+
+    const transport = new MemoryTransport();
+    const second = createClient(transport);
+    await flushPromises();
+
+    expect(auditRequests(transport)).toHaveLength(1);
+    expect(JSON.parse(auditRequests(transport)[0].body).entries).toHaveLength(1);
+    expect(second.getConsentAuditLog()).toHaveLength(1);
+
+    second.destroy();
+  });
+
+  test('should only drop delivered entries when the log is full', async () => {
+    const transport = new MemoryTransport();
+    transport.responses.push(...Array(3).fill({ ok: false, status: 503 }));
+    const log = createLog(transport, 2);
+
+    // Each record() send fails, so the log keeps all three pending entries
+    log.record(record);
+    log.record(record);
+    log.record(record);
+    expect(log.getEntries()).toHaveLength(3);
+
+    await log.flush();
+    log.record(record);
+
+    expect(log.getEntries()).toHaveLength(2);
+    expect(log.getPendingEntries()).toHaveLength(1);
+  });
+
+  test('should drain a long backlog in batches that fit a keepalive request', async () => {
+    const transport = new MemoryTransport();
+    const log = createLog(transport, 500);
+
+    for (let i = 0; i < 120; i++) {
+      log.record({ ...record, pageUrl: `https://example.com/${'x'.repeat(2000)}/${i}` });
+    }
+    await log.flush();
+
+    const requests = auditRequests(transport);
+    expect(requests.length).toBeGreaterThan(1);
+    for (const request of requests) {
+      expect(request.body.length).toBeLessThanOrEqual(60000);
+      expect(JSON.parse(request.body).entries.length).toBeLessThanOrEqual(50);
+    }
+    expect(log.getPendingEntries()).toHaveLength(0);
+  });
+});
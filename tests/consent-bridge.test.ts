@@ -0,0 +1,166 @@
+/**
+ * Consent Bridge Tests
+ * Tests syncing consent with TCF, OneTrust, Cookiebot and Google Consent Mode
+ */
+
+import { createGrainAnalytics } from '../src/index';
+import type { ConsentBridgeConfig } from '../src/consent-bridge';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+function createClient(consentBridge: ConsentBridgeConfig) {
+  return createGrainAnalytics({
+    tenantId: TEST_TENANT_ID,
+    apiUrl: TEST_API_URL,
+    consentMode: 'GDPR_STRICT',
+    enableHeartbeat: false,
+    enableAutoPageView: false,
+    consentBridge,
+  });
+}
+
+describe('Consent Bridge', () => {
+  const globals = window as any;
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+  });
+
+  afterEach(() => {
+    delete globals.__tcfapi;
+    delete globals.OnetrustActiveGroups;
+    delete globals.OneTrust;
+    delete globals.Cookiebot;
+    delete globals.dataLayer;
+    delete globals.gtag;
+  });
+
+  test('should map TCF purposes onto Grain categories and record the TC string', () => {
+    let listener: ((data: any, success: boolean) => void) | undefined;
+    globals.__tcfapi = jest.fn((command: string, _version: number, callback: any) => {
+      if (command === 'addEventListener') listener = callback;
+    });
+    const grain = createClient({ source: 'tcf' });
+
+    listener!({ eventStatus: 'cmpuishown', listenerId: 3, gdprApplies: true, purpose: { consents: {} } }, true);
+    expect(grain.getConsentState()).toBeNull();
+
+    listener!({
+      eventStatus: 'useractioncomplete',
+      listenerId: 3,
+      tcString: 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA',
+      gdprApplies: true,
+      purpose: { consents: { 1: true, 8: true, 9: true } },
+    }, true);
+
+    expect(grain.getConsentState()).toMatchObject({ granted: true, categories: ['necessary', 'analytics'] });
+    expect(grain.getTCString()).toBe('CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA');
+    expect(grain.getConsentAuditLog()[0]).toMatchObject({
+      surface: 'cmp:tcf',
+      tcString: 'CPXxRfAPXxRfAAfKABENB-CgAAAAAAAAAAYgAAAAAAAA',
+    });
+
+    grain.destroy();
+    expect(globals.__tcfapi).toHaveBeenCalledWith('removeEventListener', 2, expect.any(Function), 3);
+  });
+
+  test('should follow OneTrust group updates', () => {
+    globals.OnetrustActiveGroups = ',C0001,C0002,C0003,';
+    const grain = createClient({ source: 'onetrust' });
+
+    expect(grain.isConsentManagedExternally()).toBe(true);
+    expect(grain.getConsentState()).toMatchObject({
+      granted: true,
+      categories: ['necessary', 'analytics', 'functional'],
+    });
+
+    window.dispatchEvent(new CustomEvent('OneTrustGroupsUpdated', { detail: ['C0001'] }));
+    expect(grain.hasConsent('analytics')).toBe(false);
+
+    // Unchanged consent is not recorded twice
+    window.dispatchEvent(new CustomEvent('OneTrustGroupsUpdated', { detail: ['C0001'] }));
+    expect(grain.getConsentAuditLog().map(entry => entry.action)).toEqual(['grant', 'revoke']);
+
+    grain.destroy();
+  });
+
+  test('should follow Cookiebot consent', () => {
+    const grain = createClient({ source: 'cookiebot' });
+    expect(grain.getConsentState()).toBeNull();
+
+    globals.Cookiebot = { hasResponse: true, consent: { necessary: true, statistics: true, preferences: false, marketing: true } };
+    window.dispatchEvent(new Event('CookiebotOnAccept'));
+
+    expect(grain.getConsentState()?.categories).toEqual(['necessary', 'analytics', 'marketing']);
+    expect(grain.getConsentAuditLog()[0].surface).toBe('cmp:cookiebot');
+
+    grain.destroy();
+  });
+
+  test('should write consent changed through Grain back to OneTrust', () => {
+    globals.OnetrustActiveGroups = ',C0001,C0002,';
+    globals.OneTrust = { UpdateConsent: jest.fn() };
+    const grain = createClient({ source: 'onetrust' });
+
+    // Consent that came from OneTrust is not written back
+    expect(globals.OneTrust.UpdateConsent).not.toHaveBeenCalled();
+
+    grain.grantConsent(['necessary', 'functional'], { surface: 'preference_center' });
+    expect(globals.OneTrust.UpdateConsent.mock.calls).toEqual([
+      ['Category', 'C0002:0'],
+      ['Category', 'C0003:1'],
+      ['Category', 'C0004:0'],
+    ]);
+
+    grain.destroy();
+  });
+
+  test('should write consent changed through Grain back to Cookiebot', () => {
+    globals.Cookiebot = { hasResponse: false, submitCustomConsent: jest.fn() };
+    const grain = createClient({ source: 'cookiebot' });
+
+    grain.grantConsent(['necessary', 'analytics']);
+    expect(globals.Cookiebot.submitCustomConsent).toHaveBeenLastCalledWith(false, true, false);
+
+    grain.revokeConsent();
+    expect(globals.Cookiebot.submitCustomConsent).toHaveBeenLastCalledWith(false, false, false);
+
+    grain.destroy();
+
+    const readOnly = createClient({ source: 'cookiebot', syncToCmp: false });
+    readOnly.grantConsent(['necessary', 'marketing']);
+    expect(globals.Cookiebot.submitCustomConsent).toHaveBeenCalledTimes(2);
+    readOnly.destroy();
+  });
+
+  test('should emit Google Consent Mode v2 signals for Grain consent', () => {
+    const grain = createClient({ googleConsentMode: true });
+    const commands = () => globals.dataLayer as unknown[][];
+
+    expect(grain.isConsentManagedExternally()).toBe(false);
+    expect(commands()).toEqual([['consent', 'default', {
+      analytics_storage: 'denied',
+      ad_storage: 'denied',
+      ad_user_data: 'denied',
+      ad_personalization: 'denied',
+    }]]);
+
+    grain.grantConsent(['necessary', 'analytics']);
+    expect(commands()[1]).toEqual(['consent', 'update', {
+      analytics_storage: 'granted',
+      ad_storage: 'denied',
+      ad_user_data: 'denied',
+      ad_personalization: 'denied',
+    }]);
+
+    grain.destroy();
+
+    globals.gtag = jest.fn();
+    const mapped = createClient({ googleConsentMode: { ad_storage: 'analytics' } });
+    expect(globals.gtag).toHaveBeenCalledWith('consent', 'default', expect.objectContaining({
+      analytics_storage: 'granted',
+      ad_storage: 'granted',
+    }));
+
+    mapped.destroy();
+  });
+});
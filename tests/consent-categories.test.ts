@@ -0,0 +1,85 @@
+/**
+ * Consent Category Tests
+ * Tests the category registry and localized consent UI copy
+ */
+
+import { createGrainAnalytics } from '../src/index';
+import {
+  ConsentCategoryRegistry,
+  DEFAULT_CONSENT_MESSAGES,
+  DEFAULT_CONSENT_TEXT_VERSION,
+} from '../src/consent-categories';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+describe('Consent Categories', () => {
+  test('should default to the built-in categories and English copy', () => {
+    const ui = new ConsentCategoryRegistry().localize('en-US');
+
+    expect(ui.categories.map(category => category.id)).toEqual(['necessary', 'analytics', 'functional']);
+    expect(ui.categories[0]).toMatchObject({ name: 'Necessary', required: true, vendors: [] });
+    expect(ui.messages).toEqual(DEFAULT_CONSENT_MESSAGES);
+    expect(ui.direction).toBe('ltr');
+    expect(ui.textVersion).toBe(DEFAULT_CONSENT_TEXT_VERSION);
+  });
+
+  test('should register built-in and custom categories with vendors', () => {
+    const registry = new ConsentCategoryRegistry(['necessary', 'analytics', 'marketing', 'replay']);
+    registry.register({
+      id: 'support_chat',
+      vendors: [{ name: 'Intercom', privacyPolicyUrl: 'https://www.intercom.com/legal/privacy' }],
+      strings: {
+        en: { name: 'Support Chat', description: 'Lets you chat with our team.' },
+        de: { name: 'Support-Chat', description: 'Damit Sie mit unserem Team chatten können.' },
+      },
+    });
+
+    expect(registry.getCategoryIds()).toEqual(['necessary', 'analytics', 'marketing', 'replay', 'support_chat']);
+    expect(registry.getRequiredCategoryIds()).toEqual(['necessary']);
+
+    const chat = registry.localize('de-AT').categories[4];
+    expect(chat).toMatchObject({ name: 'Support-Chat', vendors: [{ name: 'Intercom' }] });
+    // No German strings for analytics - English fallback
+    expect(registry.localize('de-AT').categories[1].name).toBe('Analytics');
+  });
+
+  test('should resolve locale bundles from locale to language to English', () => {
+    const registry = new ConsentCategoryRegistry(undefined, {
+      pt: {
+        textVersion: 'pt-2',
+        messages: { acceptAll: 'Aceitar tudo', decline: 'Recusar' },
+        categories: { analytics: { name: 'Análise' } },
+      },
+      'pt-BR': { messages: { decline: 'Rejeitar' } },
+      ar: { textVersion: 'ar-1', messages: { acceptAll: 'قبول الكل' } },
+    });
+
+    const brazil = registry.localize('pt-BR');
+    expect(brazil.messages.acceptAll).toBe('Aceitar tudo');
+    expect(brazil.messages.decline).toBe('Rejeitar');
+    expect(brazil.messages.save).toBe(DEFAULT_CONSENT_MESSAGES.save);
+    expect(brazil.categories[1]).toMatchObject({ name: 'Análise', description: expect.stringContaining('visitors') });
+    expect(brazil.textVersion).toBe('pt-2');
+
+    const arabic = registry.localize('ar-EG');
+    expect(arabic.direction).toBe('rtl');
+    expect(arabic.messages.acceptAll).toBe('قبول الكل');
+    expect(registry.localize('he').direction).toBe('rtl');
+  });
+
+  test('should expose the registry from client config', () => {
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      enableHeartbeat: false,
+      enableAutoPageView: false,
+      consentCategories: ['necessary', 'analytics', 'replay'],
+      consentLocales: { fr: { messages: { bannerTitle: 'Consentement aux cookies' } } },
+    });
+
+    const registry = grain.getConsentCategories();
+    expect(registry.getCategoryIds()).toEqual(['necessary', 'analytics', 'replay']);
+    expect(registry.localize('fr').messages.bannerTitle).toBe('Consentement aux cookies');
+
+    grain.destroy();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Consent Hook Tests
+ * Tests the headless consent banner, preference center, selection and focus trap hooks
+ */
+
+import * as React from 'react';
+import { act, fireEvent, render, renderHook } from '@testing-library/react';
+import { GrainContext } from '../src/react/context';
+import { useConsentBanner } from '../src/react/hooks/useConsentBanner';
+import { usePreferenceCenter } from '../src/react/hooks/usePreferenceCenter';
+import { useConsentSelection } from '../src/react/hooks/useConsentSelection';
+import { useFocusTrap } from '../src/react/hooks/useFocusTrap';
+import type { GrainAnalytics } from '../src/index';
+import { createClient } from './helpers';
+
+function createWrapper(client: GrainAnalytics) {
+  return ({ children }: { children: React.ReactNode }) =>
+    React.createElement(GrainContext.Provider, { value: { client, isProviderManaged: false } }, children);
+}
+
+function pressEscape(onKeyDown: (event: React.KeyboardEvent) => void): void {
+  onKeyDown({ key: 'Escape', stopPropagation: () => {} } as React.KeyboardEvent);
+}
+
+describe('Consent Hooks', () => {
+  let client: GrainAnalytics;
+
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+    client = createClient({ consentMode: 'GDPR_STRICT' });
+  });
+
+  afterEach(() => {
+    client.destroy();
+  });
+
+  describe('useConsentBanner', () => {
+    test('should show until the visitor accepts all categories', () => {
+      const onAccept = jest.fn();
+      const { result } = renderHook(() => useConsentBanner({ onAccept }), { wrapper: createWrapper(client) });
+      expect(result.current.isVisible).toBe(true);
+      expect(result.current.selectedCategories).toEqual(['necessary']);
+
+      act(() => result.current.acceptAll());
+
+      expect(result.current.isVisible).toBe(false);
+      expect(client.getConsentState()?.categories).toEqual(['necessary', 'analytics', 'functional']);
+      expect(onAccept).toHaveBeenCalledTimes(1);
+    });
+
+    test('should revoke consent on reject all and on Escape', () => {
+      const onDecline = jest.fn();
+      const { result } = renderHook(() => useConsentBanner({ onDecline }), { wrapper: createWrapper(client) });
+
+      act(() => result.current.rejectAll());
+      expect(result.current.isVisible).toBe(false);
+      expect(client.getConsentState()?.granted).toBe(false);
+
+      act(() => result.current.reopen());
+      expect(result.current.isVisible).toBe(true);
+
+      act(() => pressEscape(result.current.getDialogProps().onKeyDown));
+      expect(result.current.isVisible).toBe(false);
+      expect(onDecline).toHaveBeenCalledTimes(2);
+    });
+
+    test('should save the selected categories and keep required ones on', () => {
+      const onSave = jest.fn();
+      const { result } = renderHook(() => useConsentBanner({ onSave }), { wrapper: createWrapper(client) });
+
+      act(() => result.current.toggleCategory('analytics'));
+      act(() => result.current.toggleCategory('necessary'));
+      expect(result.current.categories.find(category => category.id === 'necessary')?.selected).toBe(true);
+
+      act(() => result.current.saveSelection());
+
+      expect(result.current.isVisible).toBe(false);
+      expect(client.getConsentState()?.categories).toEqual(['necessary', 'analytics']);
+      expect(onSave).toHaveBeenCalledWith(['necessary', 'analytics']);
+    });
+
+    test('should reopen with the current consent selected', () => {
+      client.grantConsent(['necessary', 'functional']);
+      const { result } = renderHook(() => useConsentBanner(), { wrapper: createWrapper(client) });
+      expect(result.current.isVisible).toBe(false);
+
+      act(() => result.current.toggleCategory('analytics'));
+      act(() => result.current.reopen());
+
+      expect(result.current.isVisible).toBe(true);
+      expect(result.current.selectedCategories).toEqual(['necessary', 'functional']);
+    });
+
+    test('should stay hidden when an external CMP manages consent', () => {
+      jest.spyOn(client, 'isConsentManagedExternally').mockReturnValue(true);
+      const { result } = renderHook(() => useConsentBanner(), { wrapper: createWrapper(client) });
+      expect(result.current.isVisible).toBe(false);
+
+      act(() => result.current.reopen());
+      expect(result.current.isVisible).toBe(false);
+    });
+  });
+
+  describe('usePreferenceCenter', () => {
+    test('should open with the current consent and save the selection', () => {
+      client.grantConsent(['necessary', 'analytics']);
+      const onSave = jest.fn();
+      const { result } = renderHook(() => usePreferenceCenter({ onSave }), { wrapper: createWrapper(client) });
+      expect(result.current.isOpen).toBe(false);
+
+      act(() => result.current.open());
+      expect(result.current.isOpen).toBe(true);
+      expect(result.current.selectedCategories).toEqual(['necessary', 'analytics']);
+
+      act(() => result.current.setCategory('analytics', false));
+      act(() => result.current.setCategory('functional', true));
+      act(() => result.current.saveSelection());
+
+      expect(result.current.isOpen).toBe(false);
+      expect(client.getConsentState()?.categories).toEqual(['necessary', 'functional']);
+      expect(onSave).toHaveBeenCalledWith(['necessary', 'functional']);
+    });
+
+    test('should close on Escape without saving', () => {
+      const onClose = jest.fn();
+      const { result } = renderHook(() => usePreferenceCenter({ onClose }), { wrapper: createWrapper(client) });
+
+      act(() => result.current.open());
+      act(() => result.current.toggleCategory('analytics'));
+      act(() => pressEscape(result.current.getDialogProps().onKeyDown));
+
+      expect(result.current.isOpen).toBe(false);
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(client.getConsentState()).toBeNull();
+    });
+
+    test('should follow a controlled isOpen prop', () => {
+      const { result, rerender } = renderHook(
+        ({ isOpen }) => usePreferenceCenter({ isOpen }),
+        { wrapper: createWrapper(client), initialProps: { isOpen: false } }
+      );
+      expect(result.current.isOpen).toBe(false);
+
+      rerender({ isOpen: true });
+      expect(result.current.isOpen).toBe(true);
+
+      act(() => result.current.acceptAll());
+      expect(client.getConsentState()?.categories).toEqual(['necessary', 'analytics', 'functional']);
+    });
+  });
+
+  describe('useConsentSelection', () => {
+    test('should record the surface and text version with every decision', () => {
+      const grant = jest.spyOn(client, 'grantConsent');
+      const revoke = jest.spyOn(client, 'revokeConsent');
+      const { result } = renderHook(
+        () => useConsentSelection({ surface: 'custom_banner', textVersion: 'v7' }),
+        { wrapper: createWrapper(client) }
+      );
+      const context = { surface: 'custom_banner', textVersion: 'v7' };
+
+      act(() => result.current.acceptAll());
+      expect(grant).toHaveBeenLastCalledWith(['necessary', 'analytics', 'functional'], context);
+
+      act(() => result.current.rejectAll());
+      expect(revoke).toHaveBeenLastCalledWith(undefined, context);
+
+      act(() => result.current.setCategory('functional', true));
+      act(() => result.current.saveSelection());
+      expect(grant).toHaveBeenLastCalledWith(['necessary', 'functional'], context);
+    });
+
+    test('should not record a text version for custom copy', () => {
+      const grant = jest.spyOn(client, 'grantConsent');
+      const { result } = renderHook(
+        () => useConsentSelection({ surface: 'custom_banner', customText: 'We use cookies' }),
+        { wrapper: createWrapper(client) }
+      );
+
+      act(() => result.current.acceptAll());
+      expect(grant).toHaveBeenLastCalledWith(expect.any(Array), { surface: 'custom_banner', textVersion: undefined });
+    });
+  });
+
+  describe('useFocusTrap', () => {
+    function Dialog({ isOpen, onEscape }: { isOpen: boolean; onEscape: () => void }) {
+      const { ref, onKeyDown } = useFocusTrap<HTMLDivElement>(isOpen, onEscape);
+      if (!isOpen) return null;
+      return React.createElement('div', { ref, onKeyDown, 'data-testid': 'dialog' },
+        React.createElement('button', null, 'First'),
+        React.createElement('button', null, 'Last'));
+    }
+
+    test('should trap Tab inside the dialog and restore focus on close', () => {
+      const opener = document.createElement('button');
+      document.body.appendChild(opener);
+      opener.focus();
+
+      const onEscape = jest.fn();
+      const { getByText, rerender } = render(React.createElement(Dialog, { isOpen: true, onEscape }));
+      expect(document.activeElement).toBe(getByText('First'));
+
+      getByText('Last').focus();
+      fireEvent.keyDown(getByText('Last'), { key: 'Tab' });
+      expect(document.activeElement).toBe(getByText('First'));
+
+      fireEvent.keyDown(getByText('First'), { key: 'Tab', shiftKey: true });
+      expect(document.activeElement).toBe(getByText('Last'));
+
+      fireEvent.keyDown(getByText('Last'), { key: 'Escape' });
+      expect(onEscape).toHaveBeenCalledTimes(1);
+
+      rerender(React.createElement(Dialog, { isOpen: false, onEscape }));
+      expect(document.activeElement).toBe(opener);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Consent Region Tests
+ * Tests picking the consent mode per visitor region
+ */
+
+import { createGrainAnalytics, type GrainConfig } from '../src/index';
+import { resolveConsentRegion } from '../src/consent-region';
+import { createConfigBootstrap } from '../src/config-bootstrap';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+function createClient(config: Partial<GrainConfig> = {}) {
+  return createGrainAnalytics({
+    tenantId: TEST_TENANT_ID,
+    apiUrl: TEST_API_URL,
+    enableHeartbeat: false,
+    enableAutoPageView: false,
+    ...config,
+  });
+}
+
+// Configurations as delivered by the server
+function serverConfig(configurations: Record<string, string>, version: number) {
+  return createConfigBootstrap(TEST_TENANT_ID, 'user_1', {
+    userId: 'user_1',
+    snapshotId: `snapshot_${version}`,
+    configurations,
+    isFinal: true,
+    qualifiedSegments: [],
+    qualifiedRuleSets: [],
+    timestamp: new Date(Date.UTC(2026, 0, version)).toISOString(),
+    isFromCache: false,
+  });
+}
+
+describe('Consent Region', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should pick the mode from the country table with consentMode as fallback', () => {
+    const eu = createClient({ consentMode: 'GDPR_OPT_OUT', consentRegion: { country: 'de' } });
+    expect(eu.getConsentRegion()).toBe('DE');
+    expect(eu.getConsentMode()).toBe('GDPR_STRICT');
+    expect(eu.hasConsent()).toBe(false);
+    eu.destroy();
+
+    const us = createClient({ consentMode: 'GDPR_OPT_OUT', consentRegion: { country: 'US' } });
+    expect(us.getConsentMode()).toBe('GDPR_OPT_OUT');
+    expect(us.hasConsent()).toBe(true);
+    us.destroy();
+
+    const apac = createClient({ consentRegion: { country: 'JP', modes: { JP: 'GDPR_OPT_OUT' } } });
+    expect(apac.getConsentMode()).toBe('GDPR_OPT_OUT');
+    apac.destroy();
+  });
+
+  test('should resolve the region with a resolver or the browser timezone', () => {
+    expect(resolveConsentRegion({ resolver: () => 'fr' })).toBe('FR');
+    expect(resolveConsentRegion({ country: 'US', resolver: () => 'FR' })).toBe('US');
+    expect(resolveConsentRegion({ resolver: () => { throw new Error('no geo'); } })).toBeNull();
+
+    jest.spyOn(Intl.DateTimeFormat.prototype, 'resolvedOptions')
+      .mockReturnValue({ timeZone: 'Europe/Berlin' } as Intl.ResolvedDateTimeFormatOptions);
+    expect(resolveConsentRegion({})).toBe('DE');
+  });
+
+  test('should switch the mode from a remote config value', () => {
+    const grain = createClient({
+      consentMode: 'COOKIELESS',
+      consentRegion: { country: 'US', modes: { US: 'GDPR_OPT_OUT' }, configKey: 'consent_mode' },
+    });
+    expect(grain.getConsentMode()).toBe('GDPR_OPT_OUT');
+    expect(grain.hasConsent()).toBe(true);
+
+    grain.hydrateConfig(serverConfig({ consent_mode: 'GDPR_STRICT' }, 1));
+    expect(grain.getConsentMode()).toBe('GDPR_STRICT');
+    // The opt-out default was never the user's decision
+    expect(grain.getConsentState()).toBeNull();
+    expect(grain.hasConsent()).toBe(false);
+
+    grain.grantConsent();
+    grain.hydrateConfig(serverConfig({ consent_mode: 'GDPR_OPT_OUT' }, 2));
+    grain.hydrateConfig(serverConfig({ consent_mode: 'not-a-mode' }, 3));
+    expect(grain.getConsentMode()).toBe('GDPR_OPT_OUT');
+    expect(grain.getConsentState()?.isDefault).toBeUndefined();
+
+    grain.destroy();
+  });
+
+  test('should never take the mode from overrides or defaults', () => {
+    window.history.replaceState({}, '', '/?grain_config.consent_mode=COOKIELESS');
+    const grain = createClient({
+      consentMode: 'GDPR_OPT_OUT',
+      consentRegion: { country: 'DE', configKey: 'consent_mode' },
+      enableConfigOverrides: true,
+      defaultConfigurations: { consent_mode: 'GDPR_OPT_OUT' },
+    });
+    expect(grain.getConsentMode()).toBe('GDPR_STRICT');
+
+    grain.setConfigOverride('consent_mode', 'COOKIELESS');
+    expect(grain.getConsentMode()).toBe('GDPR_STRICT');
+
+    grain.destroy();
+    window.history.replaceState({}, '', '/');
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Error Tracking Tests
+ * Tests error normalization, deduplication and rate limiting
+ */
+
+import {
+  ErrorTrackingManager,
+  normalizeStack,
+  fingerprintError,
+  type ErrorTracker,
+} from '../src/error-tracking';
+
+function createTracker() {
+  const events: Array<{ eventName: string; properties: Record<string, unknown> }> = [];
+  const tracker: ErrorTracker = {
+    trackSystemEvent: (eventName, properties) => {
+      events.push({ eventName, properties });
+    },
+    getCurrentPage: () => '/checkout',
+    getSessionId: () => 'session_123',
+    log: () => {},
+  };
+  return { tracker, events };
+}
+
+function dispatchError(message: string, error?: Error): void {
+  window.dispatchEvent(new ErrorEvent('error', { message, error, filename: 'https://example.com/app.js?v=123' }));
+}
+
+describe('Error Tracking', () => {
+  test('should normalize stack traces', () => {
+    const stack = [
+      'TypeError: Cannot read properties of undefined',
+      '    at submitOrder (https://example.com/app.js?v=abc123:10:5)',
+      '    at HTMLButtonElement.onclick (https://example.com/app.js?v=abc123:20:3)',
+    ].join('\n');
+
+    expect(normalizeStack(stack)).toBe([
+      'submitOrder (https://example.com/app.js:10:5)',
+      'HTMLButtonElement.onclick (https://example.com/app.js:20:3)',
+    ].join('\n'));
+    expect(normalizeStack(stack, 1)).toBe('submitOrder (https://example.com/app.js:10:5)');
+  });
+
+  test('should give errors that only differ in numbers the same fingerprint', () => {
+    expect(fingerprintError('Error', 'Item 42 not found', undefined))
+      .toBe(fingerprintError('Error', 'Item 7 not found', undefined));
+    expect(fingerprintError('Error', 'Item not found', undefined))
+      .not.toBe(fingerprintError('TypeError', 'Item not found', undefined));
+  });
+
+  test('should report errors with page and session', () => {
+    const { tracker, events } = createTracker();
+    const manager = new ErrorTrackingManager(tracker);
+
+    dispatchError('Payment failed', new Error('Payment failed'));
+
+    expect(events).toHaveLength(1);
+    expect(events[0].eventName).toBe('_grain_error');
+    expect(events[0].properties).toMatchObject({
+      error_type: 'error',
+      error_message: 'Payment failed',
+      error_source: 'https://example.com/app.js',
+      page: '/checkout',
+      session_id: 'session_123',
+    });
+
+    manager.destroy();
+  });
+
+  test('should report unhandled rejections', () => {
+    const { tracker, events } = createTracker();
+    const manager = new ErrorTrackingManager(tracker);
+
+    const event = new Event('unhandledrejection') as PromiseRejectionEvent;
+    Object.defineProperty(event, 'reason', { value: new RangeError('Out of range') });
+    window.dispatchEvent(event);
+
+    expect(events[0].properties).toMatchObject({
+      error_type: 'unhandledrejection',
+      error_name: 'RangeError',
+      error_message: 'Out of range',
+    });
+
+    manager.destroy();
+  });
+
+  test('should deduplicate repeated errors across page loads', () => {
+    const { tracker, events } = createTracker();
+    const first = new ErrorTrackingManager(tracker);
+    dispatchError('Widget crashed');
+    dispatchError('Widget crashed');
+    first.destroy();
+
+    // Same browser session, next page
+    const second = new ErrorTrackingManager(tracker);
+    dispatchError('Widget crashed');
+    second.destroy();
+
+    expect(events).toHaveLength(1);
+  });
+
+  test('should rate limit error bursts', () => {
+    const { tracker, events } = createTracker();
+    const manager = new ErrorTrackingManager(tracker, { maxErrorsPerMinute: 3 });
+
+    for (const name of ['alpha', 'beta', 'gamma', 'delta', 'epsilon']) {
+      dispatchError(`Failure in ${name}`);
+    }
+
+    expect(events).toHaveLength(3);
+    manager.destroy();
+  });
+});
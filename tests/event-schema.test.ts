@@ -0,0 +1,110 @@
+/**
+ * Event Schema Tests
+ * Tests the typed event catalog and runtime schema validation
+ */
+
+import { validateEvent, type EventSchemas, type GrainConfig } from '../src/index';
+import { MemoryTransport, createClient } from './helpers';
+
+type AppEvents = {
+  signup_completed: { plan: 'free' | 'pro'; referral_code?: string };
+  app_opened: {};
+};
+
+const schemas: EventSchemas<AppEvents> = {
+  signup_completed: {
+    properties: {
+      plan: { type: 'string', required: true, enum: ['free', 'pro'] },
+      referral_code: 'string',
+    },
+    additionalProperties: false,
+  },
+  app_opened: {},
+};
+
+function createSchemaClient(config: Partial<GrainConfig> = {}) {
+  return createClient<AppEvents>({ eventSchemas: schemas, ...config });
+}
+
+describe('Event Schema', () => {
+  test('should accept events that match their schema', () => {
+    expect(validateEvent(schemas, 'signup_completed', { plan: 'pro' })).toEqual([]);
+    expect(validateEvent(schemas, 'app_opened')).toEqual([]);
+  });
+
+  test('should report schema mismatches', () => {
+    expect(validateEvent(schemas, 'signup_complete', {})).toEqual(['Unknown event "signup_complete"']);
+    expect(validateEvent(schemas, 'signup_completed', {})).toEqual(['Missing required property "plan"']);
+    expect(validateEvent(schemas, 'signup_completed', { plan: 'enterprise' })).toEqual([
+      'Property "plan" has unexpected value "enterprise"',
+    ]);
+    expect(validateEvent(schemas, 'signup_completed', { plan: 'free', referral_code: 42, source: 'ad' })).toEqual([
+      'Property "referral_code" should be string, got number',
+      'Undeclared property "source"',
+    ]);
+  });
+
+  test('should warn but keep mismatched events by default', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const transport = new MemoryTransport();
+    const grain = createSchemaClient({ transport });
+
+    await grain.track('signup_completed', { plan: 'enterprise' } as never);
+    await grain.flush();
+
+    expect(warn).toHaveBeenCalled();
+    expect(transport.events.map(e => e.eventName)).toContain('signup_completed');
+
+    grain.destroy();
+  });
+
+  test('should drop mismatched events in reject mode', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const transport = new MemoryTransport();
+    const grain = createSchemaClient({ transport, schemaValidation: 'reject' });
+
+    await grain.track('signup_completed', { plan: 'enterprise' } as never);
+    await grain.track('signup_completed', { plan: 'pro' });
+    await grain.track({ eventName: 'app_opened' });
+    await grain.flush();
+
+    const names = transport.events.map(e => e.eventName).filter(name => !name.startsWith('_grain_'));
+    expect(names).toEqual(['signup_completed', 'app_opened']);
+    expect(transport.events.find(e => e.eventName === 'signup_completed')?.properties.plan).toBe('pro');
+    // Drops are only logged in debug mode
+    expect(warn).not.toHaveBeenCalled();
+
+    grain.destroy();
+  });
+
+  test('should not validate events sent by the SDK helpers', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const transport = new MemoryTransport();
+    const grain = createSchemaClient({ transport, schemaValidation: 'reject' });
+
+    await grain.trackPageView({ page: '/pricing' });
+    await grain.trackLogin({ method: 'email' });
+    await grain.trackPurchase({ orderId: 'order_1', total: 10 });
+    await grain.flush();
+
+    const names = transport.events.map(e => e.eventName).filter(name => !name.startsWith('_grain_'));
+    expect(names).toEqual(['page_view', 'login', 'purchase']);
+    expect(warn).not.toHaveBeenCalled();
+
+    grain.destroy();
+  });
+
+  test('should type-check track() against the catalog', async () => {
+    const grain = createSchemaClient({ transport: new MemoryTransport(),  schemaValidation: 'off' });
+
+    await grain.track('app_opened');
+    // @ts-expect-error - unknown event name
+    await grain.track('app_openned');
+    // @ts-expect-error - required property missing
+    await grain.track('signup_completed');
+    // @ts-expect-error - wrong property type
+    await grain.track('signup_completed', { plan: 'basic' });
+
+    grain.destroy();
+  });
+});
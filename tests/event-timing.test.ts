@@ -0,0 +1,107 @@
+/**
+ * Event Timing Tests
+ * Tests client capture time, per-session sequence numbers and sent-at stamps
+ */
+
+import type { EventPayload } from '../src/index';
+import { MemoryTransport, createClient } from './helpers';
+
+describe('Event Timing', () => {
+  beforeEach(() => {
+    sessionStorage.clear();
+  });
+
+  test('should stamp capture time, sequence and sent-at on every event', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+
+    await grain.track('first_event');
+    await grain.track('second_event');
+    await grain.flush();
+
+    const first = transport.events.find(e => e.eventName === 'first_event')!;
+    const second = transport.events.find(e => e.eventName === 'second_event')!;
+
+    expect(new Date(first.capturedAt!).getTime()).not.toBeNaN();
+    expect(first.sentAt).toBeDefined();
+    expect(new Date(first.sentAt!).getTime()).toBeGreaterThanOrEqual(new Date(first.capturedAt!).getTime());
+    expect(second.sequence).toBe(first.sequence! + 1);
+
+    grain.destroy();
+  });
+
+  test('should only number events the pipeline accepts', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+    grain.use((event) => (event.eventName === 'dropped_event' ? null : event));
+
+    await grain.track('first_event');
+    await grain.track('dropped_event');
+    await grain.track('second_event');
+    await grain.flush();
+
+    const first = transport.events.find(e => e.eventName === 'first_event')!;
+    const second = transport.events.find(e => e.eventName === 'second_event')!;
+
+    expect(transport.events.some(e => e.eventName === 'dropped_event')).toBe(false);
+    expect(second.sequence).toBe(first.sequence! + 1);
+
+    grain.destroy();
+  });
+
+  test('should keep the timestamp passed to track()', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+    const happenedAt = new Date('2024-03-01T12:00:00.000Z');
+
+    await grain.track({ eventName: 'offline_purchase', timestamp: happenedAt });
+    await grain.flush();
+
+    const event = transport.events.find(e => e.eventName === 'offline_purchase');
+    expect(event?.capturedAt).toBe('2024-03-01T12:00:00.000Z');
+
+    grain.destroy();
+  });
+
+  test('should keep capture order for events that waited for consent', async () => {
+    jest.useFakeTimers({ now: new Date('2024-03-01T12:00:00.000Z') });
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport, consentMode: 'GDPR_STRICT', waitForConsent: true });
+
+    await grain.track('pricing_viewed');
+    jest.advanceTimersByTime(120000);
+    await grain.track('plan_selected');
+    jest.advanceTimersByTime(60000);
+
+    grain.grantConsent(['analytics']);
+    jest.useRealTimers();
+    await grain.flush();
+
+    const viewed = transport.events.find(e => e.eventName === 'pricing_viewed')!;
+    const selected = transport.events.find(e => e.eventName === 'plan_selected')!;
+
+    expect(viewed.capturedAt).toBe('2024-03-01T12:00:00.000Z');
+    expect(selected.capturedAt).toBe('2024-03-01T12:02:00.000Z');
+    expect(selected.sequence).toBeGreaterThan(viewed.sequence!);
+
+    grain.destroy();
+  });
+
+  test('should not stamp sent-at on the queued events', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+    const seen: EventPayload[] = [];
+    grain.use((event) => {
+      seen.push(event);
+      return event;
+    });
+
+    await grain.track('queued_event');
+    await grain.flush();
+
+    expect(seen.find(e => e.eventName === 'queued_event')?.sentAt).toBeUndefined();
+    expect(transport.events.find(e => e.eventName === 'queued_event')?.sentAt).toBeDefined();
+
+    grain.destroy();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Frustration Detection Tests
+ * Tests rage, dead and error click detection
+ */
+
+import { FrustrationDetector, type FrustrationTracker } from '../src/frustration-detection';
+import type { HeatmapClickData } from '../src/types/heatmap-tracking';
+
+function createTracker() {
+  const events: Array<{ eventName: string; properties: Record<string, unknown> }> = [];
+  const tracker: FrustrationTracker = {
+    trackSystemEvent: (eventName, properties) => {
+      events.push({ eventName, properties });
+    },
+    log: () => {},
+  };
+  return { tracker, events };
+}
+
+function createClick(xpath: string, overrides: Partial<HeatmapClickData> = {}): HeatmapClickData {
+  return {
+    pageUrl: 'https://example.com/pricing',
+    xpath,
+    selector: `#${xpath}`,
+    viewportX: 100,
+    viewportY: 200,
+    pageX: 100,
+    pageY: 200,
+    elementTag: 'div',
+    timestamp: Date.now(),
+    deviceType: 'desktop',
+    ...overrides,
+  };
+}
+
+describe('Frustration Detection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should report rapid repeated clicks as one rage click', () => {
+    const { tracker, events } = createTracker();
+    const detector = new FrustrationDetector(tracker);
+    const button = document.createElement('button');
+
+    for (let i = 0; i < 4; i++) {
+      detector.recordClick(button, createClick('buy-button'));
+      jest.advanceTimersByTime(200);
+    }
+    jest.advanceTimersByTime(1000);
+
+    const rageClicks = events.filter(e => e.eventName === '_grain_rage_click');
+    expect(rageClicks).toHaveLength(1);
+    expect(rageClicks[0].properties).toMatchObject({ click_count: 4, selector: '#buy-button', xpath: 'buy-button' });
+
+    detector.destroy();
+  });
+
+  test('should not report slow clicks as rage clicks', () => {
+    const { tracker, events } = createTracker();
+    const detector = new FrustrationDetector(tracker);
+    const button = document.createElement('button');
+
+    for (let i = 0; i < 3; i++) {
+      detector.recordClick(button, createClick('buy-button'));
+      jest.advanceTimersByTime(1500);
+    }
+
+    expect(events.filter(e => e.eventName === '_grain_rage_click')).toHaveLength(0);
+    detector.destroy();
+  });
+
+  test('should report clicks on non-interactive elements with no reaction', () => {
+    const { tracker, events } = createTracker();
+    const detector = new FrustrationDetector(tracker);
+    const label = document.getElementById('hero-section')!;
+
+    detector.recordClick(label, createClick('hero-section'));
+    jest.advanceTimersByTime(1000);
+
+    expect(events.filter(e => e.eventName === '_grain_dead_click')).toHaveLength(1);
+    detector.destroy();
+  });
+
+  test('should not report clicks on interactive elements as dead', () => {
+    const { tracker, events } = createTracker();
+    const detector = new FrustrationDetector(tracker);
+    const link = document.createElement('a');
+    link.href = '#pricing';
+    const inner = document.createElement('span');
+    link.appendChild(inner);
+
+    detector.recordClick(inner, createClick('pricing-link'));
+    jest.advanceTimersByTime(1000);
+
+    expect(events.filter(e => e.eventName === '_grain_dead_click')).toHaveLength(0);
+    detector.destroy();
+  });
+
+  test('should report a JavaScript error right after a click', () => {
+    const { tracker, events } = createTracker();
+    const detector = new FrustrationDetector(tracker);
+    const button = document.createElement('button');
+
+    detector.recordClick(button, createClick('submit-button'));
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Cannot read properties of undefined' }));
+    window.dispatchEvent(new ErrorEvent('error', { message: 'Second error' }));
+
+    const errorClicks = events.filter(e => e.eventName === '_grain_error_click');
+    expect(errorClicks).toHaveLength(1);
+    expect(errorClicks[0].properties.error_message).toBe('Cannot read properties of undefined');
+
+    detector.destroy();
+  });
+});
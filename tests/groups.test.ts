@@ -0,0 +1,80 @@
+/**
+ * Group Tests
+ * Tests group memberships on events and group traits
+ */
+
+import { MemoryTransport, createClient } from './helpers';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+describe('Groups', () => {
+  let transport: MemoryTransport;
+
+  function groupRequests() {
+    return transport.requests.filter((request) => request.url.endsWith('/groups'));
+  }
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+  });
+
+  test('should stamp active groups onto every event', async () => {
+    const grain = createClient({ transport, userId: 'user_123' });
+
+    await grain.track('before_group');
+    await grain.group('company', 'acme');
+    await grain.group('workspace', 'ws_1');
+    await grain.group('workspace', 'ws_2');
+    await grain.track('report_exported');
+    await grain.flush();
+
+    const before = transport.events.find(e => e.eventName === 'before_group');
+    const after = transport.events.find(e => e.eventName === 'report_exported');
+    expect(before?.groups).toBeUndefined();
+    expect(after?.groups).toEqual({ company: 'acme', workspace: 'ws_2' });
+
+    grain.destroy();
+  });
+
+  test('should stop stamping removed groups and clear groups on logout', async () => {
+    const grain = createClient({ transport, userId: 'user_123' });
+
+    await grain.group('company', 'acme');
+    await grain.group('team', 'design');
+    grain.removeGroup('team');
+    expect(grain.getGroups()).toEqual({ company: 'acme' });
+
+    grain.logout();
+    expect(grain.getGroups()).toEqual({});
+
+    grain.destroy();
+  });
+
+  test('should send group traits to the groups endpoint', async () => {
+    const grain = createClient({ transport, userId: 'user_123' });
+
+    await grain.group('company', 'acme', { name: 'Acme Inc', seats: 42 });
+
+    expect(groupRequests()).toHaveLength(1);
+    const [request] = groupRequests();
+    expect(request.url).toBe(`${TEST_API_URL}/v1/events/${TEST_TENANT_ID}/groups`);
+    expect(request.events).toEqual([]);
+    expect(JSON.parse(request.body)).toEqual({
+      groupType: 'company',
+      groupId: 'acme',
+      userId: 'user_123',
+      traits: { name: 'Acme Inc', seats: '42' },
+    });
+
+    grain.destroy();
+  });
+
+  test('should not send a request without traits', async () => {
+    const grain = createClient({ transport, userId: 'user_123' });
+
+    await grain.group('company', 'acme');
+
+    expect(groupRequests()).toHaveLength(0);
+    grain.destroy();
+  });
+});
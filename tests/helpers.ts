@@ -0,0 +1,44 @@
+/**
+ * Shared test helpers
+ * In-memory transport and a client factory with automatic tracking turned off
+ */
+
+import {
+  createGrainAnalytics,
+  type EventPayload,
+  type GrainConfig,
+  type Transport,
+  type TransportRequest,
+  type TransportResponse,
+  type UntypedEventCatalog,
+} from '../src/index';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+/**
+ * Transport that records requests instead of sending them
+ * Queued responses are returned in order, then every request succeeds
+ */
+export class MemoryTransport implements Transport {
+  requests: TransportRequest[] = [];
+  events: EventPayload[] = [];
+  responses: TransportResponse[] = [];
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+    this.events.push(...request.events);
+    return this.responses.shift() || { ok: true, status: 200 };
+  }
+}
+
+/**
+ * Create a client for the test tenant without heartbeats or automatic page views
+ */
+export function createClient<TEvents extends object = UntypedEventCatalog>(config: Partial<GrainConfig> = {}) {
+  return createGrainAnalytics<TEvents>({
+    tenantId: TEST_TENANT_ID,
+    apiUrl: TEST_API_URL,
+    enableHeartbeat: false,
+    enableAutoPageView: false,
+    ...config,
+  });
+}
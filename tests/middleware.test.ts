@@ -0,0 +1,108 @@
+/**
+ * Middleware Tests
+ * Tests the event pipeline between track() and enqueueing
+ */
+
+import type { EventMiddleware } from '../src/index';
+import { MemoryTransport, createClient } from './helpers';
+
+describe('Middleware', () => {
+  test('should enrich events from config middleware', async () => {
+    const transport = new MemoryTransport();
+    const addVersion: EventMiddleware = (event) => ({
+      ...event,
+      properties: { ...event.properties, app_version: '1.2.3' },
+    });
+    const grain = createClient({ transport, middleware: [addVersion] });
+
+    await grain.track('signup_clicked');
+    await grain.flush();
+
+    const event = transport.events.find(e => e.eventName === 'signup_clicked');
+    expect(event?.properties?.app_version).toBe('1.2.3');
+
+    grain.destroy();
+  });
+
+  test('should drop events when middleware returns null', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+    grain.use((event) => (event.eventName === 'noisy_event' ? null : event));
+
+    await grain.track('noisy_event');
+    await grain.track('kept_event');
+    await grain.flush();
+
+    const names = transport.events.map(e => e.eventName);
+    expect(names).not.toContain('noisy_event');
+    expect(names).toContain('kept_event');
+
+    grain.destroy();
+  });
+
+  test('should run middleware in order and flag system events', async () => {
+    const transport = new MemoryTransport();
+    const calls: string[] = [];
+    const grain = createClient({
+      transport,
+      middleware: [
+        (event, context) => {
+          calls.push(`first:${event.eventName}:${context.isSystemEvent}`);
+          return event;
+        },
+      ],
+    });
+    grain.use((event) => {
+      calls.push(`second:${event.eventName}`);
+      return event;
+    });
+
+    grain.trackSystemEvent('_grain_test', {});
+    await grain.track('custom_event');
+
+    expect(calls.filter(c => c.includes('_grain_test') || c.includes('custom_event'))).toEqual([
+      'first:_grain_test:true',
+      'second:_grain_test',
+      'first:custom_event:false',
+      'second:custom_event',
+    ]);
+
+    grain.destroy();
+  });
+
+  test('should drop the event when a middleware throws', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+    grain.use(() => {
+      throw new Error('redaction failed');
+    });
+
+    await grain.track('checkout', { email: 'user@example.com' });
+    await grain.flush();
+
+    expect(transport.events.map(e => e.eventName)).not.toContain('checkout');
+    expect(consoleSpy).toHaveBeenCalledWith(
+      expect.stringContaining('dropping event "checkout"'),
+      expect.any(Error)
+    );
+
+    grain.destroy();
+  });
+
+  test('should skip a failing middleware and keep the event in skip mode', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport, middlewareFailureMode: 'skip' });
+    const failing: EventMiddleware = () => {
+      throw new Error('boom');
+    };
+    grain.use(failing);
+
+    await grain.track('resilient_event');
+    await grain.flush();
+    expect(transport.events.map(e => e.eventName)).toContain('resilient_event');
+
+    grain.removeMiddleware(failing);
+    grain.destroy();
+  });
+});
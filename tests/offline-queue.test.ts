@@ -0,0 +1,175 @@
+/**
+ * Offline Queue Tests
+ * Tests the persistent event outbox and its consent gating
+ */
+
+import { createGrainAnalytics, type EventPayload } from '../src/index';
+import { EventOutbox, LocalStorageOutboxStorage } from '../src/event-outbox';
+import { MemoryTransport, createClient } from './helpers';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+const OUTBOX_KEY = `grain_outbox_${TEST_TENANT_ID}`;
+
+function createEvent(eventName: string): EventPayload {
+  return { eventName, userId: 'outbox_user', properties: {} };
+}
+
+function createOutbox(maxEvents = 100, ownerId?: string): EventOutbox {
+  return new EventOutbox(
+    { tenantId: TEST_TENANT_ID, maxEvents, ownerId },
+    new LocalStorageOutboxStorage(TEST_TENANT_ID)
+  );
+}
+
+describe('Offline Queue', () => {
+  test('should restore persisted events after a reload', async () => {
+    const outbox = createOutbox();
+    outbox.add([createEvent('checkout_started'), createEvent('checkout_completed')]);
+    await outbox.whenIdle();
+
+    // Simulate a new page load
+    const restored = await createOutbox().restore();
+    expect(restored.map(e => e.eventName)).toEqual(['checkout_started', 'checkout_completed']);
+  });
+
+  test('should remove acknowledged events from disk', async () => {
+    const outbox = createOutbox();
+    const event = createEvent('purchase');
+    outbox.add([event]);
+    outbox.acknowledge([event]);
+    await outbox.whenIdle();
+
+    expect(localStorage.getItem(OUTBOX_KEY)).toBeNull();
+  });
+
+  test('should keep parked events for replay', async () => {
+    const outbox = createOutbox();
+    const event = createEvent('purchase');
+    outbox.add([event]);
+    outbox.park([event]);
+
+    expect(outbox.hasParked()).toBe(true);
+    expect(outbox.takeParked()).toEqual([event]);
+    expect(outbox.hasParked()).toBe(false);
+
+    await outbox.whenIdle();
+    expect(JSON.parse(localStorage.getItem(OUTBOX_KEY)!)).toHaveLength(1);
+  });
+
+  test('should drop the oldest events beyond the limit', async () => {
+    const outbox = createOutbox(2);
+    outbox.add([createEvent('first'), createEvent('second'), createEvent('third')]);
+    await outbox.whenIdle();
+
+    const restored = await createOutbox(2).restore();
+    expect(restored.map(e => e.eventName)).toEqual(['second', 'third']);
+  });
+
+  test('should not replay events owned by another open tab', async () => {
+    const firstTab = createOutbox(100, 'tab_a');
+    firstTab.add([createEvent('checkout_started')]);
+    await firstTab.whenIdle();
+
+    const secondTab = createOutbox(100, 'tab_b');
+    expect(await secondTab.restore()).toEqual([]);
+
+    // The first tab went away without delivering - its lease runs out
+    firstTab.destroy();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+
+    const restored = await secondTab.restore();
+    expect(restored.map(e => e.eventName)).toEqual(['checkout_started']);
+    // Claimed by the second tab, so a third one leaves it alone
+    expect(await createOutbox(100, 'tab_c').restore()).toEqual([]);
+
+    secondTab.destroy();
+  });
+
+  test('should keep renewing the lease while the owning tab is open', async () => {
+    jest.useFakeTimers();
+    try {
+      const firstTab = createOutbox(100, 'tab_a');
+      firstTab.add([createEvent('checkout_started')]);
+      await firstTab.whenIdle();
+
+      jest.advanceTimersByTime(60000);
+      await firstTab.whenIdle();
+
+      expect(await createOutbox(100, 'tab_b').restore()).toEqual([]);
+      firstTab.destroy();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should not write to disk before consent in GDPR strict mode', async () => {
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      consentMode: 'GDPR_STRICT',
+      enableOfflineQueue: true,
+    });
+
+    await grain.track('pre_consent_event');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(localStorage.getItem(OUTBOX_KEY)).toBeNull();
+
+    grain.destroy();
+  });
+
+  test('should persist queued events in cookieless mode', async () => {
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      enableOfflineQueue: true,
+    });
+
+    await grain.track('queued_event');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const stored = JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+    expect(stored.some((r: { event: EventPayload }) => r.event.eventName === 'queued_event')).toBe(true);
+
+    grain.destroy();
+  });
+
+  test('should keep the insertId of an event across replays', async () => {
+    const outbox = createOutbox();
+    const event = createEvent('purchase');
+    outbox.add([event]);
+    await outbox.whenIdle();
+
+    const stored = JSON.parse(localStorage.getItem(OUTBOX_KEY)!);
+    expect(event.insertId).toBe(stored[0].id);
+
+    // Delivered during unload, but the removal never reached the disk
+    const [replayed] = await createOutbox().restore();
+    expect(replayed.insertId).toBe(event.insertId);
+  });
+
+  test('should purge persisted events when analytics consent is revoked', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({
+      consentMode: 'GDPR_STRICT',
+      enableOfflineQueue: true,
+      flushInterval: 60000,
+      transport,
+    });
+    grain.grantConsent(['necessary', 'analytics', 'functional']);
+
+    await grain.track('collected_with_consent');
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(localStorage.getItem(OUTBOX_KEY)).not.toBeNull();
+
+    grain.revokeConsent(['analytics']);
+    expect(grain.hasConsent()).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(localStorage.getItem(OUTBOX_KEY)).toBeNull();
+
+    await grain.flush();
+    expect(transport.events.map(e => e.eventName)).not.toContain('collected_with_consent');
+
+    grain.destroy();
+  });
+});
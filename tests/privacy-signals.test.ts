@@ -0,0 +1,100 @@
+/**
+ * Privacy Signal Tests
+ * Tests honoring Global Privacy Control and Do Not Track
+ */
+
+import { createGrainAnalytics, type GrainConfig } from '../src/index';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+function setSignal(name: 'globalPrivacyControl' | 'doNotTrack', value: unknown) {
+  Object.defineProperty(navigator, name, { value, configurable: true });
+}
+
+function createClient(config: Partial<GrainConfig> = {}) {
+  return createGrainAnalytics({
+    tenantId: TEST_TENANT_ID,
+    apiUrl: TEST_API_URL,
+    consentMode: 'GDPR_OPT_OUT',
+    enableHeartbeat: false,
+    enableAutoPageView: false,
+    ...config,
+  });
+}
+
+describe('Privacy Signals', () => {
+  beforeEach(() => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200, json: async () => ({}) });
+  });
+
+  afterEach(() => {
+    delete (navigator as any).globalPrivacyControl;
+    delete (navigator as any).doNotTrack;
+  });
+
+  test('should opt out in GDPR_OPT_OUT mode when GPC is set', () => {
+    setSignal('globalPrivacyControl', true);
+    const grain = createClient();
+
+    expect(grain.getPrivacySignal()).toBe('gpc');
+    expect(grain.isOptedOutByPrivacySignal()).toBe(true);
+    expect(grain.hasConsent('analytics')).toBe(false);
+    expect(grain.getConsentState()).toMatchObject({ granted: false, categories: [], privacySignal: 'gpc' });
+
+    grain.destroy();
+  });
+
+  test('should keep an explicit grant made while the signal is present', () => {
+    setSignal('globalPrivacyControl', true);
+    const first = createClient();
+    first.grantConsent(['necessary', 'analytics']);
+    first.destroy();
+
+    const second = createClient();
+    expect(second.hasConsent('analytics')).toBe(true);
+    expect(second.getConsentState()?.overridesPrivacySignal).toBe(true);
+
+    second.destroy();
+  });
+
+  test('should restore the opt-out default once the signal is gone', () => {
+    setSignal('globalPrivacyControl', true);
+    createClient().destroy();
+
+    delete (navigator as any).globalPrivacyControl;
+    const grain = createClient();
+
+    expect(grain.getPrivacySignal()).toBeNull();
+    expect(grain.hasConsent('analytics')).toBe(true);
+    expect(grain.getConsentState()?.privacySignal).toBeUndefined();
+
+    grain.destroy();
+  });
+
+  test('should only honor Do Not Track when configured', () => {
+    setSignal('doNotTrack', '1');
+
+    const ignored = createClient();
+    expect(ignored.getPrivacySignal()).toBeNull();
+    expect(ignored.hasConsent()).toBe(true);
+    ignored.destroy();
+
+    const honored = createClient({ honorDoNotTrack: true });
+    expect(honored.getPrivacySignal()).toBe('dnt');
+    expect(honored.hasConsent()).toBe(false);
+    honored.destroy();
+  });
+
+  test('should opt out a previous grant in GDPR_STRICT mode', () => {
+    const first = createClient({ consentMode: 'GDPR_STRICT' });
+    expect(first.getConsentState()).toBeNull();
+    first.grantConsent();
+    first.destroy();
+
+    setSignal('globalPrivacyControl', true);
+    const second = createClient({ consentMode: 'GDPR_STRICT' });
+    expect(second.hasConsent()).toBe(false);
+    expect(second.getConsentState()?.privacySignal).toBe('gpc');
+
+    second.destroy();
+  });
+});
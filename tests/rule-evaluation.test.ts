@@ -0,0 +1,183 @@
+/**
+ * Rule Evaluation Tests
+ * Tests local evaluation of signed config rulesets
+ */
+
+import { webcrypto } from 'crypto';
+import { TextEncoder } from 'util';
+import { createGrainAnalytics } from '../src/index';
+import {
+  evaluateRuleset,
+  RuleEvaluationManager,
+  type LocalRuleset,
+} from '../src/rule-evaluation';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+const ruleset: LocalRuleset = {
+  version: 1,
+  tenantId: TEST_TENANT_ID,
+  snapshotId: 'snapshot_local',
+  expiresAt: new Date(Date.now() + 3600000).toISOString(),
+  configurations: { hero_variant: 'control', pricing_banner: 'off' },
+  segments: [
+    {
+      id: 'pro_users',
+      match: 'all',
+      conditions: [{ attribute: 'plan', operator: 'in', value: ['pro', 'enterprise'] }],
+    },
+    {
+      id: 'power_users',
+      match: 'any',
+      conditions: [
+        { attribute: 'seats', operator: 'gte', value: 10 },
+        { attribute: 'role', operator: 'equals', value: 'admin' },
+      ],
+    },
+  ],
+  ruleSets: [
+    { id: 'pro_hero', priority: 1, segments: ['pro_users'], configurations: { hero_variant: 'pro' } },
+    { id: 'power_hero', priority: 2, segments: ['pro_users', 'power_users'], configurations: { hero_variant: 'power' } },
+    {
+      id: 'pricing_page',
+      priority: 0,
+      segments: [],
+      conditions: [{ attribute: '$path', operator: 'starts_with', value: '/pricing' }],
+      configurations: { pricing_banner: 'on' },
+    },
+  ],
+};
+
+const toBase64 = (buffer: ArrayBuffer) => Buffer.from(buffer).toString('base64');
+
+async function signRuleset(value: LocalRuleset) {
+  const keys = await webcrypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']);
+  const payload = JSON.stringify(value);
+  const signature = await webcrypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    keys.privateKey,
+    new TextEncoder().encode(payload)
+  );
+  return {
+    signingKey: toBase64(await webcrypto.subtle.exportKey('spki', keys.publicKey)),
+    envelope: { payload, signature: toBase64(signature) },
+  };
+}
+
+function mockFetch(envelope: { payload: string; signature: string }) {
+  global.fetch = jest.fn().mockImplementation(async (url: string) => {
+    if (url.endsWith('/config/ruleset')) {
+      return { ok: true, status: 200, json: async () => envelope };
+    }
+    return {
+      ok: true,
+      status: 200,
+      json: async () => ({
+        userId: 'user_1',
+        snapshotId: 'snapshot_server',
+        configurations: { hero_variant: 'control', pricing_banner: 'off' },
+        isFinal: true,
+        qualifiedSegments: [],
+        qualifiedRuleSets: [],
+        timestamp: new Date().toISOString(),
+        isFromCache: false,
+      }),
+    };
+  });
+}
+
+async function waitFor(condition: () => boolean) {
+  for (let i = 0; i < 20 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+const configCalls = () => (global.fetch as jest.Mock).mock.calls
+  .filter(([url]) => String(url).endsWith('/config/configurations'));
+
+describe('Rule Evaluation', () => {
+  const originalCrypto = global.crypto;
+
+  beforeAll(() => {
+    Object.defineProperty(global, 'crypto', { value: webcrypto, configurable: true });
+    (global as any).TextEncoder = TextEncoder;
+  });
+
+  afterAll(() => {
+    Object.defineProperty(global, 'crypto', { value: originalCrypto, configurable: true });
+  });
+
+  afterEach(() => {
+    window.history.replaceState({}, '', '/');
+  });
+
+  test('should evaluate segments and rule sets by priority', () => {
+    expect(evaluateRuleset(ruleset, { userId: 'user_1', properties: { plan: 'free' } })).toEqual({
+      snapshotId: 'snapshot_local',
+      configurations: { hero_variant: 'control', pricing_banner: 'off' },
+      qualifiedSegments: [],
+      qualifiedRuleSets: [],
+    });
+
+    const result = evaluateRuleset(ruleset, {
+      userId: 'user_1',
+      properties: { plan: 'pro', seats: '25' },
+      currentUrl: 'https://example.com/pricing',
+    });
+    expect(result.qualifiedSegments).toEqual(['pro_users', 'power_users']);
+    expect(result.qualifiedRuleSets).toEqual(['power_hero', 'pro_hero', 'pricing_page']);
+    expect(result.configurations).toEqual({ hero_variant: 'power', pricing_banner: 'on' });
+  });
+
+  test('should reject rulesets with an invalid signature', async () => {
+    const { signingKey, envelope } = await signRuleset(ruleset);
+    mockFetch({ ...envelope, payload: envelope.payload.replace('"control"', '"tampered"') });
+    const manager = new RuleEvaluationManager(
+      {
+        getConfigBaseUrl: () => `${TEST_API_URL}/v1/client/${TEST_TENANT_ID}/config`,
+        getAuthHeaders: async () => ({}),
+      },
+      { tenantId: TEST_TENANT_ID, signingKey }
+    );
+
+    expect(await manager.load()).toBe(false);
+    expect(manager.evaluate({ userId: 'user_1' })).toBeNull();
+  });
+
+  test('should require a signing key', () => {
+    expect(() => createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      enableLocalEvaluation: true,
+    })).toThrow('ruleSigningKey is required');
+  });
+
+  test('should switch configs locally on property and route changes', async () => {
+    const { signingKey, envelope } = await signRuleset(ruleset);
+    mockFetch(envelope);
+    const grain = createGrainAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      enableConfigCache: false,
+      enableHeartbeat: false,
+      enableLocalEvaluation: true,
+      ruleSigningKey: signingKey,
+    });
+
+    const load = jest.spyOn(RuleEvaluationManager.prototype, 'load');
+    await grain.preloadConfig();
+    // Ruleset is loaded and verified in the background
+    await waitFor(() => load.mock.results.length > 0);
+    expect(await load.mock.results[0].value).toBe(true);
+    const serverCalls = configCalls().length;
+
+    const response = await grain.fetchConfig({ properties: { plan: 'pro' } });
+    expect(response?.qualifiedSegments).toEqual(['pro_users']);
+    expect(grain.getConfig('hero_variant', { trackExposure: false })).toBe('pro');
+
+    window.history.pushState({}, '', '/pricing');
+    expect(grain.getConfig('pricing_banner', { trackExposure: false })).toBe('on');
+    expect(grain.getConfig('hero_variant', { trackExposure: false })).toBe('pro');
+    expect(configCalls()).toHaveLength(serverCalls);
+
+    grain.destroy();
+  });
+});
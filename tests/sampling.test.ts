@@ -0,0 +1,134 @@
+/**
+ * Sampling Tests
+ * Tests deterministic sampling, token bucket rate limits and remote overrides
+ */
+
+import type { EventPayload } from '../src/index';
+import { SamplingManager, isSampledIn, matchRuleKey } from '../src/sampling';
+import { MemoryTransport, createClient } from './helpers';
+
+function createEvent(eventName: string): EventPayload {
+  return { eventName, userId: 'user_1', properties: {} };
+}
+
+describe('Sampling', () => {
+  test('should match exact keys before prefix patterns', () => {
+    const keys = ['*', '_grain_*', '_grain_heatmap_*', '_grain_heatmap_scroll'];
+
+    expect(matchRuleKey('_grain_heatmap_scroll', keys)).toBe('_grain_heatmap_scroll');
+    expect(matchRuleKey('_grain_heatmap_click', keys)).toBe('_grain_heatmap_*');
+    expect(matchRuleKey('_grain_heartbeat', keys)).toBe('_grain_*');
+    expect(matchRuleKey('signup', keys)).toBe('*');
+    expect(matchRuleKey('signup', ['_grain_*'])).toBeUndefined();
+  });
+
+  test('should keep sessions in every higher sample rate', () => {
+    const sessions = Array.from({ length: 200 }, (_, i) => `session_${i}`);
+    const inAtTen = sessions.filter(id => isSampledIn(id, 0.1));
+    const inAtHalf = sessions.filter(id => isSampledIn(id, 0.5));
+
+    expect(inAtTen.length).toBeGreaterThan(0);
+    expect(inAtTen.length).toBeLessThan(inAtHalf.length);
+    expect(inAtTen.every(id => inAtHalf.includes(id))).toBe(true);
+  });
+
+  test('should sample a session fully in or fully out and stamp the rate', () => {
+    let sessionId = '';
+    const manager = new SamplingManager({ getSamplingKey: () => sessionId }, {
+      sampleRates: { _grain_heatmap_scroll: 0.5 },
+    });
+
+    for (let i = 0; i < 20; i++) {
+      sessionId = `session_${i}`;
+      const results = [1, 2, 3].map(() => manager.process(createEvent('_grain_heatmap_scroll')));
+
+      expect(new Set(results.map(r => r === null)).size).toBe(1);
+      if (results[0]) {
+        expect(results[0].properties._sample_rate).toBe(0.5);
+      }
+    }
+
+    // Unsampled events are passed through untouched
+    expect(manager.process(createEvent('signup'))?.properties).toEqual({});
+  });
+
+  test('should rate limit with a refilling token bucket', () => {
+    jest.useFakeTimers();
+    const manager = new SamplingManager({ getSamplingKey: () => 'session_1' }, {
+      rateLimits: { '_grain_heatmap_*': { maxEvents: 2, interval: 1000 } },
+    });
+
+    const accepted = () => manager.process(createEvent('_grain_heatmap_click')) !== null;
+
+    expect([accepted(), accepted(), accepted()]).toEqual([true, true, false]);
+
+    // Half the interval refills one token
+    jest.advanceTimersByTime(500);
+    expect([accepted(), accepted()]).toEqual([true, false]);
+
+    // Other events have their own budget
+    expect(manager.process(createEvent('_grain_heartbeat'))).not.toBeNull();
+
+    jest.useRealTimers();
+  });
+
+  test('should let remote rules override local rules', () => {
+    const manager = new SamplingManager({ getSamplingKey: () => 'session_1' }, {
+      sampleRates: { '*': 1, _grain_heartbeat: 0.25 },
+    });
+
+    manager.updateRemoteRules({ sampleRates: { _grain_heartbeat: 0 } });
+    expect(manager.getSampleRate('_grain_heartbeat')).toBe(0);
+    expect(manager.process(createEvent('_grain_heartbeat'))).toBeNull();
+    expect(manager.getSampleRate('signup')).toBe(1);
+  });
+
+  test('should apply sampling config from the client', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({
+      transport,
+      sampleRates: { debug_ping: 0 },
+      rateLimits: { button_click: { maxEvents: 1, interval: 60000 } },
+    });
+
+    await grain.track('debug_ping');
+    await grain.track('button_click');
+    await grain.track('button_click');
+    await grain.flush();
+
+    const names = transport.events.map(e => e.eventName);
+    expect(names).not.toContain('debug_ping');
+    expect(names.filter(name => name === 'button_click')).toHaveLength(1);
+
+    grain.destroy();
+  });
+
+  test('should keep the sample decision when consent changes the session ID', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({
+      transport,
+      consentMode: 'GDPR_STRICT',
+      sampleRates: { ping: 0.5 },
+    });
+
+    const initialId = grain.getSessionId();
+    const sampledIn = isSampledIn(initialId, 0.5);
+    // A user ID on the other side of the sample
+    let userId = 'user_0';
+    for (let i = 1; isSampledIn(userId, 0.5) === sampledIn; i++) {
+      userId = `user_${i}`;
+    }
+
+    await grain.track('ping');
+    grain.setUserId(userId);
+    // Consent moves the session from the ephemeral ID to the user ID
+    grain.grantConsent();
+    expect(grain.getSessionId()).toBe(userId);
+    await grain.track('ping');
+    await grain.flush();
+
+    expect(transport.events.filter(e => e.eventName === 'ping')).toHaveLength(sampledIn ? 2 : 0);
+
+    grain.destroy();
+  });
+});
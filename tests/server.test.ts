@@ -0,0 +1,102 @@
+/**
+ * Server Client Tests
+ * Tests the server-side client lifecycle and per-user context
+ *
+ * @jest-environment node
+ */
+
+import { createGrainServerAnalytics } from '../src/server';
+import { MemoryTransport, createClient } from './helpers';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+describe('Server Client', () => {
+  test('should require a secretKey by default', () => {
+    expect(() => createGrainServerAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+    })).toThrow('secretKey is required');
+  });
+
+  test('should authenticate with the secret key', async () => {
+    const transport = new MemoryTransport();
+    const grain = createGrainServerAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      secretKey: 'test-secret',
+      transport,
+    });
+
+    await grain.track({ eventName: 'job_finished', userId: 'worker_user' });
+    await grain.flush();
+
+    expect(transport.requests[0].headers.Authorization).toBe('Chase test-secret');
+    await grain.shutdown();
+  });
+
+  test('should scope events to the user of each request', async () => {
+    const transport = new MemoryTransport();
+    const grain = createGrainServerAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      secretKey: 'test-secret',
+      transport,
+    });
+
+    await grain.forUser('user_a').track('invoice_paid', { amount: 10 });
+    await grain.forUser('user_b').track('invoice_paid', { amount: 20 });
+    await grain.shutdown();
+
+    const events = transport.requests
+      .flatMap(r => r.events)
+      .filter(e => e.eventName === 'invoice_paid');
+    expect(events.map(e => [e.userId, e.properties.amount])).toEqual([
+      ['user_a', 10],
+      ['user_b', 20],
+    ]);
+  });
+
+  test('should drain the queue on shutdown', async () => {
+    const transport = new MemoryTransport();
+    const grain = createGrainServerAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      secretKey: 'test-secret',
+      transport,
+      flushInterval: 60000,
+    });
+
+    await grain.forUser('user_a').track('report_generated');
+    expect(transport.requests).toHaveLength(0);
+
+    await grain.shutdown();
+    expect(transport.requests).toHaveLength(1);
+  });
+
+  test('should flush on an interval until shutdown', async () => {
+    jest.useFakeTimers();
+    const transport = new MemoryTransport();
+    const grain = createGrainServerAnalytics({
+      tenantId: TEST_TENANT_ID,
+      apiUrl: TEST_API_URL,
+      secretKey: 'test-secret',
+      transport,
+      flushInterval: 1000,
+    });
+
+    await grain.forUser('user_a').track('report_generated');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(transport.requests).toHaveLength(1);
+
+    await grain.shutdown();
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  test('should not start a flush timer for a browser client rendered on the server', () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+    const grain = createClient({ flushInterval: 1000 });
+
+    expect(setIntervalSpy).not.toHaveBeenCalledWith(expect.any(Function), 1000);
+    grain.destroy();
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Session Replay Tests
+ * Tests sampling, consent gating, chunked uploads and stopping on revoke
+ */
+
+import { SessionReplayManager, type SessionReplayChunk, type SessionReplayTracker } from '../src/session-replay';
+import { isSampledIn } from '../src/sampling';
+import { MemoryTransport, createClient } from './helpers';
+
+const mockRecord = jest.fn();
+const mockStopRecording = jest.fn();
+
+// rrweb is an optional dependency - record() hands back the emit callback
+jest.mock('rrweb', () => ({ record: (options: unknown) => mockRecord(options) }), { virtual: true });
+
+function createTracker(hasConsent: boolean, uploads: SessionReplayChunk[] = []) {
+  const tracker: SessionReplayTracker = {
+    getSessionId: () => 'session_123',
+    getSamplingKey: () => 'session_123',
+    getRecordingId: () => 'recording_123',
+    getEffectiveUserId: () => 'user_123',
+    hasReplayConsent: () => hasConsent,
+    uploadReplayChunk: async (chunk) => {
+      uploads.push(chunk);
+      return true;
+    },
+  };
+  return tracker;
+}
+
+// Emit rrweb events into the running recording
+function emit(...events: unknown[]): void {
+  const { emit: emitEvent } = mockRecord.mock.calls[mockRecord.mock.calls.length - 1][0];
+  events.forEach(event => emitEvent(event));
+}
+
+describe('Session Replay', () => {
+  beforeEach(() => {
+    mockRecord.mockReturnValue(mockStopRecording);
+  });
+
+  test('should sample sessions deterministically', () => {
+    const first = isSampledIn('session_abc', 0.5);
+    for (let i = 0; i < 5; i++) {
+      expect(isSampledIn('session_abc', 0.5)).toBe(first);
+    }
+    expect(isSampledIn('session_abc', 1)).toBe(true);
+    expect(isSampledIn('session_abc', 0)).toBe(false);
+  });
+
+  test('should sample roughly the configured share of sessions', () => {
+    let sampled = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (isSampledIn(`session_${i}`, 0.2)) sampled++;
+    }
+    expect(sampled).toBeGreaterThan(150);
+    expect(sampled).toBeLessThan(250);
+  });
+
+  test('should not record without replay consent', async () => {
+    const manager = new SessionReplayManager(createTracker(false));
+    await manager.start();
+    expect(manager.isActive()).toBe(false);
+    manager.destroy();
+  });
+
+  test('should not record sessions outside the sample', async () => {
+    const manager = new SessionReplayManager(createTracker(true), { sampleRate: 0 });
+    await manager.start();
+    expect(manager.isActive()).toBe(false);
+    manager.destroy();
+  });
+
+  test('should upload full chunks and the rest on each interval', async () => {
+    jest.useFakeTimers();
+    try {
+      const uploads: SessionReplayChunk[] = [];
+      const manager = new SessionReplayManager(createTracker(true, uploads), { maxChunkEvents: 2, chunkInterval: 5000 });
+      await manager.start();
+      expect(manager.isActive()).toBe(true);
+      expect(mockRecord).toHaveBeenCalledWith(expect.objectContaining({ maskAllInputs: true }));
+
+      emit({ type: 2 }, { type: 3 }, { type: 3 });
+      expect(uploads).toHaveLength(1);
+      expect(uploads[0]).toMatchObject({
+        sessionId: 'session_123',
+        recordingId: 'recording_123',
+        userId: 'user_123',
+        chunkIndex: 0,
+        events: [{ type: 2 }, { type: 3 }],
+      });
+
+      jest.advanceTimersByTime(5000);
+      expect(uploads).toHaveLength(2);
+      expect(uploads[1]).toMatchObject({ chunkIndex: 1, events: [{ type: 3 }] });
+
+      // Nothing buffered, nothing uploaded
+      jest.advanceTimersByTime(5000);
+      expect(uploads).toHaveLength(2);
+
+      manager.destroy();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('should stop recording instead of uploading once consent is revoked', async () => {
+    let hasConsent = true;
+    const uploads: SessionReplayChunk[] = [];
+    const tracker = { ...createTracker(true, uploads), hasReplayConsent: () => hasConsent };
+    const manager = new SessionReplayManager(tracker, { maxChunkEvents: 2 });
+    await manager.start();
+
+    emit({ type: 2 });
+    hasConsent = false;
+    emit({ type: 3 });
+
+    expect(uploads).toHaveLength(0);
+    expect(mockStopRecording).toHaveBeenCalledTimes(1);
+    expect(manager.isActive()).toBe(false);
+
+    manager.destroy();
+  });
+
+  test('should send only what fits the keepalive budget at unload and upload the rest later', async () => {
+    const uploads: Array<[SessionReplayChunk, boolean]> = [];
+    const tracker: SessionReplayTracker = {
+      ...createTracker(true),
+      uploadReplayChunk: async (chunk, keepalive) => {
+        uploads.push([chunk, keepalive]);
+        return true;
+      },
+    };
+    const options = { storageKey: 'grain_replay_test', unloadBudget: 2000 };
+    const manager = new SessionReplayManager(tracker, options);
+    await manager.start();
+
+    emit({ type: 3, data: 'scroll' }, { type: 2, data: 'x'.repeat(5000) }, { type: 3, data: 'input' });
+    window.dispatchEvent(new Event('pagehide'));
+
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0][1]).toBe(true);
+    expect(uploads[0][0]).toMatchObject({ chunkIndex: 0, events: [{ type: 3, data: 'scroll' }] });
+    expect(JSON.stringify(uploads[0][0]).length).toBeLessThanOrEqual(2000);
+    manager.destroy();
+
+    // Next page load
+    const next = new SessionReplayManager(tracker, options);
+    await next.start();
+
+    expect(uploads).toHaveLength(2);
+    expect(uploads[1][1]).toBe(false);
+    expect(uploads[1][0]).toMatchObject({ chunkIndex: 1, recordingId: 'recording_123' });
+    expect(uploads[1][0].events).toHaveLength(2);
+    expect(localStorage.getItem('grain_replay_test')).toBeNull();
+    next.destroy();
+  });
+
+  test('should discard stored chunks when replay consent is revoked', async () => {
+    const options = { storageKey: 'grain_replay_test', unloadBudget: 500 };
+    const manager = new SessionReplayManager(createTracker(true), options);
+    await manager.start();
+
+    emit({ type: 2, data: 'x'.repeat(1000) });
+    manager.destroy();
+    expect(localStorage.getItem('grain_replay_test')).not.toBeNull();
+
+    new SessionReplayManager(createTracker(false), options).stop();
+    expect(localStorage.getItem('grain_replay_test')).toBeNull();
+  });
+
+  test('should record with replay consent and stop on revoke through the client', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport, consentMode: 'GDPR_STRICT', enableSessionReplay: true });
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    grain.grantConsent(['analytics', 'replay']);
+    await settle();
+    await settle();
+    expect(mockRecord).toHaveBeenCalledTimes(1);
+
+    emit({ type: 2 });
+    grain.revokeConsent(['replay']);
+    expect(mockStopRecording).toHaveBeenCalledTimes(1);
+
+    // A new recording uploads its last chunk through the transport on destroy
+    grain.grantConsent(['analytics', 'replay']);
+    await settle();
+    emit({ type: 2 });
+    grain.destroy();
+    await settle();
+
+    const uploads = transport.requests.filter(request => request.url.endsWith('/replay'));
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0].keepalive).toBe(true);
+    expect(JSON.parse(uploads[0].body)).toMatchObject({ chunkIndex: 0, events: [{ type: 2 }] });
+  });
+});
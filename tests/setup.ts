@@ -18,6 +18,9 @@ global.IntersectionObserver = class IntersectionObserver {
 
 // Cleanup and reset before each test
 beforeEach(() => {
+  // Server tests run in the node environment without a DOM
+  if (typeof window === 'undefined') return;
+
   // Clear storage
   localStorage.clear();
   sessionStorage.clear();
@@ -0,0 +1,76 @@
+/**
+ * Transport Tests
+ * Tests event delivery through custom transports
+ */
+
+import { MemoryTransport, createClient } from './helpers';
+import { TEST_TENANT_ID, TEST_API_URL } from './setup';
+
+describe('Transport', () => {
+  test('should deliver events through a custom transport', async () => {
+    const transport = new MemoryTransport();
+    const grain = createClient({ transport });
+
+    await grain.track('transport_event', { plan: 'pro' });
+    await grain.flush();
+
+    expect(transport.requests).toHaveLength(1);
+    const [request] = transport.requests;
+    expect(request.url).toBe(`${TEST_API_URL}/v1/events/${TEST_TENANT_ID}/multi`);
+    expect(request.events.map(e => e.eventName)).toContain('transport_event');
+    expect(JSON.parse(request.body)).toEqual(request.events);
+
+    grain.destroy();
+  });
+
+  test('should retry server errors returned by the transport', async () => {
+    const transport = new MemoryTransport();
+    transport.responses.push({ ok: false, status: 503, body: '{"message":"Unavailable"}' });
+
+    const grain = createClient({
+      transport,
+      retryDelay: 1,
+    });
+
+    await grain.track('retry_event');
+    await grain.flush();
+
+    expect(transport.requests).toHaveLength(2);
+
+    grain.destroy();
+  });
+
+  test('should use the unload transport when destroyed', async () => {
+    const transport = new MemoryTransport();
+    const unloadTransport = new MemoryTransport();
+
+    const grain = createClient({
+      transport,
+      unloadTransport,
+    });
+
+    await grain.track('unload_event');
+    grain.destroy();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(transport.requests).toHaveLength(0);
+    expect(unloadTransport.requests).toHaveLength(1);
+    expect(unloadTransport.requests[0].keepalive).toBe(true);
+  });
+
+  test('should keep unload delivery on a custom transport without an unload transport', async () => {
+    const transport = new MemoryTransport();
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = fetchMock;
+
+    const grain = createClient({ transport });
+
+    await grain.track('unload_event');
+    grain.destroy();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(transport.requests).toHaveLength(1);
+    expect(transport.requests[0].keepalive).toBe(true);
+    expect(fetchMock.mock.calls.filter(([url]) => String(url).endsWith('/multi'))).toHaveLength(0);
+  });
+});
@@ -4,6 +4,7 @@
  */
 
 import { createGrainAnalytics } from '../src/index';
+import { MemoryTransport, createClient } from './helpers';
 import { TEST_TENANT_ID, TEST_API_URL } from './setup';
 
 describe('User Identification', () => {
@@ -48,3 +49,81 @@ describe('User Identification', () => {
   });
 });
 
+
+describe('User Aliasing', () => {
+  let transport: MemoryTransport;
+
+  function aliasEvents() {
+    return transport.events.filter(e => e.eventName === '_grain_alias');
+  }
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    sessionStorage.clear();
+  });
+
+  test('should link the anonymous ID when an anonymous user identifies', async () => {
+    const grain = createClient({ transport });
+    const anonymousId = grain.getEffectiveUserId();
+
+    grain.identify('user_123');
+    await grain.flush();
+
+    const [alias] = aliasEvents();
+    expect(alias.userId).toBe('user_123');
+    expect(alias.properties).toMatchObject({
+      previous_id: anonymousId,
+      previous_id_type: 'daily_rotating',
+      user_id: 'user_123',
+      source: 'identify',
+      consent_mode: 'COOKIELESS',
+    });
+
+    grain.destroy();
+  });
+
+  test('should link on login and not when switching between known users', async () => {
+    const grain = createClient({ transport });
+
+    grain.login({ userId: 'user_1' });
+    grain.identify('user_2');
+    await grain.flush();
+
+    expect(aliasEvents()).toHaveLength(1);
+    expect(aliasEvents()[0].properties.source).toBe('login');
+
+    grain.destroy();
+  });
+
+  test('should only link the same pair once per session', async () => {
+    const first = createClient({ transport });
+    first.identify('user_123');
+    await first.flush();
+    first.destroy();
+
+    // Next page load identifies the same user again
+    const second = createClient({ transport });
+    second.identify('user_123');
+    await second.flush();
+    second.destroy();
+
+    expect(aliasEvents()).toHaveLength(1);
+  });
+
+  test('should send explicit aliases for cross-device IDs', async () => {
+    const grain = createClient({ transport, userId: 'user_123' });
+
+    grain.alias('mobile_device_42', 'user_123');
+    grain.alias('same', 'same');
+    await grain.flush();
+
+    expect(aliasEvents()).toHaveLength(1);
+    expect(aliasEvents()[0].properties).toMatchObject({
+      previous_id: 'mobile_device_42',
+      user_id: 'user_123',
+      source: 'alias',
+    });
+
+    grain.destroy();
+  });
+});
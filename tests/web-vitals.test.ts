@@ -0,0 +1,147 @@
+/**
+ * Web Vitals Tests
+ * Tests metric collection and per-page-view reporting
+ */
+
+import { WebVitalsManager, type WebVitalsTracker } from '../src/web-vitals';
+
+type ObserverCallback = (list: { getEntries: () => PerformanceEntry[] }) => void;
+
+const observers = new Map<string, ObserverCallback>();
+
+class MockPerformanceObserver {
+  private callback: ObserverCallback;
+
+  constructor(callback: ObserverCallback) {
+    this.callback = callback;
+  }
+
+  observe(options: { type: string }): void {
+    observers.set(options.type, this.callback);
+  }
+
+  disconnect(): void {}
+}
+
+function emitEntries(type: string, entries: Array<Record<string, unknown>>): void {
+  observers.get(type)?.({ getEntries: () => entries as unknown as PerformanceEntry[] });
+}
+
+function createTracker() {
+  const events: Array<{ eventName: string; properties: Record<string, unknown> }> = [];
+  const tracker: WebVitalsTracker = {
+    trackSystemEvent: (eventName, properties) => {
+      events.push({ eventName, properties });
+    },
+    getCurrentPage: () => '/pricing',
+    getSessionId: () => 'session_123',
+    log: () => {},
+  };
+  return { tracker, events };
+}
+
+function hidePage(): void {
+  Object.defineProperty(document, 'visibilityState', { value: 'hidden', configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+function showPage(): void {
+  Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+  document.dispatchEvent(new Event('visibilitychange'));
+}
+
+describe('Web Vitals', () => {
+  beforeEach(() => {
+    observers.clear();
+    (global as any).PerformanceObserver = MockPerformanceObserver;
+    Object.defineProperty(document, 'visibilityState', { value: 'visible', configurable: true });
+  });
+
+  afterEach(() => {
+    delete (global as any).PerformanceObserver;
+  });
+
+  test('should report load metrics once when the page is hidden', () => {
+    const { tracker, events } = createTracker();
+    const manager = new WebVitalsManager(tracker);
+
+    emitEntries('paint', [{ name: 'first-contentful-paint', startTime: 812.4 }]);
+    emitEntries('largest-contentful-paint', [{ startTime: 1200 }, { startTime: 1840.6 }]);
+    emitEntries('layout-shift', [
+      { startTime: 2000, value: 0.05, hadRecentInput: false },
+      { startTime: 2300, value: 0.03, hadRecentInput: false },
+      { startTime: 2400, value: 0.5, hadRecentInput: true },
+    ]);
+
+    hidePage();
+    window.dispatchEvent(new Event('pagehide'));
+
+    const vitals = events.filter(e => e.eventName === '_grain_web_vitals');
+    expect(vitals).toHaveLength(1);
+    expect(vitals[0].properties).toMatchObject({
+      page: '/pricing',
+      session_id: 'session_123',
+      soft_navigation: false,
+      fcp: 812,
+      lcp: 1841,
+      cls: 0.08,
+    });
+
+    manager.destroy();
+  });
+
+  test('should ignore layout shifts while the page is hidden', () => {
+    const { tracker } = createTracker();
+    const manager = new WebVitalsManager(tracker);
+
+    emitEntries('layout-shift', [{ startTime: 1000, value: 0.05, hadRecentInput: false }]);
+    jest.spyOn(performance, 'now').mockReturnValue(1500);
+    hidePage();
+    emitEntries('layout-shift', [{ startTime: 1800, value: 0.4, hadRecentInput: false }]);
+
+    expect(manager.getMetrics().cls).toBe(0.05);
+
+    manager.destroy();
+  });
+
+  test('should measure layout shifts on routes visited after the tab was hidden', () => {
+    const { tracker, events } = createTracker();
+    const manager = new WebVitalsManager(tracker);
+
+    jest.spyOn(performance, 'now').mockReturnValue(1500);
+    hidePage();
+    showPage();
+    manager.onPageChange('/checkout');
+    emitEntries('layout-shift', [{ startTime: 5000, value: 0.12, hadRecentInput: false }]);
+    manager.onPageChange('/account');
+
+    const vitals = events.filter(e => e.eventName === '_grain_web_vitals');
+    expect(vitals.map(e => e.properties.page)).toEqual(['/pricing', '/checkout']);
+    expect(vitals[1].properties).toMatchObject({ soft_navigation: true, cls: 0.12 });
+
+    manager.destroy();
+  });
+
+  test('should report interaction latency for the previous route on soft navigation', () => {
+    const { tracker, events } = createTracker();
+    const manager = new WebVitalsManager(tracker);
+
+    emitEntries('event', [
+      { interactionId: 1, duration: 80 },
+      { interactionId: 1, duration: 120 },
+      { interactionId: 2, duration: 64 },
+    ]);
+
+    manager.onPageChange('/checkout');
+
+    const vitals = events.filter(e => e.eventName === '_grain_web_vitals');
+    expect(vitals).toHaveLength(1);
+    expect(vitals[0].properties).toMatchObject({ page: '/pricing', inp: 120 });
+
+    // New route starts from a clean slate with no load metrics
+    emitEntries('event', [{ interactionId: 3, duration: 48 }]);
+    expect(manager.getMetrics()).toEqual({ cls: 0, inp: 48 });
+
+    manager.destroy();
+  });
+});